@@ -0,0 +1,99 @@
+import { useCallback, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { History, Trash2, Loader2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AnalysisSummary, VisualizationData } from "@shared/schema";
+
+interface AnalysisHistoryProps {
+  onOpen: (data: VisualizationData) => void;
+}
+
+function formatDuration(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+export function AnalysisHistory({ onOpen }: AnalysisHistoryProps) {
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data: analyses } = useQuery<AnalysisSummary[]>({
+    queryKey: ["/api/analyses"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/analyses/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/analyses"] });
+    },
+  });
+
+  const handleOpen = useCallback(async (id: string) => {
+    setOpeningId(id);
+    try {
+      const res = await apiRequest("GET", `/api/analyses/${id}`);
+      onOpen(await res.json());
+    } catch (err) {
+      toast({
+        title: "Could not open analysis",
+        description: err instanceof Error ? err.message : "Failed to load analysis",
+        variant: "destructive",
+      });
+    } finally {
+      setOpeningId(null);
+    }
+  }, [onOpen, toast]);
+
+  if (!analyses || analyses.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card
+      className="relative z-10 max-w-xl w-full mx-4 p-4 backdrop-blur-xl bg-card/80 border-white/10 rounded-2xl"
+      data-testid="card-analysis-history"
+    >
+      <div className="flex items-center gap-2 mb-3 text-xs text-muted-foreground uppercase tracking-wide font-medium">
+        <History className="w-3 h-3" />
+        Recent analyses
+      </div>
+      <div className="max-h-48 overflow-y-auto space-y-1">
+        {analyses.map((analysis) => (
+          <div
+            key={analysis.id}
+            className="flex items-center gap-2 rounded-lg px-2 py-1.5 hover:bg-white/5"
+            data-testid={`row-analysis-${analysis.id}`}
+          >
+            <button
+              className="flex-1 min-w-0 text-left"
+              onClick={() => handleOpen(analysis.id)}
+              disabled={openingId !== null}
+              data-testid={`button-open-analysis-${analysis.id}`}
+            >
+              <p className="text-sm text-foreground truncate">{analysis.originalName}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatDuration(analysis.duration)} · {analysis.verseCount} phrases · {analysis.pointCount} points · {new Date(analysis.createdAt).toLocaleString()}
+              </p>
+            </button>
+            {openingId === analysis.id && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+            <Button
+              size="icon"
+              variant="ghost"
+              className="w-8 h-8 text-muted-foreground"
+              onClick={() => deleteMutation.mutate(analysis.id)}
+              disabled={deleteMutation.isPending}
+              aria-label="Delete analysis"
+              data-testid={`button-delete-analysis-${analysis.id}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,317 @@
+import { useMemo } from "react";
+import { RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  analysisOptionsSchema,
+  defaultAnalysisOptions,
+  type AnalysisChannel,
+  type AnalysisOptions,
+  type EmbeddingMethod,
+  type EmbeddingOptions,
+  type NetworkMode,
+} from "@shared/schema";
+
+interface AnalysisOptionsFormProps {
+  value: AnalysisOptions;
+  onChange: (options: AnalysisOptions) => void;
+}
+
+type NumericOptionKey = Exclude<keyof AnalysisOptions, "embedding" | "network" | "channel">;
+type NumericEmbeddingKey = Exclude<keyof EmbeddingOptions, "method">;
+
+interface OptionField {
+  key: NumericOptionKey;
+  label: string;
+  hint: string;
+  step: number;
+}
+
+interface EmbeddingField {
+  key: NumericEmbeddingKey;
+  label: string;
+  hint: string;
+  step: number;
+  methods: EmbeddingMethod[];
+}
+
+// Validation errors are keyed by option path, e.g. "hopSize" or "embedding.perplexity"
+export type AnalysisOptionsErrors = Partial<Record<string, string>>;
+
+const FIELDS: OptionField[] = [
+  { key: "frameSize", label: "Frame size", hint: "FFT window, power of two", step: 1 },
+  { key: "hopSize", label: "Hop size", hint: "Samples between frames", step: 1 },
+  { key: "melFilters", label: "Mel filters", hint: "Filterbank bands", step: 1 },
+  { key: "mfccCount", label: "MFCCs", hint: "Coefficients per frame", step: 1 },
+  { key: "pointsPerVerse", label: "Points per phrase", hint: "Downsampling cap", step: 10 },
+  { key: "silenceThreshold", label: "Silence threshold", hint: "Fraction of peak RMS", step: 0.01 },
+  { key: "minSilenceDuration", label: "Min silence (s)", hint: "Gap that splits phrases", step: 0.05 },
+  { key: "minVerseDuration", label: "Min phrase (s)", hint: "Shorter phrases are dropped", step: 0.05 },
+  { key: "syllableThreshold", label: "Syllable threshold", hint: "Fraction of phrase peak RMS", step: 0.05 },
+  { key: "minSyllableDuration", label: "Min syllable (s)", hint: "Shorter syllables are dropped", step: 0.01 },
+  { key: "syllableTypes", label: "Syllable types", hint: "0 picks automatically", step: 1 },
+];
+
+export const EMBEDDING_LABELS: Record<EmbeddingMethod, string> = {
+  pca: "PCA",
+  umap: "UMAP",
+  tsne: "t-SNE",
+};
+
+const EMBEDDING_FIELDS: EmbeddingField[] = [
+  { key: "seed", label: "Seed", hint: "Same seed, same layout", step: 1, methods: ["umap", "tsne"] },
+  { key: "iterations", label: "Iterations", hint: "Optimisation epochs", step: 50, methods: ["umap", "tsne"] },
+  { key: "perplexity", label: "Perplexity", hint: "Effective neighbours", step: 1, methods: ["tsne"] },
+  { key: "umapNeighbors", label: "UMAP neighbours", hint: "Local vs global structure", step: 1, methods: ["umap"] },
+  { key: "minDist", label: "Min distance", hint: "How tightly clusters pack", step: 0.05, methods: ["umap"] },
+];
+
+export const NETWORK_LABELS: Record<NetworkMode, string> = {
+  knn: "k nearest",
+  mutual: "Mutual k nearest",
+  radius: "Within radius",
+};
+
+// Select values are strings; channels beyond these can still come from stored options
+const CHANNEL_CHOICES: AnalysisChannel[] = ["mix", "split", 0, 1, 2, 3, 4, 5, 6, 7];
+
+function channelLabel(channel: AnalysisChannel): string {
+  if (channel === "mix") return "Mix down";
+  if (channel === "split") return "Each separately";
+  return `Channel ${channel + 1}`;
+}
+
+const STORAGE_KEY = "birdsong.analysisOptions";
+
+export function loadStoredAnalysisOptions(): AnalysisOptions {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = analysisOptionsSchema.safeParse(JSON.parse(stored));
+      if (parsed.success) return parsed.data;
+    }
+  } catch {
+    // Fall through to defaults on unreadable storage
+  }
+  return defaultAnalysisOptions;
+}
+
+export function storeAnalysisOptions(options: AnalysisOptions): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+  } catch {
+    // Storage may be unavailable (private mode); options still apply to this session
+  }
+}
+
+export function validateAnalysisOptions(options: AnalysisOptions): AnalysisOptionsErrors {
+  const result = analysisOptionsSchema.safeParse(options);
+  if (result.success) return {};
+  const errors: AnalysisOptionsErrors = {};
+  for (const issue of result.error.issues) {
+    errors[issue.path.join(".")] ??= issue.message;
+  }
+  return errors;
+}
+
+function NumberField({
+  id,
+  label,
+  hint,
+  step,
+  value,
+  error,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  hint: string;
+  step: number;
+  value: number;
+  error?: string;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={`option-${id}`} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={`option-${id}`}
+        type="number"
+        step={step}
+        value={Number.isNaN(value) ? "" : value}
+        onChange={(e) => onChange(e.target.valueAsNumber)}
+        className={`h-8 bg-white/5 border-white/10 font-mono text-xs ${error ? "border-destructive" : ""}`}
+        data-testid={`input-option-${id}`}
+      />
+      <p className={`text-[10px] ${error ? "text-destructive" : "text-muted-foreground"}`}>
+        {error ?? hint}
+      </p>
+    </div>
+  );
+}
+
+export function AnalysisOptionsForm({ value, onChange }: AnalysisOptionsFormProps) {
+  const errors = useMemo(() => validateAnalysisOptions(value), [value]);
+
+  const channelChoices = CHANNEL_CHOICES.includes(value.channel)
+    ? CHANNEL_CHOICES
+    : [...CHANNEL_CHOICES, value.channel];
+
+  return (
+    <div className="space-y-3" data-testid="form-analysis-options">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="option-channel" className="text-xs">
+            Channel
+          </Label>
+          <Select
+            value={String(value.channel)}
+            onValueChange={(channel) =>
+              onChange({ ...value, channel: channel === "mix" || channel === "split" ? channel : Number(channel) })
+            }
+          >
+            <SelectTrigger
+              id="option-channel"
+              className="h-8 bg-white/5 border-white/10 text-xs"
+              data-testid="select-option-channel"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {channelChoices.map((channel) => (
+                <SelectItem key={channel} value={String(channel)}>
+                  {channelLabel(channel)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-[10px] text-muted-foreground">Of multichannel recordings</p>
+        </div>
+        {FIELDS.map((field) => (
+          <NumberField
+            key={field.key}
+            id={field.key}
+            label={field.label}
+            hint={field.hint}
+            step={field.step}
+            value={value[field.key]}
+            error={errors[field.key]}
+            onChange={(n) => onChange({ ...value, [field.key]: n })}
+          />
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-3 border-t border-white/10 pt-3">
+        <div className="space-y-1">
+          <Label htmlFor="option-embedding-method" className="text-xs">
+            Embedding
+          </Label>
+          <Select
+            value={value.embedding.method}
+            onValueChange={(method) =>
+              onChange({ ...value, embedding: { ...value.embedding, method: method as EmbeddingMethod } })
+            }
+          >
+            <SelectTrigger
+              id="option-embedding-method"
+              className="h-8 bg-white/5 border-white/10 text-xs"
+              data-testid="select-option-embedding-method"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(EMBEDDING_LABELS) as EmbeddingMethod[]).map((method) => (
+                <SelectItem key={method} value={method}>
+                  {EMBEDDING_LABELS[method]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-[10px] text-muted-foreground">MFCCs to 3D</p>
+        </div>
+        {EMBEDDING_FIELDS.filter((field) => field.methods.includes(value.embedding.method)).map((field) => (
+          <NumberField
+            key={field.key}
+            id={`embedding-${field.key}`}
+            label={field.label}
+            hint={field.hint}
+            step={field.step}
+            value={value.embedding[field.key]}
+            error={errors[`embedding.${field.key}`]}
+            onChange={(n) => onChange({ ...value, embedding: { ...value.embedding, [field.key]: n } })}
+          />
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-3 border-t border-white/10 pt-3">
+        <div className="space-y-1">
+          <Label htmlFor="option-network-mode" className="text-xs">
+            Network
+          </Label>
+          <Select
+            value={value.network.mode}
+            onValueChange={(mode) =>
+              onChange({ ...value, network: { ...value.network, mode: mode as NetworkMode } })
+            }
+          >
+            <SelectTrigger
+              id="option-network-mode"
+              className="h-8 bg-white/5 border-white/10 text-xs"
+              data-testid="select-option-network-mode"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(NETWORK_LABELS) as NetworkMode[]).map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {NETWORK_LABELS[mode]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-[10px] text-muted-foreground">Which points are linked</p>
+        </div>
+        {value.network.mode === "radius" ? (
+          <NumberField
+            id="network-radius"
+            label="Radius"
+            hint="In embedding units, cloud spans ±5"
+            step={0.05}
+            value={value.network.radius}
+            error={errors["network.radius"]}
+            onChange={(n) => onChange({ ...value, network: { ...value.network, radius: n } })}
+          />
+        ) : (
+          <NumberField
+            id="neighbors"
+            label="Neighbours (k)"
+            hint="Edges per point"
+            step={1}
+            value={value.neighbors}
+            error={errors.neighbors}
+            onChange={(n) => onChange({ ...value, neighbors: n })}
+          />
+        )}
+      </div>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="text-xs text-muted-foreground"
+        onClick={() => onChange(defaultAnalysisOptions)}
+        data-testid="button-reset-options"
+      >
+        <RotateCcw className="w-3 h-3 mr-1" />
+        Reset to defaults
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState, useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Layers, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AnalysisOptionsForm,
+  EMBEDDING_LABELS,
+  validateAnalysisOptions,
+} from "@/components/analysis-options-form";
+import {
+  defaultAnalysisOptions,
+  type AnalysisOptions,
+  type AnalysisSummary,
+  type EmbeddingMethod,
+} from "@shared/schema";
+
+interface AnalysisVersionsProps {
+  recordingId: string;
+  analysisId?: string;
+  currentOptions?: AnalysisOptions;
+  onSelect: (analysisId: string) => void;
+  onReanalyze: (options: AnalysisOptions) => void;
+}
+
+// Versions saved before embeddings were configurable have no embedding options and used PCA
+function embeddingMethodOf(options?: AnalysisOptions): EmbeddingMethod {
+  return options?.embedding?.method ?? "pca";
+}
+
+function describeOptions(options?: AnalysisOptions): string {
+  if (!options) return "default settings";
+  const embedding = options.embedding
+    ? `${EMBEDDING_LABELS[options.embedding.method]}${options.embedding.method === "pca" ? "" : ` seed ${options.embedding.seed}`}`
+    : EMBEDDING_LABELS.pca;
+  // Older versions have no channel option and were downmixed
+  const channel = typeof options.channel === "number"
+    ? ` · channel ${options.channel + 1}`
+    : options.channel === "split" ? " · per channel" : "";
+  // Older versions have no network option and linked the k nearest
+  const network = options.network?.mode === "radius"
+    ? `r=${options.network.radius}`
+    : `${options.network?.mode === "mutual" ? "mutual " : ""}k=${options.neighbors}`;
+  return `${embedding} · frame ${options.frameSize} · hop ${options.hopSize} · ${options.mfccCount} MFCCs · ${network}${channel}`;
+}
+
+export function AnalysisVersions({
+  recordingId,
+  analysisId,
+  currentOptions,
+  onSelect,
+  onReanalyze,
+}: AnalysisVersionsProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<AnalysisOptions>(currentOptions ?? defaultAnalysisOptions);
+
+  const { data: versions } = useQuery<AnalysisSummary[]>({
+    queryKey: ["/api/recordings", recordingId, "analyses"],
+  });
+
+  // Options of older versions lack the settings added since; the form needs them all
+  const openDialog = useCallback(() => {
+    setDraft({ ...defaultAnalysisOptions, ...currentOptions });
+    setDialogOpen(true);
+  }, [currentOptions]);
+
+  const handleSubmit = useCallback(() => {
+    setDialogOpen(false);
+    onReanalyze(draft);
+  }, [draft, onReanalyze]);
+
+  // Open the newest version with that embedding, or compute one from the current settings
+  const handleEmbeddingSwitch = useCallback(
+    (method: EmbeddingMethod) => {
+      const existing = versions?.find((version) => embeddingMethodOf(version.options) === method);
+      if (existing) {
+        onSelect(existing.id);
+        return;
+      }
+      const base = currentOptions ?? defaultAnalysisOptions;
+      onReanalyze({ ...base, embedding: { ...(base.embedding ?? defaultAnalysisOptions.embedding), method } });
+    },
+    [versions, currentOptions, onSelect, onReanalyze]
+  );
+
+  const currentMethod = embeddingMethodOf(currentOptions);
+
+  // Newest first from the API; number versions in creation order
+  const total = versions?.length ?? 0;
+  const isDraftValid = Object.keys(validateAnalysisOptions(draft)).length === 0;
+
+  return (
+    <div className="fixed top-4 left-4 z-10" data-testid="panel-analysis-versions">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 gap-2 backdrop-blur-xl bg-white/5 border border-white/10 text-xs"
+            data-testid="button-analysis-versions"
+          >
+            <Layers className="w-4 h-4" />
+            {total > 1 ? `${total} versions` : "Analysis"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-80 p-2 bg-black/90 border-white/10">
+          <div className="grid grid-cols-3 gap-1 mb-2" data-testid="group-embedding-switch">
+            {(Object.keys(EMBEDDING_LABELS) as EmbeddingMethod[]).map((method) => (
+              <Button
+                key={method}
+                variant={method === currentMethod ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => handleEmbeddingSwitch(method)}
+                data-testid={`button-embedding-${method}`}
+              >
+                {EMBEDDING_LABELS[method]}
+              </Button>
+            ))}
+          </div>
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {versions?.map((version, i) => (
+              <button
+                key={version.id}
+                className={`w-full text-left rounded-md px-2 py-1.5 hover:bg-white/5 ${version.id === analysisId ? "bg-white/10" : ""}`}
+                onClick={() => onSelect(version.id)}
+                data-testid={`button-version-${version.id}`}
+              >
+                <p className="text-sm text-foreground">
+                  v{total - i}
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {new Date(version.createdAt).toLocaleString()}
+                  </span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {describeOptions(version.options)} · {version.pointCount} points
+                </p>
+              </button>
+            ))}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full mt-2 border-white/10 text-xs"
+            onClick={openDialog}
+            data-testid="button-reanalyze"
+          >
+            <RefreshCw className="w-3 h-3 mr-2" />
+            Re-analyze with new settings
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg bg-black/90 border-white/10">
+          <DialogHeader>
+            <DialogTitle>Re-analyze recording</DialogTitle>
+            <DialogDescription>
+              Runs the analysis again on the uploaded file and keeps it as a new version.
+            </DialogDescription>
+          </DialogHeader>
+          <AnalysisOptionsForm value={draft} onChange={setDraft} />
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={!isDraftValid} data-testid="button-submit-reanalyze">
+              Analyze
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { useMemo } from "react";
+import { channelColor, channelLabel, countChannelPoints } from "@/lib/channel-colors";
+import type { VisualizationData } from "@shared/schema";
+
+interface ChannelLegendProps {
+  data: VisualizationData;
+}
+
+export function ChannelLegend({ data }: ChannelLegendProps) {
+  const counts = useMemo(() => countChannelPoints(data), [data]);
+
+  return (
+    <div
+      className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-4 bg-black/70 px-6 py-2 rounded-lg border border-gray-700"
+      data-testid="legend-channels"
+    >
+      <div className="text-xs font-medium text-gray-300 uppercase tracking-wide">Channels:</div>
+      <div className="flex flex-wrap gap-3 items-center max-w-xl">
+        {counts.map((count, channel) => (
+          <div key={channel} className="flex items-center gap-1.5" title={`${count} points`}>
+            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: channelColor(channel) }}></div>
+            <span className="text-xs text-gray-300">{channelLabel(channel, counts.length)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,19 @@
 import { useRef, useEffect, useCallback, useState } from "react";
-import { Play, Pause, Volume2, VolumeX } from "lucide-react";
+import { Play, Pause, Volume2, VolumeX, Repeat1, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import type { VisualizationData, VisualizationSettings, VisualStyle } from "@shared/schema";
+import { WaveformOverview } from "@/components/waveform-overview";
+import { PlaybackRateControl } from "@/components/playback-rate-control";
+import { syllableTypeColor, syllableTypeLabel } from "@/lib/syllable-colors";
+import type { TimeRange } from "@/lib/point-selection";
+import type {
+  ColorMode,
+  VisualizationData,
+  VisualizationSettings,
+  VisualStyle,
+  WaveformPeaks,
+} from "@shared/schema";
 
 interface ControlPanelProps {
   data: VisualizationData;
@@ -14,6 +24,28 @@ interface ControlPanelProps {
   onSeek: (time: number) => void;
   onPlayPause: () => void;
   onSettingsChange: (settings: Partial<VisualizationSettings>) => void;
+  // Drawn behind the seek slider once loaded
+  waveform?: WaveformPeaks;
+  // When set, playback skips the gaps between these ranges and stops after the last
+  playRanges?: TimeRange[] | null;
+  onPlayRangesEnd?: () => void;
+  // A/B loop: once playback is inside the region, reaching its end jumps back to its start
+  loopRegion?: TimeRange | null;
+  onLoopRegionChange?: (region: TimeRange | null) => void;
+}
+
+// The verse under the playhead, or the nearest one when it sits in a gap
+function verseAt(data: VisualizationData, time: number) {
+  let nearest = data.verses[0];
+  let nearestDistance = Infinity;
+  for (const verse of data.verses) {
+    const distance = time < verse.start ? verse.start - time : time > verse.end ? time - verse.end : 0;
+    if (distance < nearestDistance) {
+      nearest = verse;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
 }
 
 function formatTime(seconds: number): string {
@@ -31,8 +63,20 @@ export function ControlPanel({
   onSeek,
   onPlayPause,
   onSettingsChange,
+  waveform,
+  playRanges = null,
+  onPlayRangesEnd,
+  loopRegion = null,
+  onLoopRegionChange,
 }: ControlPanelProps) {
   const audioRef = useRef<HTMLAudioElement>(null);
+  // Read from the polling loop without restarting it on every selection change
+  const playRangesRef = useRef(playRanges);
+  playRangesRef.current = playRanges;
+  const onPlayRangesEndRef = useRef(onPlayRangesEnd);
+  onPlayRangesEndRef.current = onPlayRangesEnd;
+  const loopRegionRef = useRef(loopRegion);
+  loopRegionRef.current = loopRegion;
   const [isMuted, setIsMuted] = useState(false);
   const [volume, setVolume] = useState(0.7);
   const [showVolume, setShowVolume] = useState(false);
@@ -48,14 +92,53 @@ export function ControlPanel({
     }
   }, [isPlaying]);
 
+  // The visualization follows audio.currentTime, so it stays in step at any rate.
+  // Loading a new src resets playbackRate to defaultPlaybackRate, so set both.
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.defaultPlaybackRate = settings.playbackRate;
+    audio.playbackRate = settings.playbackRate;
+    audio.preservesPitch = settings.preservePitch;
+  }, [settings.playbackRate, settings.preservePitch, data.audioUrl]);
+
+  // Follow seeks that originate outside the slider (keyboard, permalinks)
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (Math.abs(audio.currentTime - currentTime) > 0.25) {
+      audio.currentTime = currentTime;
+    }
+  }, [currentTime]);
+
   useEffect(() => {
     const audio = audioRef.current;
     if (!audio) return;
 
     let animationId: number;
+    let previousTime = audio.currentTime;
     
     const pollTime = () => {
       if (audio && !audio.paused) {
+        const ranges = playRangesRef.current;
+        const next = ranges?.find(([, end]) => end > audio.currentTime);
+        const loop = loopRegionRef.current;
+        if (ranges && !next) {
+          audio.pause();
+          onPlayRangesEndRef.current?.();
+        } else if (next && audio.currentTime < next[0]) {
+          audio.currentTime = next[0];
+        } else if (
+          !ranges &&
+          loop &&
+          previousTime >= loop[0] &&
+          previousTime < loop[1] &&
+          audio.currentTime >= loop[1]
+        ) {
+          audio.currentTime = loop[0];
+        }
+        previousTime = audio.currentTime;
         onTimeUpdate(audio.currentTime);
       }
       animationId = requestAnimationFrame(pollTime);
@@ -64,7 +147,13 @@ export function ControlPanel({
     animationId = requestAnimationFrame(pollTime);
 
     const handleEnded = () => {
-      if (settings.loopPlayback) {
+      const loop = loopRegionRef.current;
+      if (playRangesRef.current) {
+        onPlayRangesEndRef.current?.();
+      } else if (loop && previousTime >= loop[0]) {
+        audio.currentTime = loop[0];
+        audio.play().catch(() => {});
+      } else if (settings.loopPlayback) {
         audio.currentTime = 0;
         audio.play().catch(() => {});
       } else {
@@ -80,6 +169,28 @@ export function ControlPanel({
     };
   }, [onTimeUpdate, onPlayPause, settings.loopPlayback]);
 
+  // Setting one end keeps the other when it still makes a valid region
+  const handleLoopIn = useCallback(() => {
+    const end = loopRegion && loopRegion[1] > currentTime ? loopRegion[1] : data.duration;
+    onLoopRegionChange?.([currentTime, end]);
+  }, [loopRegion, currentTime, data.duration, onLoopRegionChange]);
+
+  const handleLoopOut = useCallback(() => {
+    const start = loopRegion && loopRegion[0] < currentTime ? loopRegion[0] : 0;
+    onLoopRegionChange?.([start, currentTime]);
+  }, [loopRegion, currentTime, onLoopRegionChange]);
+
+  const handleLoopVerse = useCallback(() => {
+    const verse = verseAt(data, currentTime);
+    if (!verse) return;
+    const isCurrent = loopRegion?.[0] === verse.start && loopRegion?.[1] === verse.end;
+    onLoopRegionChange?.(isCurrent ? null : [verse.start, verse.end]);
+    // The loop only engages from inside, so a playhead in a gap jumps to the verse
+    if (!isCurrent && (currentTime < verse.start || currentTime >= verse.end)) {
+      onSeek(verse.start);
+    }
+  }, [data, currentTime, loopRegion, onLoopRegionChange, onSeek]);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.code === "Space" && e.target === document.body) {
@@ -94,11 +205,15 @@ export function ControlPanel({
         e.preventDefault();
         onSeek(Math.min(data.duration, currentTime + 5));
       }
+      if (e.target !== document.body || !onLoopRegionChange) return;
+      if (e.code === "BracketLeft") handleLoopIn();
+      if (e.code === "BracketRight") handleLoopOut();
+      if (e.code === "Backslash") onLoopRegionChange(null);
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [onPlayPause, onSeek, currentTime, data.duration]);
+  }, [onPlayPause, onSeek, currentTime, data.duration, onLoopRegionChange, handleLoopIn, handleLoopOut]);
 
   const handleSeek = useCallback((value: number[]) => {
     const time = value[0];
@@ -125,6 +240,10 @@ export function ControlPanel({
   }, [isMuted]);
 
   const progress = (currentTime / data.duration) * 100;
+  // Analyses stored before syllable detection have nothing to colour by
+  const hasSyllables = data.verses.some((verse) => (verse.syllables?.length ?? 0) > 0);
+  // Only analyses with channels split into separate clouds can be coloured by channel
+  const hasChannels = data.verses.some((verse) => verse.points.some((point) => point.channel !== undefined));
 
   return (
     <div 
@@ -186,6 +305,59 @@ export function ControlPanel({
           <span className="font-mono text-xs text-muted-foreground w-24" data-testid="text-time">
             {formatTime(currentTime)} / {formatTime(data.duration)}
           </span>
+
+          <PlaybackRateControl
+            rate={settings.playbackRate}
+            preservePitch={settings.preservePitch}
+            onChange={onSettingsChange}
+          />
+
+          {onLoopRegionChange && (
+            <div className="flex items-center">
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 w-7 px-0 font-mono text-xs"
+                onClick={handleLoopIn}
+                title="Loop in ([)"
+                data-testid="button-loop-in"
+              >
+                A
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 w-7 px-0 font-mono text-xs"
+                onClick={handleLoopOut}
+                title="Loop out (])"
+                data-testid="button-loop-out"
+              >
+                B
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8"
+                onClick={handleLoopVerse}
+                title="Loop current verse"
+                data-testid="button-loop-verse"
+              >
+                <Repeat1 className="w-4 h-4" />
+              </Button>
+              {loopRegion && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 text-amber-300"
+                  onClick={() => onLoopRegionChange(null)}
+                  title={`Clear loop ${loopRegion[0].toFixed(2)}s – ${loopRegion[1].toFixed(2)}s (\\)`}
+                  data-testid="button-loop-clear"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          )}
         </div>
 
         <div className="flex-1 relative">
@@ -205,23 +377,51 @@ export function ControlPanel({
                 </div>
               );
             })}
+            {settings.colorMode === "syllable" && data.verses.flatMap((verse) =>
+              (verse.syllables ?? []).map((syllable, i) => (
+                <div
+                  key={`${verse.id}-${i}`}
+                  className="absolute bottom-0 h-1.5 rounded-sm"
+                  style={{
+                    left: `${(syllable.start / data.duration) * 100}%`,
+                    width: `${Math.max(((syllable.end - syllable.start) / data.duration) * 100, 0.1)}%`,
+                    backgroundColor: syllableTypeColor(syllable.type),
+                  }}
+                  title={`${verse.name} · type ${syllableTypeLabel(syllable.type)}`}
+                  data-testid={`marker-syllable-${verse.id}-${i}`}
+                />
+              ))
+            )}
           </div>
 
-          <div className="relative">
-            <div className="absolute inset-0 h-1 rounded-full bg-white/10" />
-            <div 
-              className="absolute h-1 rounded-full bg-gradient-to-r from-visualization-cyan via-visualization-purple to-visualization-magenta"
-              style={{ width: `${progress}%` }}
-            />
-            <Slider
-              className="absolute inset-0"
-              value={[currentTime]}
-              min={0}
-              max={data.duration}
-              step={0.01}
-              onValueChange={handleSeek}
-              data-testid="slider-timeline"
-            />
+          <div className="relative h-10">
+            {waveform && <WaveformOverview data={data} waveform={waveform} currentTime={currentTime} />}
+            {loopRegion && (
+              <div
+                className="absolute inset-y-0 bg-amber-400/15 border-x border-amber-300/80 pointer-events-none"
+                style={{
+                  left: `${(loopRegion[0] / data.duration) * 100}%`,
+                  width: `${((loopRegion[1] - loopRegion[0]) / data.duration) * 100}%`,
+                }}
+                data-testid="marker-loop-region"
+              />
+            )}
+            <div className="absolute inset-x-0 top-1/2">
+              <div className="absolute inset-0 h-1 rounded-full bg-white/10" />
+              <div 
+                className="absolute h-1 rounded-full bg-gradient-to-r from-visualization-cyan via-visualization-purple to-visualization-magenta"
+                style={{ width: `${progress}%` }}
+              />
+              <Slider
+                className="absolute inset-0"
+                value={[currentTime]}
+                min={0}
+                max={data.duration}
+                step={0.01}
+                onValueChange={handleSeek}
+                data-testid="slider-timeline"
+              />
+            </div>
           </div>
         </div>
 
@@ -239,6 +439,21 @@ export function ControlPanel({
               <SelectItem value="ribbons">Ribbons</SelectItem>
             </SelectContent>
           </Select>
+
+          <Select
+            value={settings.colorMode}
+            onValueChange={(value: ColorMode) => onSettingsChange({ colorMode: value })}
+            disabled={!hasSyllables && !hasChannels}
+          >
+            <SelectTrigger className="w-36 bg-white/5 border-white/10" data-testid="select-color-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="frequency">Frequency</SelectItem>
+              {hasSyllables && <SelectItem value="syllable">Syllable type</SelectItem>}
+              {hasChannels && <SelectItem value="channel">Channel</SelectItem>}
+            </SelectContent>
+          </Select>
         </div>
       </div>
     </div>
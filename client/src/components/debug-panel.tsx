@@ -121,6 +121,14 @@ export function DebugPanel({ data, currentTime }: DebugPanelProps) {
                 <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Size (Energy)</span>
                 <span className="font-mono text-sm text-foreground">{currentPoint.size.toFixed(3)}</span>
               </div>
+              <div className="flex flex-col">
+                <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Pitch (f0)</span>
+                <span className="font-mono text-sm text-foreground">{currentPoint.pitch ? `${currentPoint.pitch.toFixed(0)} Hz` : "-"}</span>
+              </div>
+              <div className="flex flex-col">
+                <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Pitch Conf.</span>
+                <span className="font-mono text-sm text-foreground">{currentPoint.pitchConfidence?.toFixed(2) ?? "0.00"}</span>
+              </div>
               <div className="flex flex-col">
                 <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Beat Strength</span>
                 <span className="font-mono text-sm text-foreground">{currentPoint.beatStrength?.toFixed(3) ?? "0.000"}</span>
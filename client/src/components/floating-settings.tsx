@@ -1,13 +1,17 @@
-import { Repeat, Move3D, Bug, Maximize, Upload, Wand2 } from "lucide-react";
+import { Repeat, Move3D, Bug, Maximize, Upload, Wand2, Link2, BoxSelect, LassoSelect, AudioLines } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import type { VisualizationSettings } from "@shared/schema";
+import type { SelectionTool } from "@/lib/point-selection";
 
 interface FloatingSettingsProps {
   settings: VisualizationSettings;
   onSettingsChange: (settings: Partial<VisualizationSettings>) => void;
   onToggleFullscreen: () => void;
   onReset: () => void;
+  onCopyLink?: () => void;
+  selectionTool?: SelectionTool | null;
+  onSelectionToolChange?: (tool: SelectionTool | null) => void;
 }
 
 export function FloatingSettings({
@@ -15,6 +19,9 @@ export function FloatingSettings({
   onSettingsChange,
   onToggleFullscreen,
   onReset,
+  onCopyLink,
+  selectionTool = null,
+  onSelectionToolChange,
 }: FloatingSettingsProps) {
   return (
     <div 
@@ -76,6 +83,24 @@ export function FloatingSettings({
           </TooltipContent>
         </Tooltip>
 
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              size="icon"
+              variant="ghost"
+              className={`w-8 h-8 ${settings.showSpectrogram ? "text-primary" : "text-muted-foreground"}`}
+              onClick={() => onSettingsChange({ showSpectrogram: !settings.showSpectrogram })}
+              aria-label="Toggle spectrogram timeline"
+              data-testid="button-spectrogram"
+            >
+              <AudioLines className="w-4 h-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            <p>Spectrogram {settings.showSpectrogram ? "(on)" : "(off)"}</p>
+          </TooltipContent>
+        </Tooltip>
+
         <Tooltip>
           <TooltipTrigger asChild>
             <Button
@@ -113,6 +138,66 @@ export function FloatingSettings({
         </Tooltip>
       </div>
 
+      {onSelectionToolChange && (
+        <div className="flex items-center gap-1 p-1 backdrop-blur-xl bg-white/5 rounded-lg border border-white/10">
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                size="icon"
+                variant="ghost"
+                className={`w-8 h-8 ${selectionTool === "box" ? "text-primary" : "text-muted-foreground"}`}
+                onClick={() => onSelectionToolChange(selectionTool === "box" ? null : "box")}
+                aria-label="Box select"
+                data-testid="button-select-box"
+              >
+                <BoxSelect className="w-4 h-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+              <p>Box select (B, shift to add)</p>
+            </TooltipContent>
+          </Tooltip>
+
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                size="icon"
+                variant="ghost"
+                className={`w-8 h-8 ${selectionTool === "lasso" ? "text-primary" : "text-muted-foreground"}`}
+                onClick={() => onSelectionToolChange(selectionTool === "lasso" ? null : "lasso")}
+                aria-label="Lasso select"
+                data-testid="button-select-lasso"
+              >
+                <LassoSelect className="w-4 h-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+              <p>Lasso select (L, shift to add)</p>
+            </TooltipContent>
+          </Tooltip>
+        </div>
+      )}
+
+      {onCopyLink && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="w-8 h-8 backdrop-blur-xl bg-white/5 border border-white/10"
+              onClick={onCopyLink}
+              aria-label="Copy link to this moment"
+              data-testid="button-copy-link"
+            >
+              <Link2 className="w-4 h-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            <p>Copy link to this moment</p>
+          </TooltipContent>
+        </Tooltip>
+      )}
+
       <Tooltip>
         <TooltipTrigger asChild>
           <Button
@@ -0,0 +1,149 @@
+import { Mic, Square, Loader2, Eraser, ArrowLeft, RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { LiveStats, LiveStatus } from "@/hooks/use-live-analysis";
+import type { LiveBasisMode } from "@/lib/live-point-buffer";
+
+interface LiveControlPanelProps {
+  status: LiveStatus;
+  stats: LiveStats;
+  capacity: number;
+  devices: MediaDeviceInfo[];
+  deviceId: string;
+  basisMode: LiveBasisMode;
+  autoRotate: boolean;
+  onStart: () => void;
+  onStop: () => void;
+  onClear: () => void;
+  onDeviceChange: (deviceId: string) => void;
+  onBasisModeChange: (mode: LiveBasisMode) => void;
+  onAutoRotateChange: (autoRotate: boolean) => void;
+  onExit: () => void;
+}
+
+// Radix Select can't hold an empty value, so the browser default gets its own key
+export const DEFAULT_DEVICE = "default";
+
+function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+export function LiveControlPanel({
+  status,
+  stats,
+  capacity,
+  devices,
+  deviceId,
+  basisMode,
+  autoRotate,
+  onStart,
+  onStop,
+  onClear,
+  onDeviceChange,
+  onBasisModeChange,
+  onAutoRotateChange,
+  onExit,
+}: LiveControlPanelProps) {
+  const isLive = status === "live";
+
+  return (
+    <div
+      className="fixed bottom-0 left-0 right-0 z-20 h-20 backdrop-blur-2xl bg-black/40 border-t border-white/5"
+      data-testid="panel-live-controls"
+    >
+      <div className="h-full max-w-screen-xl mx-auto px-6 flex items-center gap-6">
+        <div className="flex items-center gap-3">
+          <Button size="icon" variant="ghost" onClick={onExit} title="Back to uploads" data-testid="button-live-exit">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="outline"
+            className={`w-12 h-12 rounded-full border-white/20 ${isLive ? "text-red-400 border-red-400/60" : ""}`}
+            onClick={isLive ? onStop : onStart}
+            disabled={status === "starting"}
+            aria-label={isLive ? "Stop live input" : "Start live input"}
+            data-testid="button-live-toggle"
+          >
+            {status === "starting" ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : isLive ? (
+              <Square className="w-5 h-5" />
+            ) : (
+              <Mic className="w-5 h-5" />
+            )}
+          </Button>
+          <span className="font-mono text-xs text-muted-foreground w-12" data-testid="text-live-elapsed">
+            {formatTime(stats.elapsed)}
+          </span>
+        </div>
+
+        <div className="flex-1 space-y-1.5">
+          <div className="h-2 rounded-full bg-white/10 overflow-hidden" data-testid="meter-live-level">
+            <div
+              className={`h-full rounded-full ${stats.level > 0.95 ? "bg-red-500" : "bg-gradient-to-r from-visualization-cyan to-visualization-purple"}`}
+              style={{ width: `${stats.level * 100}%` }}
+            />
+          </div>
+          <div className="flex justify-between text-xs text-muted-foreground font-mono">
+            <span data-testid="text-live-points">
+              {stats.points} / {capacity} points
+            </span>
+            <span>
+              {stats.calibrating ? "Calibrating basis…" : stats.sampleRate > 0 ? `${stats.sampleRate / 1000} kHz` : ""}
+            </span>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Select value={deviceId} onValueChange={onDeviceChange}>
+            <SelectTrigger className="w-44 bg-white/5 border-white/10" data-testid="select-live-input">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_DEVICE}>Default input</SelectItem>
+              {devices
+                .filter((device) => device.deviceId && device.deviceId !== DEFAULT_DEVICE)
+                .map((device, i) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {device.label || `Input ${i + 1}`}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={basisMode}
+            onValueChange={(value) => value && onBasisModeChange(value as LiveBasisMode)}
+          >
+            <ToggleGroupItem value="adaptive" className="text-xs" title="Keep refining the PCA basis" data-testid="toggle-basis-adaptive">
+              Adaptive
+            </ToggleGroupItem>
+            <ToggleGroupItem value="fixed" className="text-xs" title="Freeze the PCA basis after calibration" data-testid="toggle-basis-fixed">
+              Fixed
+            </ToggleGroupItem>
+          </ToggleGroup>
+
+          <Button
+            size="icon"
+            variant="ghost"
+            className={autoRotate ? "text-primary" : "text-muted-foreground"}
+            onClick={() => onAutoRotateChange(!autoRotate)}
+            title="Auto-rotate"
+            data-testid="button-live-rotate"
+          >
+            <RotateCw className="w-4 h-4" />
+          </Button>
+          <Button size="icon" variant="ghost" onClick={onClear} title="Clear points and basis" data-testid="button-live-clear">
+            <Eraser className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,14 @@
 import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
 
 interface LoadingOverlayProps {
   message?: string;
+  progress?: number;
+  onCancel?: () => void;
 }
 
-export function LoadingOverlay({ message = "Analyzing audio..." }: LoadingOverlayProps) {
+export function LoadingOverlay({ message = "Analyzing audio...", progress, onCancel }: LoadingOverlayProps) {
   const [dots, setDots] = useState(0);
 
   useEffect(() => {
@@ -46,9 +50,30 @@ export function LoadingOverlay({ message = "Analyzing audio..." }: LoadingOverla
         </span>
       </p>
 
-      <p className="text-muted-foreground text-sm mt-2">
-        This may take a few seconds
-      </p>
+      {progress !== undefined ? (
+        <div className="w-64 mt-4 flex flex-col items-center gap-2">
+          <Progress value={progress * 100} className="h-1.5 bg-white/10" data-testid="progress-analysis" />
+          <span className="font-mono text-xs text-muted-foreground" data-testid="text-progress">
+            {Math.round(progress * 100)}%
+          </span>
+        </div>
+      ) : (
+        <p className="text-muted-foreground text-sm mt-2">
+          This may take a few seconds
+        </p>
+      )}
+
+      {onCancel && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="mt-6 border-white/20"
+          onClick={onCancel}
+          data-testid="button-cancel-analysis"
+        >
+          Cancel
+        </Button>
+      )}
 
       <style>{`
         @keyframes pulse {
@@ -1,4 +1,5 @@
 import type { VisualizationPoint } from "../../../shared/schema";
+import { syllableTypeLabel } from "@/lib/syllable-colors";
 
 interface MFCCPanelProps {
   selectedPoint: VisualizationPoint | null;
@@ -9,7 +10,7 @@ export function MFCCPanel({ selectedPoint }: MFCCPanelProps) {
     return (
       <div className="absolute right-4 top-20 bg-black/80 p-4 rounded-lg border border-gray-700">
         <h3 className="text-white mb-2 text-sm font-medium">MFCC Coefficients</h3>
-        <p className="text-gray-400 text-xs">Select a point to view MFCC values</p>
+        <p className="text-gray-400 text-xs">Hover or click a point to view MFCC values</p>
       </div>
     );
   }
@@ -22,6 +23,20 @@ export function MFCCPanel({ selectedPoint }: MFCCPanelProps) {
         {selectedPoint.frequency && (
           <span className="ml-3">Freq: {(selectedPoint.frequency / 1000).toFixed(2)} kHz</span>
         )}
+        {selectedPoint.pitch !== undefined && selectedPoint.pitch > 0 && (
+          <span className="ml-3">
+            Pitch: {(selectedPoint.pitch / 1000).toFixed(2)} kHz ({Math.round((selectedPoint.pitchConfidence ?? 0) * 100)}%)
+          </span>
+        )}
+        {selectedPoint.syllableType !== undefined && (
+          <span className="ml-3">Syllable: {syllableTypeLabel(selectedPoint.syllableType)}</span>
+        )}
+        {selectedPoint.channel !== undefined && (
+          <span className="ml-3">
+            Channel {selectedPoint.channel + 1}: {(selectedPoint.levelDifference ?? 0).toFixed(1)} dB,{" "}
+            {((selectedPoint.timeDifference ?? 0) * 1000).toFixed(2)} ms
+          </span>
+        )}
       </div>
       <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
         {selectedPoint.mfccs.map((value, i) => (
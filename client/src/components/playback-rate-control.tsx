@@ -0,0 +1,85 @@
+import { Gauge } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+interface PlaybackRateControlProps {
+  rate: number;
+  preservePitch: boolean;
+  onChange: (change: { playbackRate?: number; preservePitch?: boolean }) => void;
+}
+
+const MIN_PLAYBACK_RATE = 0.1;
+const MAX_PLAYBACK_RATE = 2;
+const RATE_PRESETS = [0.1, 0.25, 0.5, 1, 1.5, 2];
+
+function formatRate(rate: number): string {
+  return `${Number(rate.toFixed(2))}×`;
+}
+
+export function PlaybackRateControl({ rate, preservePitch, onChange }: PlaybackRateControlProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`font-mono text-xs gap-1 ${rate !== 1 ? "text-primary" : "text-muted-foreground"}`}
+          aria-label="Playback speed"
+          data-testid="button-playback-rate"
+        >
+          <Gauge className="w-4 h-4" />
+          {formatRate(rate)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="top" className="w-64 space-y-3 bg-black/80 backdrop-blur-xl border-white/10">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">Speed</span>
+          <span className="font-mono text-xs" data-testid="text-playback-rate">{formatRate(rate)}</span>
+        </div>
+        <Slider
+          value={[rate]}
+          min={MIN_PLAYBACK_RATE}
+          max={MAX_PLAYBACK_RATE}
+          step={0.05}
+          onValueChange={([value]) => onChange({ playbackRate: value })}
+          data-testid="slider-playback-rate"
+        />
+        <div className="flex flex-wrap gap-1">
+          {RATE_PRESETS.map((preset) => (
+            <Button
+              key={preset}
+              variant={preset === rate ? "secondary" : "ghost"}
+              size="sm"
+              className="h-6 px-2 font-mono text-xs"
+              onClick={() => onChange({ playbackRate: preset })}
+              data-testid={`button-rate-${preset}`}
+            >
+              {formatRate(preset)}
+            </Button>
+          ))}
+        </div>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          className="justify-start"
+          value={preservePitch ? "preserve" : "expand"}
+          onValueChange={(value) => value && onChange({ preservePitch: value === "preserve" })}
+        >
+          <ToggleGroupItem value="preserve" className="text-xs" data-testid="toggle-preserve-pitch">
+            Keep pitch
+          </ToggleGroupItem>
+          <ToggleGroupItem value="expand" className="text-xs" data-testid="toggle-time-expansion">
+            Time expansion
+          </ToggleGroupItem>
+        </ToggleGroup>
+        <p className="text-[11px] leading-snug text-muted-foreground">
+          {preservePitch
+            ? "Tempo changes, pitch stays put."
+            : "Like a bat detector: pitch drops with speed, so 0.25× plays an 8 kHz trill at 2 kHz."}
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+}
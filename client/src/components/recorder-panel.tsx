@@ -0,0 +1,209 @@
+import { useState, useRef, useEffect, useCallback } from "react";
+import { Mic, Square, Play, Trash2, Sparkles, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { useRecorder } from "@/hooks/use-recorder";
+import { encodeWav } from "@/lib/wav-encoder";
+
+interface RecorderPanelProps {
+  maxDuration: number;
+  onSubmit: (file: File) => void;
+}
+
+// Takes shorter than this after trimming have too few frames to analyze
+const MIN_TAKE_DURATION = 0.25;
+
+function formatClock(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1).padStart(4, "0");
+  return `${mins}:${secs}`;
+}
+
+function TakeWaveform({ audio, trim }: { audio: AudioBuffer; trim: [number, number] }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(canvas.clientWidth * dpr);
+    canvas.height = Math.round(canvas.clientHeight * dpr);
+    const { width, height } = canvas;
+    const samples = audio.getChannelData(0);
+    const samplesPerPixel = samples.length / width;
+    const mid = height / 2;
+
+    ctx.clearRect(0, 0, width, height);
+    for (let x = 0; x < width; x++) {
+      let lo = 0;
+      let hi = 0;
+      const end = Math.min(samples.length, Math.floor((x + 1) * samplesPerPixel));
+      for (let i = Math.floor(x * samplesPerPixel); i < end; i++) {
+        if (samples[i] < lo) lo = samples[i];
+        if (samples[i] > hi) hi = samples[i];
+      }
+      const t = (x / width) * audio.duration;
+      ctx.fillStyle = t >= trim[0] && t <= trim[1] ? "#00D9FF" : "rgba(255, 255, 255, 0.2)";
+      ctx.fillRect(x, mid - hi * mid, 1, Math.max(1, (hi - lo) * mid));
+    }
+  }, [audio, trim]);
+
+  return <canvas ref={canvasRef} className="w-full h-24 rounded-md bg-black/40" data-testid="canvas-take-waveform" />;
+}
+
+export function RecorderPanel({ maxDuration, onSubmit }: RecorderPanelProps) {
+  const { status, level, elapsed, take, error, start, stop, discard } = useRecorder({ maxDuration });
+  const [trim, setTrim] = useState<[number, number]>([0, 0]);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const previewContextRef = useRef<AudioContext | null>(null);
+  const previewSourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  useEffect(() => {
+    if (take) setTrim([0, take.audio.duration]);
+  }, [take]);
+
+  const stopPreview = useCallback(() => {
+    previewSourceRef.current?.stop();
+    previewSourceRef.current = null;
+    setIsPreviewing(false);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      previewSourceRef.current?.stop();
+      previewContextRef.current?.close();
+    };
+  }, []);
+
+  const handlePreview = useCallback(() => {
+    if (!take) return;
+    if (isPreviewing) {
+      stopPreview();
+      return;
+    }
+    const context = previewContextRef.current ?? new AudioContext();
+    previewContextRef.current = context;
+    const source = context.createBufferSource();
+    source.buffer = take.audio;
+    source.connect(context.destination);
+    source.onended = () => {
+      if (previewSourceRef.current === source) stopPreview();
+    };
+    source.start(0, trim[0], trim[1] - trim[0]);
+    previewSourceRef.current = source;
+    setIsPreviewing(true);
+  }, [take, trim, isPreviewing, stopPreview]);
+
+  const handleDiscard = useCallback(() => {
+    stopPreview();
+    discard();
+  }, [stopPreview, discard]);
+
+  // An untrimmed take goes up in the recorder's own container; a trimmed one
+  // is cut from the decoded audio and sent as WAV
+  const handleSubmit = useCallback(() => {
+    if (!take) return;
+    stopPreview();
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const untrimmed = trim[0] <= 0 && trim[1] >= take.audio.duration;
+    const file = untrimmed
+      ? new File([take.blob], `recording-${stamp}.${take.extension}`, { type: take.blob.type })
+      : new File([encodeWav(take.audio, trim[0], trim[1])], `recording-${stamp}.wav`, { type: "audio/wav" });
+    onSubmit(file);
+  }, [take, trim, stopPreview, onSubmit]);
+
+  const trimmedDuration = trim[1] - trim[0];
+
+  return (
+    <div className="min-h-64 rounded-xl border border-white/10 p-6 flex flex-col justify-center gap-4" data-testid="panel-recorder">
+      {status !== "recorded" && (
+        <div className="flex flex-col items-center gap-4">
+          <Button
+            size="icon"
+            variant="outline"
+            className={`w-16 h-16 rounded-full border-white/20 ${status === "recording" ? "text-red-400 border-red-400/60" : ""}`}
+            onClick={status === "recording" ? stop : start}
+            disabled={status === "requesting"}
+            aria-label={status === "recording" ? "Stop recording" : "Start recording"}
+            data-testid="button-record"
+          >
+            {status === "requesting" ? (
+              <Loader2 className="w-6 h-6 animate-spin" />
+            ) : status === "recording" ? (
+              <Square className="w-6 h-6" />
+            ) : (
+              <Mic className="w-6 h-6" />
+            )}
+          </Button>
+
+          <div className="w-full space-y-1">
+            <div className="h-2 rounded-full bg-white/10 overflow-hidden" data-testid="meter-input-level">
+              <div
+                className={`h-full rounded-full ${level > 0.95 ? "bg-red-500" : "bg-gradient-to-r from-visualization-cyan to-visualization-purple"}`}
+                style={{ width: `${Math.min(1, level) * 100}%` }}
+              />
+            </div>
+            <div className="flex justify-between text-xs text-muted-foreground font-mono">
+              <span data-testid="text-record-elapsed">{formatClock(elapsed)}</span>
+              <span>max {formatClock(maxDuration)}</span>
+            </div>
+          </div>
+
+          <p className="text-muted-foreground text-sm text-center">
+            {status === "recording"
+              ? level > 0.95
+                ? "Clipping: move back from the microphone"
+                : "Recording…"
+              : status === "requesting"
+                ? "Waiting for microphone permission"
+                : "Record straight from your microphone"}
+          </p>
+        </div>
+      )}
+
+      {status === "recorded" && take && (
+        <div className="space-y-3">
+          <TakeWaveform audio={take.audio} trim={trim} />
+          <Slider
+            value={trim}
+            min={0}
+            max={take.audio.duration}
+            step={0.01}
+            minStepsBetweenThumbs={Math.round(MIN_TAKE_DURATION / 0.01)}
+            onValueChange={(value) => setTrim([value[0], value[1]])}
+            data-testid="slider-trim"
+          />
+          <div className="flex justify-between text-xs text-muted-foreground font-mono">
+            <span>{formatClock(trim[0])}</span>
+            <span data-testid="text-trim-duration">{formatClock(trimmedDuration)} selected</span>
+            <span>{formatClock(trim[1])}</span>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="border-white/10" onClick={handlePreview} data-testid="button-preview-take">
+              {isPreviewing ? <Square className="w-3 h-3 mr-1" /> : <Play className="w-3 h-3 mr-1" />}
+              {isPreviewing ? "Stop" : "Preview"}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleDiscard} data-testid="button-discard-take">
+              <Trash2 className="w-3 h-3 mr-1" />
+              Discard
+            </Button>
+            <Button
+              size="sm"
+              className="ml-auto"
+              onClick={handleSubmit}
+              disabled={trimmedDuration < MIN_TAKE_DURATION}
+              data-testid="button-analyze-take"
+            >
+              <Sparkles className="w-3 h-3 mr-1" />
+              Analyze take
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive text-center" data-testid="text-record-error">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState, useCallback, type PointerEvent } from "react";
+import type { ScreenPolygon, SelectionTool } from "@/lib/point-selection";
+
+interface SelectionOverlayProps {
+  tool: SelectionTool;
+  // Polygon in CSS pixels relative to the overlay; additive when shift is held
+  onComplete: (polygon: ScreenPolygon, additive: boolean) => void;
+}
+
+// Ignore lasso samples closer than this (px) to keep the polygon small
+const MIN_LASSO_STEP = 3;
+
+function boxPolygon([x0, y0]: [number, number], [x1, y1]: [number, number]): ScreenPolygon {
+  return [[x0, y0], [x1, y0], [x1, y1], [x0, y1]];
+}
+
+// Captures a drag over the canvas while a selection tool is active, drawing the
+// box or lasso outline as it goes
+export function SelectionOverlay({ tool, onComplete }: SelectionOverlayProps) {
+  const [path, setPath] = useState<ScreenPolygon | null>(null);
+
+  const localPoint = (e: PointerEvent<HTMLDivElement>): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [e.clientX - rect.left, e.clientY - rect.top];
+  };
+
+  const handlePointerDown = useCallback((e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setPath([localPoint(e)]);
+  }, []);
+
+  const handlePointerMove = useCallback(
+    (e: PointerEvent<HTMLDivElement>) => {
+      if (!path) return;
+      const point = localPoint(e);
+      if (tool === "box") {
+        setPath([path[0], point]);
+        return;
+      }
+      const last = path[path.length - 1];
+      if (Math.hypot(point[0] - last[0], point[1] - last[1]) >= MIN_LASSO_STEP) {
+        setPath([...path, point]);
+      }
+    },
+    [path, tool]
+  );
+
+  const handlePointerUp = useCallback(
+    (e: PointerEvent<HTMLDivElement>) => {
+      if (!path) return;
+      const polygon = tool === "box" ? boxPolygon(path[0], path[path.length - 1]) : path;
+      setPath(null);
+      if (polygon.length >= 3) onComplete(polygon, e.shiftKey);
+    },
+    [path, tool, onComplete]
+  );
+
+  const outline = path && (tool === "box" && path.length > 1 ? boxPolygon(path[0], path[1]) : path);
+
+  return (
+    <div
+      className="absolute inset-0 z-[1] cursor-crosshair touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      data-testid={`overlay-selection-${tool}`}
+    >
+      {outline && (
+        <svg className="absolute inset-0 w-full h-full pointer-events-none">
+          <polygon
+            points={outline.map(([x, y]) => `${x},${y}`).join(" ")}
+            fill="rgba(136, 204, 255, 0.08)"
+            stroke="rgba(136, 204, 255, 0.8)"
+            strokeWidth={1}
+            strokeDasharray="4 3"
+          />
+        </svg>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useMemo } from "react";
+import { Play, Square, Download, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  computeSelectionStats,
+  downloadText,
+  selectionToCsv,
+  selectionToJson,
+} from "@/lib/point-selection";
+import type { VisualizationData } from "@shared/schema";
+
+interface SelectionPanelProps {
+  data: VisualizationData;
+  selection: number[];
+  isPlayingSelection: boolean;
+  onPlaySelection: () => void;
+  onStopSelection: () => void;
+  onClear: () => void;
+}
+
+// Coefficients shown in the mean/variance chart; the rest are in the export
+const MFCC_CHART_COEFFICIENTS = 13;
+
+function formatHz(hz: number): string {
+  return Number.isFinite(hz) ? `${hz / 1000}k` : "+";
+}
+
+export function SelectionPanel({
+  data,
+  selection,
+  isPlayingSelection,
+  onPlaySelection,
+  onStopSelection,
+  onClear,
+}: SelectionPanelProps) {
+  const stats = useMemo(() => computeSelectionStats(data, selection), [data, selection]);
+  if (!stats) return null;
+
+  const exportName = `selection-${data.analysisId ?? "analysis"}`;
+  const maxBin = Math.max(1, ...stats.frequencyHistogram.map((bin) => bin.count));
+  const shownMeans = stats.mfccMean.slice(0, MFCC_CHART_COEFFICIENTS);
+  const maxAbsMean = Math.max(1e-6, ...shownMeans.map((m, d) => Math.abs(m) + Math.sqrt(stats.mfccVariance[d])));
+
+  return (
+    <div
+      className="absolute left-4 top-20 w-72 bg-black/90 p-4 rounded-lg border border-gray-700 space-y-3 max-h-[70vh] overflow-y-auto"
+      data-testid="panel-selection"
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="text-white text-sm font-medium">{stats.count} points selected</h3>
+        <Button size="icon" variant="ghost" className="w-6 h-6" onClick={onClear} data-testid="button-clear-selection">
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+
+      <div className="text-xs text-gray-400 space-y-0.5">
+        <p>
+          Span: {stats.timeStart.toFixed(2)}s – {stats.timeEnd.toFixed(2)}s
+        </p>
+        <p>Covered audio: {stats.coveredDuration.toFixed(2)}s</p>
+      </div>
+
+      <div>
+        <p className="text-xs text-gray-300 mb-1">Phrases</p>
+        <div className="flex flex-wrap gap-1">
+          {stats.verses.map((verse) => (
+            <span key={verse.id} className="text-[10px] px-1.5 py-0.5 rounded bg-white/10 text-gray-300">
+              {verse.name} · {verse.count}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs text-gray-300 mb-1">Dominant frequency</p>
+        <div className="flex items-end gap-0.5 h-12" data-testid="chart-frequency-histogram">
+          {stats.frequencyHistogram.map((bin) => (
+            <div
+              key={bin.from}
+              className="flex-1 bg-orange-400/70 rounded-t-sm"
+              style={{ height: `${(bin.count / maxBin) * 100}%` }}
+              title={`${formatHz(bin.from)}–${formatHz(bin.to)} Hz: ${bin.count}`}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between text-[10px] text-gray-500 mt-0.5">
+          <span>0</span>
+          <span>5 kHz</span>
+          <span>10+ kHz</span>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs text-gray-300 mb-1">MFCC mean ± sd</p>
+        <div className="space-y-0.5" data-testid="chart-mfcc-stats">
+          {shownMeans.map((mean, d) => {
+            const sd = Math.sqrt(stats.mfccVariance[d]);
+            const center = 50 + (mean / maxAbsMean) * 50;
+            const spread = (sd / maxAbsMean) * 50;
+            return (
+              <div key={d} className="flex items-center gap-2">
+                <span className="text-[10px] text-gray-500 w-6 font-mono">c{d}</span>
+                <div className="relative flex-1 h-2 bg-white/5 rounded-sm" title={`${mean.toFixed(2)} ± ${sd.toFixed(2)}`}>
+                  <div className="absolute top-0 bottom-0 w-px bg-white/20 left-1/2" />
+                  <div
+                    className="absolute top-0.5 bottom-0.5 bg-cyan-400/30"
+                    style={{ left: `${center - spread}%`, width: `${spread * 2}%` }}
+                  />
+                  <div className="absolute top-0 bottom-0 w-0.5 bg-cyan-300" style={{ left: `${center}%` }} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1 border-white/10 text-xs"
+          onClick={isPlayingSelection ? onStopSelection : onPlaySelection}
+          data-testid="button-play-selection"
+        >
+          {isPlayingSelection ? <Square className="w-3 h-3 mr-1" /> : <Play className="w-3 h-3 mr-1" />}
+          {isPlayingSelection ? "Stop" : "Play selection"}
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="text-xs"
+          onClick={() => downloadText(`${exportName}.csv`, selectionToCsv(data, selection), "text/csv")}
+          data-testid="button-export-selection-csv"
+        >
+          <Download className="w-3 h-3 mr-1" />
+          CSV
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="text-xs"
+          onClick={() => downloadText(`${exportName}.json`, selectionToJson(data, selection), "application/json")}
+          data-testid="button-export-selection-json"
+        >
+          <Download className="w-3 h-3 mr-1" />
+          JSON
+        </Button>
+      </div>
+    </div>
+  );
+}
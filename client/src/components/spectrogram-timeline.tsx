@@ -0,0 +1,298 @@
+import { useState, useRef, useEffect, useMemo, useCallback, type PointerEvent, type WheelEvent } from "react";
+import { ZoomIn, ZoomOut, Maximize2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { renderSpectrogramImage, frequencyToHeight } from "@/lib/spectrogram-image";
+import { syllableTypeColor } from "@/lib/syllable-colors";
+import type { TimeRange } from "@/lib/point-selection";
+import type { Spectrogram, VisualizationData } from "@shared/schema";
+
+interface SpectrogramTimelineProps {
+  data: VisualizationData;
+  spectrogram: Spectrogram;
+  currentTime: number;
+  // Time ranges of the current point selection, shaded on the strip
+  selectionRanges: TimeRange[];
+  loopRegion?: TimeRange | null;
+  onSeek: (time: number) => void;
+  onBrush: (range: TimeRange) => void;
+}
+
+interface TimeWindow {
+  start: number;
+  span: number;
+}
+
+const DEFAULT_SPAN = 15;
+const MIN_SPAN = 0.25;
+const ZOOM_STEP = 1.25;
+// When the playhead leaves the window it re-enters this far from the left edge
+const FOLLOW_MARGIN = 0.1;
+const FREQUENCY_TICKS = [1000, 2000, 4000, 8000];
+const SYLLABLE_BAR_HEIGHT = 4;
+// Drags shorter than this (px) count as a click, not a brush
+const MIN_BRUSH_WIDTH = 3;
+
+function clampWindow(start: number, span: number, duration: number): TimeWindow {
+  const clampedSpan = Math.min(Math.max(span, MIN_SPAN), duration);
+  return {
+    start: Math.min(Math.max(0, start), duration - clampedSpan),
+    span: clampedSpan,
+  };
+}
+
+export function SpectrogramTimeline({
+  data,
+  spectrogram,
+  currentTime,
+  selectionRanges,
+  loopRegion = null,
+  onSeek,
+  onBrush,
+}: SpectrogramTimelineProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ mode: "seek" | "brush"; origin: number } | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<TimeWindow>(() => clampWindow(0, DEFAULT_SPAN, data.duration));
+  const [brush, setBrush] = useState<TimeRange | null>(null);
+
+  const image = useMemo(() => renderSpectrogramImage(spectrogram), [spectrogram]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Page the window along with playback and outside seeks
+  useEffect(() => {
+    setView((v) =>
+      currentTime < v.start || currentTime > v.start + v.span
+        ? clampWindow(currentTime - v.span * FOLLOW_MARGIN, v.span, data.duration)
+        : v
+    );
+  }, [currentTime, data.duration]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || size.width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const { width, height } = size;
+    if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const toX = (t: number) => ((t - view.start) / view.span) * width;
+
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(
+      image,
+      view.start / spectrogram.columnDuration,
+      0,
+      view.span / spectrogram.columnDuration,
+      spectrogram.rows,
+      0,
+      0,
+      width,
+      height
+    );
+
+    ctx.font = "10px ui-monospace, monospace";
+    ctx.textBaseline = "middle";
+    ctx.fillStyle = "rgba(255, 255, 255, 0.45)";
+    for (const hz of FREQUENCY_TICKS) {
+      const fraction = frequencyToHeight(spectrogram, hz);
+      if (fraction <= 0 || fraction >= 1) continue;
+      ctx.fillText(`${hz / 1000}k`, 4, height * (1 - fraction));
+    }
+
+    ctx.textBaseline = "top";
+    for (const verse of data.verses) {
+      const x0 = toX(verse.start);
+      const x1 = toX(verse.end);
+      if (x1 < 0 || x0 > width) continue;
+      ctx.fillStyle = "rgba(255, 255, 255, 0.04)";
+      ctx.fillRect(x0, 0, x1 - x0, height);
+      ctx.fillStyle = "rgba(255, 255, 255, 0.3)";
+      ctx.fillRect(x0, 0, 1, height);
+      ctx.fillStyle = "rgba(255, 255, 255, 0.7)";
+      ctx.fillText(verse.name, Math.max(x0, 0) + 4, 3);
+
+      for (const syllable of verse.syllables ?? []) {
+        ctx.fillStyle = syllableTypeColor(syllable.type);
+        const sx = toX(syllable.start);
+        ctx.fillRect(sx, height - SYLLABLE_BAR_HEIGHT, Math.max(1, toX(syllable.end) - sx), SYLLABLE_BAR_HEIGHT);
+      }
+    }
+
+    const shade = (range: TimeRange, dashed: boolean) => {
+      const x0 = toX(Math.min(range[0], range[1]));
+      const x1 = toX(Math.max(range[0], range[1]));
+      ctx.fillStyle = "rgba(136, 204, 255, 0.18)";
+      ctx.fillRect(x0, 0, x1 - x0, height);
+      ctx.strokeStyle = "rgba(136, 204, 255, 0.8)";
+      ctx.setLineDash(dashed ? [4, 3] : []);
+      ctx.strokeRect(x0 + 0.5, 0.5, Math.max(0, x1 - x0 - 1), height - 1);
+      ctx.setLineDash([]);
+    };
+    selectionRanges.forEach((range) => shade(range, false));
+    if (brush) shade(brush, true);
+
+    if (loopRegion) {
+      const x0 = toX(loopRegion[0]);
+      const x1 = toX(loopRegion[1]);
+      ctx.fillStyle = "rgba(251, 191, 36, 0.12)";
+      ctx.fillRect(x0, 0, x1 - x0, height);
+      ctx.fillStyle = "rgba(252, 211, 77, 0.9)";
+      ctx.fillRect(x0, 0, 1.5, height);
+      ctx.fillRect(x1 - 1.5, 0, 1.5, height);
+    }
+
+    const playheadX = toX(currentTime);
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(playheadX - 0.75, 0, 1.5, height);
+  }, [size, view, image, spectrogram, data.verses, selectionRanges, brush, loopRegion, currentTime]);
+
+  const timeAt = useCallback(
+    (clientX: number) => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      if (!rect || rect.width === 0) return view.start;
+      const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+      return view.start + fraction * view.span;
+    },
+    [view]
+  );
+
+  const handlePointerDown = useCallback(
+    (e: PointerEvent<HTMLCanvasElement>) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      const t = timeAt(e.clientX);
+      if (e.shiftKey) {
+        dragRef.current = { mode: "brush", origin: t };
+        setBrush([t, t]);
+      } else {
+        dragRef.current = { mode: "seek", origin: t };
+        onSeek(t);
+      }
+    },
+    [timeAt, onSeek]
+  );
+
+  const handlePointerMove = useCallback(
+    (e: PointerEvent<HTMLCanvasElement>) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      const t = timeAt(e.clientX);
+      if (drag.mode === "seek") {
+        onSeek(t);
+      } else {
+        setBrush([drag.origin, t]);
+      }
+    },
+    [timeAt, onSeek]
+  );
+
+  const handlePointerUp = useCallback(
+    (e: PointerEvent<HTMLCanvasElement>) => {
+      const drag = dragRef.current;
+      dragRef.current = null;
+      if (drag?.mode !== "brush") return;
+      setBrush(null);
+      const t = timeAt(e.clientX);
+      const pixels = (Math.abs(t - drag.origin) / view.span) * size.width;
+      if (pixels >= MIN_BRUSH_WIDTH) {
+        onBrush([Math.min(drag.origin, t), Math.max(drag.origin, t)]);
+      }
+    },
+    [timeAt, view.span, size.width, onBrush]
+  );
+
+  const handleWheel = useCallback(
+    (e: WheelEvent<HTMLCanvasElement>) => {
+      const anchor = timeAt(e.clientX);
+      setView((v) => {
+        if (e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+          const delta = e.shiftKey ? e.deltaY : e.deltaX;
+          return clampWindow(v.start + (delta / Math.max(1, size.width)) * v.span, v.span, data.duration);
+        }
+        const span = v.span * (e.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP);
+        const fraction = (anchor - v.start) / v.span;
+        return clampWindow(anchor - fraction * span, span, data.duration);
+      });
+    },
+    [timeAt, size.width, data.duration]
+  );
+
+  const zoomAroundPlayhead = useCallback(
+    (factor: number) => {
+      setView((v) => {
+        const span = v.span * factor;
+        const fraction = Math.min(1, Math.max(0, (currentTime - v.start) / v.span));
+        return clampWindow(currentTime - fraction * span, span, data.duration);
+      });
+    },
+    [currentTime, data.duration]
+  );
+
+  return (
+    <div
+      className="fixed bottom-20 left-0 right-0 z-10 h-24 border-t border-white/5 bg-black/60"
+      data-testid="panel-spectrogram"
+    >
+      <div ref={containerRef} className="absolute inset-0">
+        <canvas
+          ref={canvasRef}
+          className="w-full h-full cursor-text touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onWheel={handleWheel}
+          title="Click or drag to seek · shift-drag to select a time range · scroll to zoom"
+          data-testid="canvas-spectrogram"
+        />
+      </div>
+
+      <div className="absolute top-1 right-2 flex items-center gap-0.5">
+        <Button
+          size="icon"
+          variant="ghost"
+          className="w-6 h-6"
+          onClick={() => zoomAroundPlayhead(1 / ZOOM_STEP)}
+          aria-label="Zoom in"
+          data-testid="button-spectrogram-zoom-in"
+        >
+          <ZoomIn className="w-3 h-3" />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="w-6 h-6"
+          onClick={() => zoomAroundPlayhead(ZOOM_STEP)}
+          aria-label="Zoom out"
+          data-testid="button-spectrogram-zoom-out"
+        >
+          <ZoomOut className="w-3 h-3" />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="w-6 h-6"
+          onClick={() => setView(clampWindow(0, data.duration, data.duration))}
+          aria-label="Show whole recording"
+          data-testid="button-spectrogram-fit"
+        >
+          <Maximize2 className="w-3 h-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { useMemo } from "react";
+import { countSyllableTypes, syllableTypeColor, syllableTypeLabel } from "@/lib/syllable-colors";
+import type { VisualizationData } from "@shared/schema";
+
+interface SyllableLegendProps {
+  data: VisualizationData;
+}
+
+export function SyllableLegend({ data }: SyllableLegendProps) {
+  const counts = useMemo(() => countSyllableTypes(data), [data]);
+
+  return (
+    <div
+      className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-4 bg-black/70 px-6 py-2 rounded-lg border border-gray-700"
+      data-testid="legend-syllable-types"
+    >
+      <div className="text-xs font-medium text-gray-300 uppercase tracking-wide">Syllable types:</div>
+      {counts.length === 0 ? (
+        <span className="text-xs text-muted-foreground">None detected</span>
+      ) : (
+        <div className="flex flex-wrap gap-3 items-center max-w-xl">
+          {counts.map((count, type) => (
+            <div key={type} className="flex items-center gap-1.5" title={`${count} syllables`}>
+              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: syllableTypeColor(type) }}></div>
+              <span className="text-xs text-gray-300">
+                {syllableTypeLabel(type)}
+                <span className="ml-1 text-muted-foreground">×{count}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,59 +1,79 @@
 import { useState, useCallback, useRef } from "react";
-import { Upload, Music, FileAudio, AlertCircle } from "lucide-react";
+import { Link } from "wouter";
+import { Upload, Music, FileAudio, AlertCircle, SlidersHorizontal, ChevronDown, Mic, Radio } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AnalysisOptionsForm,
+  loadStoredAnalysisOptions,
+  storeAnalysisOptions,
+  validateAnalysisOptions,
+} from "@/components/analysis-options-form";
+import { RecorderPanel } from "@/components/recorder-panel";
 import { useToast } from "@/hooks/use-toast";
-import type { VisualizationData } from "@shared/schema";
+import type { AnalysisOptions, AnalyzeJobResponse } from "@shared/schema";
+import {
+  ACCEPTED_EXTENSIONS,
+  formatForFilename,
+  isAcceptedUpload,
+  MAX_UPLOAD_BYTES,
+  MAX_UPLOAD_DURATION,
+  SUPPORTED_FORMATS_LABEL,
+  UNSUPPORTED_FORMAT_MESSAGE,
+} from "@shared/audio-formats";
 
 interface UploadInterfaceProps {
   onUploadStart: () => void;
-  onAnalyzing: () => void;
-  onUploadComplete: (data: VisualizationData) => void;
+  onAnalyzing: (jobId: string) => void;
   onUploadError: () => void;
 }
 
-const MAX_FILE_SIZE = 300 * 1024 * 1024;
-const MAX_DURATION = 600;
-const ACCEPTED_TYPES = ["audio/wav", "audio/x-wav", "audio/mpeg", "audio/mp3", "audio/mp4", "audio/x-m4a", "audio/m4a"];
+// Takes are held in memory until submitted, so recording stays capped lower than uploads
+const MAX_RECORDING_DURATION = 600;
 
 export function UploadInterface({
   onUploadStart,
   onAnalyzing,
-  onUploadComplete,
   onUploadError,
 }: UploadInterfaceProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [options, setOptions] = useState<AnalysisOptions>(loadStoredAnalysisOptions);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
   const validateFile = useCallback((file: File): Promise<boolean> => {
     return new Promise((resolve) => {
-      if (file.size > MAX_FILE_SIZE) {
-        setError(`File too large. Maximum size is ${MAX_FILE_SIZE / 1024 / 1024}MB`);
+      if (file.size > MAX_UPLOAD_BYTES) {
+        setError(`File too large. Maximum size is ${MAX_UPLOAD_BYTES / 1024 / 1024 / 1024}GB`);
         resolve(false);
         return;
       }
 
-      const isAccepted = ACCEPTED_TYPES.some(type => 
-        file.type === type || 
-        file.name.toLowerCase().endsWith('.wav') ||
-        file.name.toLowerCase().endsWith('.mp3') ||
-        file.name.toLowerCase().endsWith('.m4a')
-      );
-
-      if (!isAccepted) {
-        setError("Unsupported file format. Please upload WAV, MP3, or M4A files.");
+      if (!isAcceptedUpload(file.name, file.type)) {
+        setError(UNSUPPORTED_FORMAT_MESSAGE);
         resolve(false);
         return;
       }
 
+      // The browser can't open these, so their duration can't be checked here
+      if (formatForFilename(file.name)?.needsPlaybackCopy) {
+        setError(null);
+        resolve(true);
+        return;
+      }
+
       const audio = new Audio();
       audio.src = URL.createObjectURL(file);
       audio.onloadedmetadata = () => {
         URL.revokeObjectURL(audio.src);
-        if (audio.duration > MAX_DURATION) {
-          setError(`Audio too long. Maximum duration is ${MAX_DURATION} seconds.`);
+        // MediaRecorder WebM carries no duration header and reports Infinity;
+        // the recorder already caps takes at MAX_RECORDING_DURATION
+        if (Number.isFinite(audio.duration) && audio.duration > MAX_UPLOAD_DURATION) {
+          setError(`Audio too long. Maximum duration is ${MAX_UPLOAD_DURATION / 3600} hours.`);
           resolve(false);
         } else {
           setError(null);
@@ -68,7 +88,19 @@ export function UploadInterface({
     });
   }, []);
 
+  const handleOptionsChange = useCallback((next: AnalysisOptions) => {
+    setOptions(next);
+    storeAnalysisOptions(next);
+  }, []);
+
   const uploadFile = useCallback(async (file: File) => {
+    if (Object.keys(validateAnalysisOptions(options)).length > 0) {
+      setError("Fix the advanced analysis settings before uploading.");
+      setShowAdvanced(true);
+      onUploadError();
+      return;
+    }
+
     const isValid = await validateFile(file);
     if (!isValid) {
       onUploadError();
@@ -78,37 +110,24 @@ export function UploadInterface({
     onUploadStart();
 
     const formData = new FormData();
+    formData.append("options", JSON.stringify(options));
     formData.append("audio", file);
 
     try {
-      setTimeout(() => onAnalyzing(), 500);
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 600000); // 10 minute timeout
-
       const response = await fetch("/api/analyze", {
         method: "POST",
         body: formData,
-        signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
-
-      const result = await response.json();
+      const result: AnalyzeJobResponse = await response.json();
 
-      if (!response.ok || !result.success) {
+      if (!response.ok || !result.success || !result.jobId) {
         throw new Error(result.error || "Failed to analyze audio");
       }
 
-      onUploadComplete(result.data);
-      toast({
-        title: "Analysis complete",
-        description: "Your audio visualization is ready!",
-      });
+      onAnalyzing(result.jobId);
     } catch (err) {
-      const message = err instanceof DOMException && err.name === "AbortError"
-        ? "Analysis timed out. Try a shorter audio file."
-        : err instanceof Error ? err.message : "Failed to upload file";
+      const message = err instanceof Error ? err.message : "Failed to upload file";
       setError(message);
       toast({
         title: "Upload failed",
@@ -117,7 +136,7 @@ export function UploadInterface({
       });
       onUploadError();
     }
-  }, [validateFile, onUploadStart, onAnalyzing, onUploadComplete, onUploadError, toast]);
+  }, [validateFile, options, onUploadStart, onAnalyzing, onUploadError, toast]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -162,56 +181,114 @@ export function UploadInterface({
         </p>
       </div>
 
-      <div
-        className={`
-          relative min-h-64 border-2 border-dashed rounded-xl
-          flex flex-col items-center justify-center gap-4 p-8
-          transition-all duration-200 cursor-pointer
-          ${isDragging 
-            ? "border-primary bg-primary/10 scale-[1.02]" 
-            : "border-white/20 hover:border-white/40 hover:bg-white/5"
-          }
-        `}
-        onDragOver={handleDragOver}
-        onDragLeave={handleDragLeave}
-        onDrop={handleDrop}
-        onClick={handleClick}
-        data-testid="dropzone-audio"
-      >
-        <input
-          ref={fileInputRef}
-          type="file"
-          accept=".wav,.mp3,.m4a,audio/*"
-          className="hidden"
-          onChange={handleFileChange}
-          data-testid="input-audio-file"
-        />
-
-        <div className={`
-          p-4 rounded-full transition-all duration-200
-          ${isDragging ? "bg-primary/20" : "bg-white/5"}
-        `}>
-          <Upload className={`w-8 h-8 ${isDragging ? "text-primary" : "text-muted-foreground"}`} />
-        </div>
+      <Tabs defaultValue="upload">
+        <TabsList className="grid w-full grid-cols-3 mb-4">
+          <TabsTrigger value="upload" className="gap-2" data-testid="tab-upload">
+            <Upload className="w-3 h-3" />
+            Upload
+          </TabsTrigger>
+          <TabsTrigger value="record" className="gap-2" data-testid="tab-record">
+            <Mic className="w-3 h-3" />
+            Record
+          </TabsTrigger>
+          <TabsTrigger value="live" className="gap-2" data-testid="tab-live">
+            <Radio className="w-3 h-3" />
+            Live
+          </TabsTrigger>
+        </TabsList>
 
-        <div className="text-center">
-          <p className="text-foreground font-medium mb-1">
-            {isDragging ? "Drop your audio file here" : "Drag & drop your audio file"}
-          </p>
-          <p className="text-muted-foreground text-sm">
-            or click to browse
-          </p>
-        </div>
+        <TabsContent value="upload" className="mt-0">
+          <div
+            className={`
+              relative min-h-64 border-2 border-dashed rounded-xl
+              flex flex-col items-center justify-center gap-4 p-8
+              transition-all duration-200 cursor-pointer
+              ${isDragging 
+                ? "border-primary bg-primary/10 scale-[1.02]" 
+                : "border-white/20 hover:border-white/40 hover:bg-white/5"
+              }
+            `}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+            onClick={handleClick}
+            data-testid="dropzone-audio"
+          >
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={[...ACCEPTED_EXTENSIONS, "audio/*"].join(",")}
+              className="hidden"
+              onChange={handleFileChange}
+              data-testid="input-audio-file"
+            />
 
-        <div className="flex items-center gap-4 text-xs text-muted-foreground">
-          <span className="flex items-center gap-1">
-            <FileAudio className="w-3 h-3" />
-            WAV, MP3, M4A
-          </span>
-          <span>Max 10 minutes</span>
-          <span>Max 300MB</span>
-        </div>
-      </div>
+            <div className={`
+              p-4 rounded-full transition-all duration-200
+              ${isDragging ? "bg-primary/20" : "bg-white/5"}
+            `}>
+              <Upload className={`w-8 h-8 ${isDragging ? "text-primary" : "text-muted-foreground"}`} />
+            </div>
+
+            <div className="text-center">
+              <p className="text-foreground font-medium mb-1">
+                {isDragging ? "Drop your audio file here" : "Drag & drop your audio file"}
+              </p>
+              <p className="text-muted-foreground text-sm">
+                or click to browse
+              </p>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <FileAudio className="w-3 h-3" />
+                {SUPPORTED_FORMATS_LABEL}
+              </span>
+              <span>Max {MAX_UPLOAD_DURATION / 3600} hours</span>
+              <span>Max {MAX_UPLOAD_BYTES / 1024 / 1024 / 1024}GB</span>
+            </div>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="record" className="mt-0">
+          <RecorderPanel maxDuration={MAX_RECORDING_DURATION} onSubmit={uploadFile} />
+        </TabsContent>
+
+        <TabsContent value="live" className="mt-0">
+          <div className="min-h-64 rounded-xl border border-white/10 p-6 flex flex-col items-center justify-center gap-4 text-center">
+            <p className="text-muted-foreground text-sm max-w-sm">
+              Analyze a microphone or line input in the browser as it plays. Points stream into the
+              3D view and the network grows as the bird sings; nothing is uploaded or stored.
+            </p>
+            <Button asChild data-testid="button-open-live">
+              <Link href="/live">
+                <Radio className="w-4 h-4 mr-2" />
+                Open live view
+              </Link>
+            </Button>
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      <Collapsible open={showAdvanced} onOpenChange={setShowAdvanced} className="mt-4">
+        <CollapsibleTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full justify-between text-xs text-muted-foreground"
+            data-testid="button-toggle-advanced"
+          >
+            <span className="flex items-center gap-2">
+              <SlidersHorizontal className="w-3 h-3" />
+              Advanced analysis
+            </span>
+            <ChevronDown className={`w-3 h-3 transition-transform ${showAdvanced ? "rotate-180" : ""}`} />
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="pt-3">
+          <AnalysisOptionsForm value={options} onChange={handleOptionsChange} />
+        </CollapsibleContent>
+      </Collapsible>
 
       {error && (
         <div className="mt-4 p-3 rounded-lg bg-destructive/10 border border-destructive/20 flex items-start gap-2" data-testid="alert-upload-error">
@@ -0,0 +1,203 @@
+import { useMemo, useRef, useEffect } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import type { Verse, VisualizationPoint } from "@shared/schema";
+
+interface VerseRibbonsProps {
+  verses: Verse[];
+  // World positions for every point, in verses.flatMap(v => v.points) order
+  positions: Float32Array;
+  // Only the part of each ribbon up to this time is drawn; null draws everything
+  revealUntil: number | null;
+}
+
+interface RibbonPoint {
+  point: VisualizationPoint;
+  // Index into the flattened positions
+  index: number;
+}
+
+interface RibbonGeometry {
+  geometry: THREE.BufferGeometry;
+  // Time of each ring along the tube, ascending
+  ringTimes: number[];
+}
+
+const RADIAL_SEGMENTS = 8;
+const SAMPLES_PER_POINT = 3;
+const MAX_SAMPLES_PER_VERSE = 1500;
+// Frame-level embeddings jitter; a short moving average keeps the tube readable
+const SMOOTHING_WINDOW = 3;
+const BASE_RADIUS = 0.02;
+const AMPLITUDE_RADIUS = 0.5;
+const INDICES_PER_SEGMENT = RADIAL_SEGMENTS * 6;
+
+function interpolate(values: number[], index: number): number {
+  const lo = Math.floor(index);
+  const hi = Math.min(values.length - 1, lo + 1);
+  return values[lo] + (values[hi] - values[lo]) * (index - lo);
+}
+
+// A verse's points per channel; split-channel analyses get one tube per cloud
+// instead of one zig-zagging between them
+function channelRuns(verse: Verse, offset: number): RibbonPoint[][] {
+  const runs: RibbonPoint[][] = [];
+  verse.points.forEach((point, i) => {
+    (runs[point.channel ?? 0] ??= []).push({ point, index: offset + i });
+  });
+  return runs;
+}
+
+// Tube through the points in time order: radius follows amplitude (point
+// size) and colour follows the analyzer's frequency hue
+function buildRibbon(points: RibbonPoint[], positions: Float32Array): RibbonGeometry | null {
+  const order = [...points].sort((a, b) => a.point.time - b.point.time);
+  if (order.length < 2) return null;
+
+  const centers = order.map((_, i) => {
+    const from = Math.max(0, i - SMOOTHING_WINDOW);
+    const to = Math.min(order.length - 1, i + SMOOTHING_WINDOW);
+    const center = new THREE.Vector3();
+    for (let j = from; j <= to; j++) {
+      const p = order[j].index * 3;
+      center.x += positions[p];
+      center.y += positions[p + 1];
+      center.z += positions[p + 2];
+    }
+    return center.divideScalar(to - from + 1);
+  });
+
+  const times = order.map(({ point }) => point.time);
+  const radii = order.map(({ point }) => BASE_RADIUS + point.size * AMPLITUDE_RADIUS);
+  const hues = order.map(({ point }) => point.color);
+
+  // getPoint() is parameterised by point index, so time and radius can be
+  // interpolated with the same parameter
+  const curve = new THREE.CatmullRomCurve3(centers, false, "centripetal");
+  const samples = Math.min(MAX_SAMPLES_PER_VERSE, order.length * SAMPLES_PER_POINT);
+  const ringPositions: THREE.Vector3[] = [];
+  for (let s = 0; s <= samples; s++) {
+    ringPositions.push(curve.getPoint(s / samples));
+  }
+
+  const vertices = new Float32Array((samples + 1) * RADIAL_SEGMENTS * 3);
+  const colors = new Float32Array((samples + 1) * RADIAL_SEGMENTS * 3);
+  const ringTimes: number[] = [];
+  const tangent = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  const binormal = new THREE.Vector3();
+  const color = new THREE.Color();
+
+  for (let s = 0; s <= samples; s++) {
+    const prev = ringPositions[Math.max(0, s - 1)];
+    const next = ringPositions[Math.min(samples, s + 1)];
+    tangent.subVectors(next, prev);
+    if (tangent.lengthSq() < 1e-12) tangent.set(1, 0, 0);
+    tangent.normalize();
+
+    // Parallel transport: keep the previous normal, minus its tangent component
+    if (s === 0) {
+      normal.set(0, 1, 0);
+      if (Math.abs(tangent.dot(normal)) > 0.9) normal.set(1, 0, 0);
+    }
+    normal.addScaledVector(tangent, -normal.dot(tangent)).normalize();
+    binormal.crossVectors(tangent, normal);
+
+    const pointIndex = (s / samples) * (order.length - 1);
+    ringTimes.push(interpolate(times, pointIndex));
+    const radius = interpolate(radii, pointIndex);
+    const [h, sat, light] = hues[Math.round(pointIndex)];
+    color.setHSL(h / 360, sat, light);
+
+    for (let r = 0; r < RADIAL_SEGMENTS; r++) {
+      const angle = (r / RADIAL_SEGMENTS) * Math.PI * 2;
+      const cos = Math.cos(angle) * radius;
+      const sin = Math.sin(angle) * radius;
+      const v = (s * RADIAL_SEGMENTS + r) * 3;
+      vertices[v] = ringPositions[s].x + normal.x * cos + binormal.x * sin;
+      vertices[v + 1] = ringPositions[s].y + normal.y * cos + binormal.y * sin;
+      vertices[v + 2] = ringPositions[s].z + normal.z * cos + binormal.z * sin;
+      colors[v] = color.r;
+      colors[v + 1] = color.g;
+      colors[v + 2] = color.b;
+    }
+  }
+
+  // Indices run segment by segment so a draw range reveals the tube from its start
+  const indices: number[] = [];
+  for (let s = 0; s < samples; s++) {
+    for (let r = 0; r < RADIAL_SEGMENTS; r++) {
+      const a = s * RADIAL_SEGMENTS + r;
+      const b = s * RADIAL_SEGMENTS + ((r + 1) % RADIAL_SEGMENTS);
+      const c = a + RADIAL_SEGMENTS;
+      const d = b + RADIAL_SEGMENTS;
+      indices.push(a, c, b, b, c, d);
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.BufferAttribute(vertices, 3));
+  geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return { geometry, ringTimes };
+}
+
+export function VerseRibbons({ verses, positions, revealUntil }: VerseRibbonsProps) {
+  const meshRefs = useRef<(THREE.Mesh | null)[]>([]);
+
+  const ribbons = useMemo(() => {
+    let offset = 0;
+    return verses.flatMap((verse) => {
+      const runs = channelRuns(verse, offset);
+      offset += verse.points.length;
+      return runs.map((run, channel) => ({ key: `${verse.id}-${channel}`, ribbon: buildRibbon(run, positions) }));
+    });
+  }, [verses, positions]);
+
+  useEffect(() => {
+    return () => ribbons.forEach(({ ribbon }) => ribbon?.geometry.dispose());
+  }, [ribbons]);
+
+  useFrame(() => {
+    ribbons.forEach(({ ribbon }, i) => {
+      const mesh = meshRefs.current[i];
+      if (!ribbon || !mesh) return;
+
+      if (revealUntil === null) {
+        mesh.geometry.setDrawRange(0, Infinity);
+        return;
+      }
+      let segments = 0;
+      while (segments < ribbon.ringTimes.length - 1 && ribbon.ringTimes[segments + 1] <= revealUntil) {
+        segments++;
+      }
+      mesh.geometry.setDrawRange(0, segments * INDICES_PER_SEGMENT);
+    });
+  });
+
+  return (
+    <group>
+      <directionalLight position={[4, 8, 6]} intensity={1.2} />
+      {ribbons.map(({ key, ribbon }, i) =>
+        ribbon ? (
+          <mesh
+            key={key}
+            ref={(mesh) => {
+              meshRefs.current[i] = mesh;
+            }}
+            geometry={ribbon.geometry}
+          >
+            <meshLambertMaterial
+              vertexColors
+              transparent
+              opacity={0.8}
+              side={THREE.DoubleSide}
+              emissive="#111111"
+            />
+          </mesh>
+        ) : null
+      )}
+    </group>
+  );
+}
@@ -1,17 +1,109 @@
-import { useRef, useMemo, useEffect } from "react";
-import { Canvas, useFrame, useThree } from "@react-three/fiber";
-import { OrbitControls, PerspectiveCamera } from "@react-three/drei";
+import { useRef, useMemo, useEffect, useState, useCallback, type MutableRefObject } from "react";
+import { Canvas, useFrame, useThree, type ThreeEvent } from "@react-three/fiber";
+import { Billboard, OrbitControls, PerspectiveCamera } from "@react-three/drei";
 import * as THREE from "three";
-import type { VisualizationData, VisualizationSettings, VisualizationPoint } from "@shared/schema";
+import type { VisualizationData, VisualizationSettings, VisualizationPoint, VisualStyle } from "@shared/schema";
+import type { CameraPose } from "@/lib/permalink";
+import { computeGalaxyLayout } from "@/lib/galaxy-layout";
+import { VerseRibbons } from "@/components/verse-ribbons";
+import { SelectionOverlay } from "@/components/selection-overlay";
+import {
+  pointInPolygon,
+  type ScreenPolygon,
+  type SelectionMode,
+  type SelectionTool,
+} from "@/lib/point-selection";
+import { syllableTypeColor } from "@/lib/syllable-colors";
+import { channelColor } from "@/lib/channel-colors";
+import type { LivePointBuffer } from "@/lib/live-point-buffer";
 
 interface VisualizationCanvasProps {
-  data: VisualizationData;
+  data?: VisualizationData;
+  // Live mode: draw the streaming point buffer instead of an analysis
+  live?: LivePointBuffer;
   currentTime: number;
   isPlaying: boolean;
   settings: VisualizationSettings;
   onPointHover?: (point: VisualizationPoint | null) => void;
+  onPointSelect?: (point: VisualizationPoint) => void;
+  selectedPoint?: VisualizationPoint | null;
+  // Multi-selection as indices into the flattened verses.flatMap(v => v.points) array
+  selection?: number[];
+  selectionTool?: SelectionTool | null;
+  onSelectPoints?: (indices: number[], mode: SelectionMode) => void;
+  initialCamera?: CameraPose;
+  cameraPoseRef?: MutableRefObject<CameraPose | null>;
+}
+
+const DEFAULT_CAMERA: CameraPose = {
+  position: [0, 2, 12],
+  target: [0, 0, 0],
+};
+
+// The galaxy is a flat disc, so it is framed from above at an angle
+const STYLE_CAMERAS: Partial<Record<VisualStyle, CameraPose>> = {
+  galaxy: { position: [0, 10, 9], target: [0, 0, 0] },
+};
+
+const STYLE_FOG: Partial<Record<VisualStyle, [number, number]>> = {
+  galaxy: [14, 36],
+};
+const DEFAULT_FOG: [number, number] = [10, 30];
+
+const FRAMING_DURATION = 1.2;
+
+// Points (and ribbon segments) appear slightly ahead of the playhead
+const REVEAL_LEAD_TIME = 0.08;
+
+// World-space distance from the pointer ray within which a point counts as hit
+const PICK_THRESHOLD = 0.12;
+// Pointer travel (px) beyond which a click is treated as an orbit drag
+const CLICK_DRAG_TOLERANCE = 4;
+
+function cameraFramingFor(visualStyle: VisualStyle): CameraPose {
+  return STYLE_CAMERAS[visualStyle] ?? DEFAULT_CAMERA;
 }
 
+const POINT_VERTEX_SHADER = `
+  attribute float size;
+  uniform float uSizeScale;
+  varying vec3 vColor;
+  void main() {
+    vColor = color;
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    gl_PointSize = size * uSizeScale * (300.0 / -mvPosition.z);
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+const POINT_FRAGMENT_SHADER = `
+  varying vec3 vColor;
+  void main() {
+    float dist = length(gl_PointCoord - vec2(0.5));
+    if (dist > 0.5) discard;
+    float alpha = 1.0 - smoothstep(0.2, 0.5, dist);
+    float glow = exp(-dist * 4.0) * 0.5;
+    vec3 finalColor = vColor + vColor * glow;
+    gl_FragColor = vec4(finalColor, alpha);
+  }
+`;
+
+// Star-like sprite: a hot white-ish core inside a wide gaussian halo
+const GALAXY_FRAGMENT_SHADER = `
+  varying vec3 vColor;
+  void main() {
+    float dist = length(gl_PointCoord - vec2(0.5));
+    if (dist > 0.5) discard;
+    float halo = exp(-dist * dist * 18.0);
+    float core = exp(-dist * dist * 160.0);
+    vec3 finalColor = vColor * halo + vec3(core * 0.6);
+    gl_FragColor = vec4(finalColor, halo);
+  }
+`;
+
+const POINT_SIZE_SCALE: Partial<Record<VisualStyle, number>> = {
+  galaxy: 1.6,
+};
 interface SortedPoint {
   originalIndex: number;
   time: number;
@@ -48,6 +140,33 @@ interface PointsVisualizationProps {
   data: VisualizationData;
   currentTime: number;
   settings: VisualizationSettings;
+  selectedPoint?: VisualizationPoint | null;
+  selection?: number[];
+  onPointHover?: (point: VisualizationPoint | null) => void;
+  onPointSelect?: (point: VisualizationPoint) => void;
+  onSelectPoints?: (indices: number[], mode: SelectionMode) => void;
+  selectionQueryRef?: MutableRefObject<((polygon: ScreenPolygon) => number[]) | null>;
+}
+
+function SelectionRing({
+  positions,
+  index,
+  color,
+  opacity,
+}: {
+  positions: Float32Array;
+  index: number;
+  color: string;
+  opacity: number;
+}) {
+  return (
+    <Billboard position={[positions[index * 3], positions[index * 3 + 1], positions[index * 3 + 2]]}>
+      <mesh renderOrder={1}>
+        <ringGeometry args={[0.14, 0.18, 40]} />
+        <meshBasicMaterial color={color} transparent opacity={opacity} depthTest={false} />
+      </mesh>
+    </Billboard>
+  );
 }
 
 function simplex2D(x: number, y: number): number {
@@ -71,8 +190,22 @@ function simplex2D(x: number, y: number): number {
   return (hash(i, j) * x0 + hash(i + 1, j) * y0) * 0.5;
 }
 
-function PointsVisualization({ data, currentTime, settings }: PointsVisualizationProps) {
+function PointsVisualization({
+  data,
+  currentTime,
+  settings,
+  selectedPoint,
+  selection,
+  onPointHover,
+  onPointSelect,
+  onSelectPoints,
+  selectionQueryRef,
+}: PointsVisualizationProps) {
   const pointsRef = useRef<THREE.Points>(null);
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const raycaster = useThree((state) => state.raycaster);
+  const camera = useThree((state) => state.camera);
+  const size = useThree((state) => state.size);
   const linesRef = useRef<THREE.LineSegments>(null);
   const maxRevealedRef = useRef<number>(0);
   const currentSizesRef = useRef<Float32Array | null>(null);
@@ -99,39 +232,39 @@ function PointsVisualization({ data, currentTime, settings }: PointsVisualizatio
     const sizes = new Float32Array(allPoints.length);
     const baseColors: THREE.Color[] = [];
 
+    const galaxyPositions = settings.visualStyle === "galaxy" ? computeGalaxyLayout(data.verses) : null;
+
     allPoints.forEach((point, i) => {
       // Use PCA coordinates directly (already scaled appropriately)
       // Fall back to old transformation if coordinates seem to be in 0-1 range
       const isPcaCoords = Math.abs(point.x) > 2 || Math.abs(point.y) > 2 || Math.abs(point.z) > 2;
 
-      if (isPcaCoords) {
+      if (galaxyPositions) {
+        positions[i * 3] = galaxyPositions[i * 3];
+        positions[i * 3 + 1] = galaxyPositions[i * 3 + 1];
+        positions[i * 3 + 2] = galaxyPositions[i * 3 + 2];
+      } else if (isPcaCoords) {
         // Direct PCA coordinates (already in world space)
         positions[i * 3] = point.x;
         positions[i * 3 + 1] = point.y;
         positions[i * 3 + 2] = point.z;
       } else {
         // Legacy transformation for old-style normalized coordinates
-        const scale = settings.visualStyle === "galaxy" ? 8 : 5;
-
-        if (settings.visualStyle === "galaxy") {
-          const angle = point.x * Math.PI * 4;
-          const radius = (0.3 + point.z * 0.7) * scale;
-          positions[i * 3] = Math.cos(angle) * radius;
-          positions[i * 3 + 1] = (point.y - 0.5) * scale * 0.5;
-          positions[i * 3 + 2] = Math.sin(angle) * radius + (point.bandOffsetZ || 0) * scale;
-        } else {
-          positions[i * 3] = (point.x - 0.5) * scale * 2;
-          positions[i * 3 + 1] = (point.y - 0.5) * scale;
-          positions[i * 3 + 2] = (point.z - 0.5) * scale + (point.bandOffsetZ || 0) * scale;
-        }
+        const scale = 5;
+        positions[i * 3] = (point.x - 0.5) * scale * 2;
+        positions[i * 3 + 1] = (point.y - 0.5) * scale;
+        positions[i * 3 + 2] = (point.z - 0.5) * scale + (point.bandOffsetZ || 0) * scale;
       }
 
       basePositions[i * 3] = positions[i * 3];
       basePositions[i * 3 + 1] = positions[i * 3 + 1];
       basePositions[i * 3 + 2] = positions[i * 3 + 2];
 
-      const frequencyValue = point.color[0];
-      const color = mapFrequencyToColor(frequencyValue);
+      const color = settings.colorMode === "syllable"
+        ? new THREE.Color(syllableTypeColor(point.syllableType))
+        : settings.colorMode === "channel"
+          ? new THREE.Color(channelColor(point.channel))
+          : mapFrequencyToColor(point.color[0]);
       baseColors.push(color);
       colors[i * 3] = color.r;
       colors[i * 3 + 1] = color.g;
@@ -141,7 +274,116 @@ function PointsVisualization({ data, currentTime, settings }: PointsVisualizatio
     });
 
     return { positions, basePositions, colors, sizes, baseColors };
-  }, [allPoints, settings.visualStyle]);
+  }, [allPoints, data.verses, settings.visualStyle, settings.colorMode]);
+
+  useEffect(() => {
+    raycaster.params.Points = { threshold: PICK_THRESHOLD };
+  }, [raycaster]);
+
+  // Raycasting culls against the bounding sphere, which goes stale when the layout changes
+  useEffect(() => {
+    pointsRef.current?.geometry.computeBoundingSphere();
+  }, [positions]);
+
+  const selectedIndex = useMemo(
+    () => (selectedPoint ? allPoints.indexOf(selectedPoint) : -1),
+    [allPoints, selectedPoint]
+  );
+
+  // Closest revealed point to the pointer ray, or null
+  const pickPoint = useCallback(
+    (event: ThreeEvent<PointerEvent | MouseEvent>): number | null => {
+      let best: number | null = null;
+      let bestDistance = Infinity;
+      for (const hit of event.intersections) {
+        if (hit.object !== pointsRef.current || hit.index === undefined) continue;
+        if (settings.progressiveReveal && allPoints[hit.index].time > currentTime + REVEAL_LEAD_TIME) continue;
+        const distance = hit.distanceToRay ?? Infinity;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = hit.index;
+        }
+      }
+      return best;
+    },
+    [allPoints, currentTime, settings.progressiveReveal]
+  );
+
+  const updateHover = useCallback(
+    (index: number | null) => {
+      if (index === hoveredIndex) return;
+      setHoveredIndex(index);
+      document.body.style.cursor = index === null ? "" : "pointer";
+      onPointHover?.(index === null ? null : allPoints[index]);
+    },
+    [hoveredIndex, allPoints, onPointHover]
+  );
+
+  useEffect(() => {
+    return () => {
+      document.body.style.cursor = "";
+    };
+  }, []);
+
+  const handlePointerMove = useCallback(
+    (event: ThreeEvent<PointerEvent>) => updateHover(pickPoint(event)),
+    [pickPoint, updateHover]
+  );
+
+  const handlePointerOut = useCallback(() => updateHover(null), [updateHover]);
+
+  const handleClick = useCallback(
+    (event: ThreeEvent<MouseEvent>) => {
+      if (event.delta > CLICK_DRAG_TOLERANCE) return;
+      const index = pickPoint(event);
+      if (index === null) return;
+      event.stopPropagation();
+      if (event.shiftKey && onSelectPoints) {
+        onSelectPoints([index], "toggle");
+      } else {
+        onPointSelect?.(allPoints[index]);
+      }
+    },
+    [pickPoint, allPoints, onPointSelect, onSelectPoints]
+  );
+
+  // Screen-space query for box and lasso selection: revealed points whose
+  // projection falls inside the polygon
+  useEffect(() => {
+    if (!selectionQueryRef) return;
+    selectionQueryRef.current = (polygon) => {
+      const projected = new THREE.Vector3();
+      const hits: number[] = [];
+      for (let i = 0; i < allPoints.length; i++) {
+        if (settings.progressiveReveal && allPoints[i].time > currentTime + REVEAL_LEAD_TIME) continue;
+        projected.set(basePositions[i * 3], basePositions[i * 3 + 1], basePositions[i * 3 + 2]).project(camera);
+        if (projected.z > 1) continue;
+        const x = ((projected.x + 1) / 2) * size.width;
+        const y = ((1 - projected.y) / 2) * size.height;
+        if (pointInPolygon(x, y, polygon)) hits.push(i);
+      }
+      return hits;
+    };
+    return () => {
+      selectionQueryRef.current = null;
+    };
+  }, [selectionQueryRef, allPoints, basePositions, camera, size, currentTime, settings.progressiveReveal]);
+
+  const selectionGeometry = useMemo(() => {
+    const indices = (selection ?? []).filter((i) => i < allPoints.length);
+    if (indices.length === 0) return null;
+    const selectedPositions = new Float32Array(indices.length * 3);
+    indices.forEach((index, i) => {
+      selectedPositions[i * 3] = basePositions[index * 3];
+      selectedPositions[i * 3 + 1] = basePositions[index * 3 + 1];
+      selectedPositions[i * 3 + 2] = basePositions[index * 3 + 2];
+    });
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute("position", new THREE.BufferAttribute(selectedPositions, 3));
+    return geometry;
+  }, [selection, allPoints, basePositions]);
+
+  useEffect(() => () => selectionGeometry?.dispose(), [selectionGeometry]);
 
   const { lineGeometry, sortedEdgeTimes } = useMemo(() => {
     if (settings.visualStyle !== "network") return { lineGeometry: null, sortedEdgeTimes: [] };
@@ -150,12 +392,13 @@ function PointsVisualization({ data, currentTime, settings }: PointsVisualizatio
       fromGlobal: number;
       toGlobal: number;
       visibleAt: number;
+      weight: number;
     }
     const edges: EdgeData[] = [];
     let pointIndex = 0;
 
     data.verses.forEach(verse => {
-      verse.edges.forEach(([from, to]) => {
+      verse.edges.forEach(([from, to], e) => {
         const fromGlobal = pointIndex + from;
         const toGlobal = pointIndex + to;
         if (fromGlobal < allPoints.length && toGlobal < allPoints.length) {
@@ -165,6 +408,8 @@ function PointsVisualization({ data, currentTime, settings }: PointsVisualizatio
             fromGlobal,
             toGlobal,
             visibleAt: Math.max(fromTime, toTime),
+            // Older analyses have no weights; draw their edges at full strength
+            weight: verse.edgeWeights?.[e] ?? 1,
           });
         }
       });
@@ -174,6 +419,7 @@ function PointsVisualization({ data, currentTime, settings }: PointsVisualizatio
     edges.sort((a, b) => a.visibleAt - b.visibleAt);
 
     const linePositions: number[] = [];
+    const lineColors: number[] = [];
     const sortedEdgeTimes: number[] = [];
 
     edges.forEach(edge => {
@@ -185,11 +431,14 @@ function PointsVisualization({ data, currentTime, settings }: PointsVisualizatio
         positions[edge.toGlobal * 3 + 1],
         positions[edge.toGlobal * 3 + 2]
       );
+      // Scales the material colour, so long edges fade out under additive blending
+      lineColors.push(edge.weight, edge.weight, edge.weight, edge.weight, edge.weight, edge.weight);
       sortedEdgeTimes.push(edge.visibleAt);
     });
 
     const geometry = new THREE.BufferGeometry();
     geometry.setAttribute("position", new THREE.Float32BufferAttribute(linePositions, 3));
+    geometry.setAttribute("color", new THREE.Float32BufferAttribute(lineColors, 3));
     return { lineGeometry: geometry, sortedEdgeTimes };
   }, [data.verses, positions, allPoints, settings.visualStyle]);
 
@@ -221,7 +470,6 @@ function PointsVisualization({ data, currentTime, settings }: PointsVisualizatio
     }
 
     const timeWindow = 0.03;
-    const revealLeadTime = 0.08;
     const smoothingFactor = 0.15;
     const maxDelta = 0.2;
     const driftAmount = 0.015;
@@ -231,7 +479,7 @@ function PointsVisualization({ data, currentTime, settings }: PointsVisualizatio
     if (settings.progressiveReveal) {
       let count = 0;
       for (let i = 0; i < sortedPointIndices.length; i++) {
-        if (sortedPointIndices[i].time <= currentTime + revealLeadTime) {
+        if (sortedPointIndices[i].time <= currentTime + REVEAL_LEAD_TIME) {
           count = i + 1;
         } else {
           break;
@@ -273,13 +521,17 @@ function PointsVisualization({ data, currentTime, settings }: PointsVisualizatio
       const complexityBoost = (point.complexity || 0) * 0.2;
       const targetIntensity = activation + beatBoost * 1.5;
 
-      const isVisible = !settings.progressiveReveal || point.time <= currentTime + revealLeadTime;
+      const isVisible = !settings.progressiveReveal || point.time <= currentTime + REVEAL_LEAD_TIME;
       const alpha = isVisible ? 1 : 0;
       
       let r = 0, g = 0, b = 0;
-      if (point.band === 'low')  { r = 1; g = 0.2; b = 0.2; }
-      if (point.band === 'mid')  { r = 0.2; g = 1; b = 0.2; }
-      if (point.band === 'high') { r = 0.2; g = 0.2; b = 1; }
+      if (settings.colorMode !== "frequency") {
+        ({ r, g, b } = baseColors[i]);
+      } else {
+        if (point.band === 'low')  { r = 1; g = 0.2; b = 0.2; }
+        if (point.band === 'mid')  { r = 0.2; g = 1; b = 0.2; }
+        if (point.band === 'high') { r = 0.2; g = 0.2; b = 1; }
+      }
       
       const targetBrightness = 0.3 + activation * 2.0 + complexityBoost;
       let currentBrightness = currentBrightnessRef.current![i];
@@ -322,7 +574,7 @@ function PointsVisualization({ data, currentTime, settings }: PointsVisualizatio
       if (settings.progressiveReveal) {
         let visibleEdgeCount = 0;
         for (let i = 0; i < sortedEdgeTimes.length; i++) {
-          if (sortedEdgeTimes[i] <= currentTime + revealLeadTime) {
+          if (sortedEdgeTimes[i] <= currentTime + REVEAL_LEAD_TIME) {
             visibleEdgeCount = i + 1;
           } else {
             break;
@@ -335,9 +587,20 @@ function PointsVisualization({ data, currentTime, settings }: PointsVisualizatio
     }
   });
 
+  const isGalaxy = settings.visualStyle === "galaxy";
+  const pointUniforms = useMemo(
+    () => ({ uSizeScale: { value: POINT_SIZE_SCALE[settings.visualStyle] ?? 1 } }),
+    [settings.visualStyle]
+  );
+
   return (
     <group>
-      <points ref={pointsRef}>
+      <points
+        ref={pointsRef}
+        onPointerMove={handlePointerMove}
+        onPointerOut={handlePointerOut}
+        onClick={handleClick}
+      >
         <bufferGeometry>
           <bufferAttribute
             attach="attributes-position"
@@ -359,38 +622,50 @@ function PointsVisualization({ data, currentTime, settings }: PointsVisualizatio
           />
         </bufferGeometry>
         <shaderMaterial
+          key={isGalaxy ? "galaxy" : "default"}
           vertexColors
           transparent
           depthWrite={false}
           blending={THREE.AdditiveBlending}
-          vertexShader={`
-            attribute float size;
-            varying vec3 vColor;
-            void main() {
-              vColor = color;
-              vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
-              gl_PointSize = size * (300.0 / -mvPosition.z);
-              gl_Position = projectionMatrix * mvPosition;
-            }
-          `}
-          fragmentShader={`
-            varying vec3 vColor;
-            void main() {
-              float dist = length(gl_PointCoord - vec2(0.5));
-              if (dist > 0.5) discard;
-              float alpha = 1.0 - smoothstep(0.2, 0.5, dist);
-              float glow = exp(-dist * 4.0) * 0.5;
-              vec3 finalColor = vColor + vColor * glow;
-              gl_FragColor = vec4(finalColor, alpha);
-            }
-          `}
+          uniforms={pointUniforms}
+          vertexShader={POINT_VERTEX_SHADER}
+          fragmentShader={isGalaxy ? GALAXY_FRAGMENT_SHADER : POINT_FRAGMENT_SHADER}
         />
       </points>
 
+      {selectionGeometry && (
+        <points geometry={selectionGeometry} renderOrder={1}>
+          <pointsMaterial
+            color="#ffffff"
+            size={0.1}
+            transparent
+            opacity={0.7}
+            depthTest={false}
+            depthWrite={false}
+          />
+        </points>
+      )}
+
+      {selectedIndex >= 0 && (
+        <SelectionRing positions={basePositions} index={selectedIndex} color="#ffffff" opacity={0.9} />
+      )}
+      {hoveredIndex !== null && hoveredIndex !== selectedIndex && hoveredIndex < allPoints.length && (
+        <SelectionRing positions={basePositions} index={hoveredIndex} color="#88ccff" opacity={0.5} />
+      )}
+
+      {settings.visualStyle === "ribbons" && (
+        <VerseRibbons
+          verses={data.verses}
+          positions={basePositions}
+          revealUntil={settings.progressiveReveal ? currentTime + REVEAL_LEAD_TIME : null}
+        />
+      )}
+
       {lineGeometry && (
         <lineSegments ref={linesRef} geometry={lineGeometry}>
           <lineBasicMaterial
             color="#4488ff"
+            vertexColors
             transparent
             opacity={0.12}
             blending={THREE.AdditiveBlending}
@@ -401,6 +676,110 @@ function PointsVisualization({ data, currentTime, settings }: PointsVisualizatio
   );
 }
 
+// Live points fade towards this floor over LIVE_FADE_SECONDS
+const LIVE_FADE_SECONDS = 8;
+const LIVE_MIN_BRIGHTNESS = 0.25;
+// Newly arrived points are drawn enlarged for this long
+const LIVE_PULSE_SECONDS = 0.2;
+// Same frequency-to-hue mapping as the analyzer and the frequency scale
+const LIVE_MAX_FREQUENCY = 10000;
+
+function LivePointsVisualization({ buffer }: { buffer: LivePointBuffer }) {
+  const pointsRef = useRef<THREE.Points>(null);
+  const linesRef = useRef<THREE.LineSegments>(null);
+  const versionRef = useRef(-1);
+  const drawnTimeRef = useRef(-1);
+
+  const { positions, colors, sizes, linePositions } = useMemo(
+    () => ({
+      positions: new Float32Array(buffer.capacity * 3),
+      colors: new Float32Array(buffer.capacity * 3),
+      sizes: new Float32Array(buffer.capacity),
+      linePositions: new Float32Array(buffer.capacity * buffer.neighbors * 6),
+    }),
+    [buffer]
+  );
+
+  useFrame(() => {
+    if (!pointsRef.current || !linesRef.current) return;
+    // Gated silent frames still advance the clock, which ages (fades) the points
+    if (buffer.version === versionRef.current && buffer.latestTime === drawnTimeRef.current) return;
+    versionRef.current = buffer.version;
+    drawnTimeRef.current = buffer.latestTime;
+
+    const count = buffer.size;
+    const color = new THREE.Color();
+    const peak = buffer.peakAmplitude || 1;
+    positions.set(buffer.positions.subarray(0, count * 3));
+    for (let i = 0; i < count; i++) {
+      const age = buffer.latestTime - buffer.times[i];
+      const fade = LIVE_MIN_BRIGHTNESS + (1 - LIVE_MIN_BRIGHTNESS) * Math.exp(-age / LIVE_FADE_SECONDS);
+      const hue = (Math.min(buffer.frequencies[i] / LIVE_MAX_FREQUENCY, 1) * 60) / 360;
+      color.setHSL(hue, 0.8, 0.6);
+      colors[i * 3] = color.r * fade;
+      colors[i * 3 + 1] = color.g * fade;
+      colors[i * 3 + 2] = color.b * fade;
+      const pulse = age < LIVE_PULSE_SECONDS ? 2 - age / LIVE_PULSE_SECONDS : 1;
+      sizes[i] = (0.06 + Math.min(1, buffer.amplitudes[i] / peak) * 0.1) * pulse;
+    }
+
+    let segments = 0;
+    for (let i = 0; i < count; i++) {
+      for (let k = 0; k < buffer.neighbors; k++) {
+        if (!buffer.isEdgeLive(i, k)) continue;
+        const j = buffer.edges[i * buffer.neighbors + k];
+        linePositions.set(positions.subarray(i * 3, i * 3 + 3), segments * 6);
+        linePositions.set(positions.subarray(j * 3, j * 3 + 3), segments * 6 + 3);
+        segments++;
+      }
+    }
+
+    const pointGeometry = pointsRef.current.geometry;
+    pointGeometry.setDrawRange(0, count);
+    pointGeometry.attributes.position.needsUpdate = true;
+    pointGeometry.attributes.color.needsUpdate = true;
+    pointGeometry.attributes.size.needsUpdate = true;
+    linesRef.current.geometry.setDrawRange(0, segments * 2);
+    linesRef.current.geometry.attributes.position.needsUpdate = true;
+  });
+
+  const pointUniforms = useMemo(() => ({ uSizeScale: { value: 1 } }), []);
+
+  // The buffers are rewritten in place, so bounding volumes would go stale: no culling
+  return (
+    <group>
+      <points ref={pointsRef} frustumCulled={false}>
+        <bufferGeometry>
+          <bufferAttribute attach="attributes-position" count={buffer.capacity} array={positions} itemSize={3} />
+          <bufferAttribute attach="attributes-color" count={buffer.capacity} array={colors} itemSize={3} />
+          <bufferAttribute attach="attributes-size" count={buffer.capacity} array={sizes} itemSize={1} />
+        </bufferGeometry>
+        <shaderMaterial
+          vertexColors
+          transparent
+          depthWrite={false}
+          blending={THREE.AdditiveBlending}
+          uniforms={pointUniforms}
+          vertexShader={POINT_VERTEX_SHADER}
+          fragmentShader={POINT_FRAGMENT_SHADER}
+        />
+      </points>
+
+      <lineSegments ref={linesRef} frustumCulled={false}>
+        <bufferGeometry>
+          <bufferAttribute
+            attach="attributes-position"
+            count={buffer.capacity * buffer.neighbors * 2}
+            array={linePositions}
+            itemSize={3}
+          />
+        </bufferGeometry>
+        <lineBasicMaterial color="#4488ff" transparent opacity={0.12} blending={THREE.AdditiveBlending} />
+      </lineSegments>
+    </group>
+  );
+}
+
 function AutoRotate({ enabled }: { enabled: boolean }) {
   const { camera } = useThree();
   const targetSpeedRef = useRef(0);
@@ -422,11 +801,99 @@ function AutoRotate({ enabled }: { enabled: boolean }) {
   return null;
 }
 
+// Mirrors the live camera pose into a ref so the page can build permalinks from it
+function CameraTracker({ poseRef }: { poseRef: MutableRefObject<CameraPose | null> }) {
+  const { camera } = useThree();
+  const controls = useThree((state) => state.controls) as unknown as { target: THREE.Vector3 } | null;
+
+  useFrame(() => {
+    const target = controls?.target;
+    poseRef.current = {
+      position: [camera.position.x, camera.position.y, camera.position.z],
+      target: target ? [target.x, target.y, target.z] : [0, 0, 0],
+    };
+  });
+
+  return null;
+}
+
+type CameraControls = { target: THREE.Vector3; update: () => void };
+
+// Glides the camera to a style's own framing whenever the visual style changes
+function CameraFraming({ visualStyle }: { visualStyle: VisualStyle }) {
+  const { camera } = useThree();
+  const controls = useThree((state) => state.controls) as unknown as CameraControls | null;
+  const previousStyleRef = useRef(visualStyle);
+  const tweenRef = useRef<{
+    fromPosition: THREE.Vector3;
+    fromTarget: THREE.Vector3;
+    toPosition: THREE.Vector3;
+    toTarget: THREE.Vector3;
+    elapsed: number;
+  } | null>(null);
+
+  useEffect(() => {
+    if (previousStyleRef.current === visualStyle) return;
+    previousStyleRef.current = visualStyle;
+
+    const pose = cameraFramingFor(visualStyle);
+    tweenRef.current = {
+      fromPosition: camera.position.clone(),
+      fromTarget: controls?.target.clone() ?? new THREE.Vector3(),
+      toPosition: new THREE.Vector3(...pose.position),
+      toTarget: new THREE.Vector3(...pose.target),
+      elapsed: 0,
+    };
+  }, [visualStyle, camera, controls]);
+
+  useFrame((_, delta) => {
+    const tween = tweenRef.current;
+    if (!tween) return;
+
+    tween.elapsed = Math.min(1, tween.elapsed + delta / FRAMING_DURATION);
+    const eased = tween.elapsed * tween.elapsed * (3 - 2 * tween.elapsed);
+    camera.position.lerpVectors(tween.fromPosition, tween.toPosition, eased);
+    if (controls) {
+      controls.target.lerpVectors(tween.fromTarget, tween.toTarget, eased);
+      controls.update();
+    } else {
+      camera.lookAt(tween.toTarget);
+    }
+    if (tween.elapsed >= 1) tweenRef.current = null;
+  });
+
+  return null;
+}
+
 export function VisualizationCanvas({
   data,
+  live,
   currentTime,
   settings,
+  onPointHover,
+  onPointSelect,
+  selectedPoint,
+  selection,
+  selectionTool,
+  onSelectPoints,
+  initialCamera,
+  cameraPoseRef,
 }: VisualizationCanvasProps) {
+  const selectionQueryRef = useRef<((polygon: ScreenPolygon) => number[]) | null>(null);
+
+  const handleSelectionComplete = useCallback(
+    (polygon: ScreenPolygon, additive: boolean) => {
+      const indices = selectionQueryRef.current?.(polygon) ?? [];
+      onSelectPoints?.(indices, additive ? "add" : "replace");
+    },
+    [onSelectPoints]
+  );
+
+  // A shared camera pose wins; otherwise open on the style's own framing.
+  // Later style switches are animated by CameraFraming instead.
+  const [startCamera] = useState(() => initialCamera ?? cameraFramingFor(settings.visualStyle));
+  const fog = STYLE_FOG[settings.visualStyle] ?? DEFAULT_FOG;
+
   return (
     <div className="absolute inset-0 z-0" data-testid="canvas-visualization">
       <Canvas
@@ -438,28 +905,45 @@ export function VisualizationCanvas({
         dpr={[1, 2]}
       >
         <color attach="background" args={["#0A0A0A"]} />
-        <fog attach="fog" args={["#0A0A0A", 10, 30]} />
+        <fog attach="fog" args={["#0A0A0A", fog[0], fog[1]]} />
 
-        <PerspectiveCamera makeDefault position={[0, 2, 12]} fov={60} />
+        <PerspectiveCamera makeDefault position={startCamera.position} fov={60} />
         <OrbitControls
+          makeDefault
+          target={startCamera.target}
           enableDamping
           dampingFactor={0.05}
           minDistance={3}
           maxDistance={30}
           enablePan={true}
           autoRotate={false}
+          enabled={!selectionTool}
         />
 
         <AutoRotate enabled={settings.autoRotate && !settings.isFullscreen} />
+        <CameraFraming visualStyle={settings.visualStyle} />
+        {cameraPoseRef && <CameraTracker poseRef={cameraPoseRef} />}
 
         <ambientLight intensity={0.1} />
 
-        <PointsVisualization
-          data={data}
-          currentTime={currentTime}
-          settings={settings}
-        />
+        {live ? (
+          <LivePointsVisualization buffer={live} />
+        ) : data && (
+          <PointsVisualization
+            data={data}
+            currentTime={currentTime}
+            settings={settings}
+            selectedPoint={selectedPoint}
+            selection={selection}
+            onPointHover={onPointHover}
+            onPointSelect={onPointSelect}
+            onSelectPoints={onSelectPoints}
+            selectionQueryRef={selectionQueryRef}
+          />
+        )}
       </Canvas>
+
+      {selectionTool && <SelectionOverlay tool={selectionTool} onComplete={handleSelectionComplete} />}
     </div>
   );
 }
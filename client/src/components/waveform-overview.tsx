@@ -0,0 +1,126 @@
+import { useState, useRef, useEffect, useMemo } from "react";
+import { decodeBase64 } from "@/lib/base64";
+import type { VisualizationData, WaveformPeaks } from "@shared/schema";
+
+interface WaveformOverviewProps {
+  data: VisualizationData;
+  waveform: WaveformPeaks;
+  currentTime: number;
+}
+
+interface DecodedLevel {
+  samplesPerPeak: number;
+  // Interleaved [min, max] pairs
+  pairs: Int8Array;
+}
+
+const UNPLAYED_COLOR = "rgba(255, 255, 255, 0.28)";
+const PLAYED_COLOR = "#00D9FF";
+const VERSE_SHADES = ["rgba(255, 255, 255, 0.05)", "rgba(255, 255, 255, 0.09)"];
+
+// Coarsest level that still has at least one peak per pixel
+function pickLevel(levels: DecodedLevel[], samplesPerPixel: number): DecodedLevel {
+  let chosen = levels[0];
+  for (const level of levels) {
+    if (level.samplesPerPeak <= samplesPerPixel) chosen = level;
+  }
+  return chosen;
+}
+
+function drawPeaks(canvas: HTMLCanvasElement, levels: DecodedLevel[], length: number, color: string): void {
+  const ctx = canvas.getContext("2d");
+  if (!ctx || levels.length === 0) return;
+  const { width, height } = canvas;
+  const samplesPerPixel = length / width;
+  const level = pickLevel(levels, samplesPerPixel);
+  const peaksPerPixel = samplesPerPixel / level.samplesPerPeak;
+  const peakCount = level.pairs.length / 2;
+  const mid = height / 2;
+
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  for (let x = 0; x < width; x++) {
+    const from = Math.floor(x * peaksPerPixel);
+    const to = Math.min(peakCount, Math.max(from + 1, Math.floor((x + 1) * peaksPerPixel)));
+    let lo = 0;
+    let hi = 0;
+    for (let p = from; p < to; p++) {
+      if (level.pairs[p * 2] < lo) lo = level.pairs[p * 2];
+      if (level.pairs[p * 2 + 1] > hi) hi = level.pairs[p * 2 + 1];
+    }
+    const top = mid - (hi / 127) * mid;
+    const bottom = mid - (lo / 127) * mid;
+    ctx.rect(x, top, 1, Math.max(1, bottom - top));
+  }
+  ctx.fill();
+}
+
+// Min/max overview drawn once per size; playback only moves the clip of the
+// highlighted copy, so long recordings cost nothing per frame
+export function WaveformOverview({ data, waveform, currentTime }: WaveformOverviewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const backgroundRef = useRef<HTMLCanvasElement>(null);
+  const playedRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  const levels = useMemo<DecodedLevel[]>(
+    () =>
+      waveform.levels.map((level) => {
+        const bytes = decodeBase64(level.data);
+        return {
+          samplesPerPeak: level.samplesPerPeak,
+          pairs: new Int8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+        };
+      }),
+    [waveform]
+  );
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const background = backgroundRef.current;
+    const played = playedRef.current;
+    if (!background || !played || size.width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    for (const canvas of [background, played]) {
+      canvas.width = Math.round(size.width * dpr);
+      canvas.height = Math.round(size.height * dpr);
+    }
+
+    const ctx = background.getContext("2d");
+    if (ctx) {
+      data.verses.forEach((verse, i) => {
+        ctx.fillStyle = VERSE_SHADES[i % VERSE_SHADES.length];
+        const x0 = (verse.start / data.duration) * background.width;
+        const x1 = (verse.end / data.duration) * background.width;
+        ctx.fillRect(x0, 0, Math.max(1, x1 - x0), background.height);
+      });
+    }
+    drawPeaks(background, levels, waveform.length, UNPLAYED_COLOR);
+    drawPeaks(played, levels, waveform.length, PLAYED_COLOR);
+  }, [size, levels, waveform.length, data.verses, data.duration]);
+
+  const progress = Math.min(1, Math.max(0, currentTime / data.duration));
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 pointer-events-none" data-testid="waveform-overview">
+      <canvas ref={backgroundRef} className="absolute inset-0 w-full h-full" />
+      <div className="absolute inset-y-0 left-0 overflow-hidden" style={{ width: `${progress * 100}%` }}>
+        <canvas
+          ref={playedRef}
+          className="absolute inset-y-0 left-0 h-full opacity-70"
+          style={{ width: size.width }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState, useCallback, useRef, useEffect } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import type { AnalysisJob, AnalysisStage, VisualizationData } from "@shared/schema";
+
+interface UseAnalysisJobOptions {
+  onComplete: (data: VisualizationData) => void;
+  onError: (message: string) => void;
+  onCancel?: () => void;
+}
+
+export const STAGE_LABELS: Record<AnalysisStage, string> = {
+  queued: "Waiting to start",
+  transcode: "Decoding audio",
+  frames: "Extracting spectral frames",
+  segmentation: "Finding phrases",
+  embedding: "Embedding MFCCs",
+  syllables: "Clustering syllables",
+  knn: "Building point network",
+};
+
+export function useAnalysisJob({ onComplete, onError, onCancel }: UseAnalysisJobOptions) {
+  const [job, setJob] = useState<AnalysisJob | null>(null);
+  const sourceRef = useRef<EventSource | null>(null);
+  // The job being followed, so a result that loads after another job was
+  // started is dropped
+  const trackedRef = useRef<string | null>(null);
+
+  const close = useCallback(() => {
+    sourceRef.current?.close();
+    sourceRef.current = null;
+    trackedRef.current = null;
+  }, []);
+
+  const load = useCallback(async (jobId: string, analysisId: string) => {
+    let data: VisualizationData;
+    try {
+      const res = await apiRequest("GET", `/api/analyses/${analysisId}`);
+      data = await res.json();
+    } catch {
+      if (trackedRef.current === jobId) onError("Failed to load the analysis");
+      return;
+    }
+    if (trackedRef.current === jobId) onComplete(data);
+  }, [onComplete, onError]);
+
+  const track = useCallback((jobId: string) => {
+    close();
+    trackedRef.current = jobId;
+    setJob({ id: jobId, status: "pending", stage: "queued", progress: 0 });
+
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+    sourceRef.current = source;
+
+    source.onmessage = (event) => {
+      const update: AnalysisJob = JSON.parse(event.data);
+      setJob(update);
+
+      if (update.status === "completed" && update.analysisId) {
+        sourceRef.current?.close();
+        sourceRef.current = null;
+        void load(jobId, update.analysisId);
+      } else if (update.status === "failed") {
+        close();
+        onError(update.error || "Failed to analyze audio");
+      } else if (update.status === "cancelled") {
+        close();
+        onCancel?.();
+      }
+    };
+
+    source.onerror = () => {
+      // EventSource reconnects on its own while the stream is open; a closed
+      // stream before a terminal status means the job is gone
+      if (source.readyState === EventSource.CLOSED && sourceRef.current === source) {
+        close();
+        onError("Lost connection to the analysis job");
+      }
+    };
+  }, [close, load, onError, onCancel]);
+
+  const cancel = useCallback(async () => {
+    if (!job) return;
+    try {
+      await apiRequest("DELETE", `/api/jobs/${job.id}`);
+    } catch {
+      // The job may already have finished; the event stream reports the outcome
+    }
+  }, [job]);
+
+  useEffect(() => close, [close]);
+
+  return { job, track, cancel };
+}
@@ -0,0 +1,184 @@
+import { useState, useCallback, useRef, useEffect } from "react";
+import liveWorkletUrl from "@/lib/live-mfcc-worklet.ts?worker&url";
+import { LIVE_PROCESSOR_NAME, type LiveFrameMessage, type LiveFrameOptions } from "@/lib/live-frames";
+import { LivePointBuffer, type LiveBasisMode } from "@/lib/live-point-buffer";
+import { TRANSCODE_SAMPLE_RATE } from "@shared/audio-formats";
+import type { AnalysisOptions } from "@shared/schema";
+
+export type LiveStatus = "idle" | "starting" | "live";
+
+interface UseLiveAnalysisOptions {
+  // Frame, mel and MFCC settings are shared with uploads so both land in comparable spaces
+  options: AnalysisOptions;
+  // Points kept on screen; older ones are overwritten
+  capacity: number;
+  basisMode: LiveBasisMode;
+}
+
+export interface LiveStats {
+  // Peak-held input level, 0-1
+  level: number;
+  points: number;
+  elapsed: number;
+  sampleRate: number;
+  calibrating: boolean;
+}
+
+const LEVEL_DECAY = 0.92;
+const IDLE_STATS: LiveStats = { level: 0, points: 0, elapsed: 0, sampleRate: 0, calibrating: false };
+
+export function useLiveAnalysis({ options, capacity, basisMode }: UseLiveAnalysisOptions) {
+  const [status, setStatus] = useState<LiveStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [stats, setStats] = useState<LiveStats>(IDLE_STATS);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [buffer] = useState(
+    () =>
+      new LivePointBuffer({
+        capacity,
+        dim: options.mfccCount,
+        neighbors: options.neighbors,
+        silenceThreshold: options.silenceThreshold,
+        basisMode,
+      })
+  );
+
+  const contextRef = useRef<AudioContext | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const nodeRef = useRef<AudioWorkletNode | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const levelRef = useRef(0);
+  // Bumped by stop(), so a start() still awaiting permission knows it was abandoned
+  const sessionRef = useRef(0);
+
+  useEffect(() => {
+    buffer.basisMode = basisMode;
+  }, [buffer, basisMode]);
+
+  const refreshDevices = useCallback(async () => {
+    const all = await navigator.mediaDevices.enumerateDevices();
+    setDevices(all.filter((device) => device.kind === "audioinput"));
+  }, []);
+
+  useEffect(() => {
+    refreshDevices().catch(() => setDevices([]));
+  }, [refreshDevices]);
+
+  const stop = useCallback(() => {
+    sessionRef.current++;
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    if (nodeRef.current) nodeRef.current.port.onmessage = null;
+    nodeRef.current?.disconnect();
+    nodeRef.current = null;
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    contextRef.current?.close();
+    contextRef.current = null;
+    levelRef.current = 0;
+    setStats((prev) => ({ ...prev, level: 0 }));
+    setStatus("idle");
+  }, []);
+
+  const start = useCallback(async (deviceId?: string) => {
+    stop();
+    const session = sessionRef.current;
+    setError(null);
+    setStatus("starting");
+
+    let stream: MediaStream;
+    try {
+      // Voice processing would smear exactly the detail we want to analyze
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          deviceId: deviceId ? { exact: deviceId } : undefined,
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false,
+        },
+      });
+    } catch (err) {
+      const denied = err instanceof DOMException && err.name === "NotAllowedError";
+      setError(denied ? "Microphone access was denied." : "The selected input is not available.");
+      setStatus("idle");
+      return;
+    }
+    if (sessionRef.current !== session) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+    streamRef.current = stream;
+    // Device labels are only exposed once permission has been granted
+    refreshDevices().catch(() => undefined);
+
+    // The browser resamples the microphone to the rate uploads are analyzed at
+    const context = new AudioContext({ sampleRate: TRANSCODE_SAMPLE_RATE });
+    contextRef.current = context;
+    try {
+      await context.audioWorklet.addModule(liveWorkletUrl);
+    } catch {
+      if (sessionRef.current !== session) return;
+      stop();
+      setError("This browser can't run the live analyzer (AudioWorklet unavailable).");
+      return;
+    }
+    if (sessionRef.current !== session) return;
+
+    const processorOptions: LiveFrameOptions = {
+      frameSize: options.frameSize,
+      hopSize: options.hopSize,
+      melFilters: options.melFilters,
+      mfccCount: options.mfccCount,
+    };
+    // No outputs: the node only analyzes, and output-less worklets are always rendered
+    const node = new AudioWorkletNode(context, LIVE_PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      processorOptions,
+    });
+    nodeRef.current = node;
+
+    // Times continue from the previous session so restarting doesn't reset point ages
+    const startedAt = context.currentTime - buffer.latestTime;
+    node.port.onmessage = (event: MessageEvent<LiveFrameMessage>) => {
+      const frame = { ...event.data, t: event.data.t - startedAt };
+      levelRef.current = Math.max(frame.amplitude * Math.SQRT2, levelRef.current);
+      buffer.push(frame);
+    };
+    try {
+      context.createMediaStreamSource(stream).connect(node);
+    } catch {
+      // Browsers that can't resample a media stream refuse the connection
+      stop();
+      setError(`This browser can't analyze the microphone at ${TRANSCODE_SAMPLE_RATE / 1000} kHz.`);
+      return;
+    }
+
+    // Stats are sampled per animation frame rather than per analysis frame
+    const tick = () => {
+      levelRef.current *= LEVEL_DECAY;
+      setStats({
+        level: Math.min(1, levelRef.current),
+        points: buffer.size,
+        elapsed: context.currentTime - startedAt,
+        sampleRate: context.sampleRate,
+        calibrating: buffer.isCalibrating,
+      });
+      frameRef.current = requestAnimationFrame(tick);
+    };
+
+    await context.resume();
+    if (sessionRef.current !== session) return;
+    setStatus("live");
+    frameRef.current = requestAnimationFrame(tick);
+  }, [options, buffer, stop, refreshDevices]);
+
+  const clear = useCallback(() => {
+    buffer.clear();
+    setStats((prev) => ({ ...prev, points: 0 }));
+  }, [buffer]);
+
+  useEffect(() => stop, [stop]);
+
+  return { status, error, stats, devices, buffer, start, stop, clear };
+}
@@ -0,0 +1,146 @@
+import { useState, useCallback, useRef, useEffect } from "react";
+
+export type RecorderStatus = "idle" | "requesting" | "recording" | "recorded";
+
+export interface RecordedTake {
+  blob: Blob;
+  // File extension matching the container MediaRecorder produced
+  extension: string;
+  // Decoded once so the take can be drawn, previewed and trimmed
+  audio: AudioBuffer;
+}
+
+interface UseRecorderOptions {
+  // Recording stops by itself after this many seconds
+  maxDuration: number;
+}
+
+// Opus in WebM (Chrome, Firefox) or Ogg (older Firefox); Safari falls back to its own default
+const PREFERRED_MIME_TYPES = ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/webm", "audio/ogg"];
+// Peak-hold falloff per animation frame for the level meter
+const LEVEL_DECAY = 0.92;
+
+function pickMimeType(): string | undefined {
+  return PREFERRED_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+function extensionFor(mimeType: string): string {
+  if (mimeType.includes("ogg")) return "ogg";
+  if (mimeType.includes("mp4")) return "m4a";
+  return "webm";
+}
+
+export function useRecorder({ maxDuration }: UseRecorderOptions) {
+  const [status, setStatus] = useState<RecorderStatus>("idle");
+  const [level, setLevel] = useState(0);
+  const [elapsed, setElapsed] = useState(0);
+  const [take, setTake] = useState<RecordedTake | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const contextRef = useRef<AudioContext | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  const releaseInput = useCallback(() => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setLevel(0);
+  }, []);
+
+  const stop = useCallback(() => {
+    if (recorderRef.current?.state === "recording") recorderRef.current.stop();
+  }, []);
+
+  const start = useCallback(async () => {
+    setError(null);
+    setTake(null);
+    setStatus("requesting");
+
+    let stream: MediaStream;
+    try {
+      // Browser voice processing would smear exactly the detail we want to analyze
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+      });
+    } catch (err) {
+      const denied = err instanceof DOMException && err.name === "NotAllowedError";
+      setError(denied ? "Microphone access was denied." : "No microphone is available.");
+      setStatus("idle");
+      return;
+    }
+    streamRef.current = stream;
+
+    const context = contextRef.current ?? new AudioContext();
+    contextRef.current = context;
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    context.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    const recorder = new MediaRecorder(stream, { mimeType: pickMimeType() });
+    recorderRef.current = recorder;
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = async () => {
+      releaseInput();
+      const blob = new Blob(chunks, { type: recorder.mimeType });
+      try {
+        const audio = await context.decodeAudioData(await blob.arrayBuffer());
+        setTake({ blob, extension: extensionFor(recorder.mimeType), audio });
+        setStatus("recorded");
+      } catch {
+        setError("The recording could not be decoded.");
+        setStatus("idle");
+      }
+    };
+
+    const startedAt = performance.now();
+    let held = 0;
+    const meter = () => {
+      analyser.getFloatTimeDomainData(samples);
+      let peak = 0;
+      for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+      held = Math.max(peak, held * LEVEL_DECAY);
+      setLevel(held);
+
+      const seconds = (performance.now() - startedAt) / 1000;
+      setElapsed(seconds);
+      if (seconds >= maxDuration) {
+        stop();
+        return;
+      }
+      frameRef.current = requestAnimationFrame(meter);
+    };
+
+    await context.resume();
+    recorder.start();
+    setElapsed(0);
+    setStatus("recording");
+    frameRef.current = requestAnimationFrame(meter);
+  }, [maxDuration, releaseInput, stop]);
+
+  const discard = useCallback(() => {
+    setTake(null);
+    setElapsed(0);
+    setStatus("idle");
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      const recorder = recorderRef.current;
+      if (recorder) {
+        recorder.onstop = null;
+        if (recorder.state === "recording") recorder.stop();
+      }
+      releaseInput();
+      contextRef.current?.close();
+    };
+  }, [releaseInput]);
+
+  return { status, level, elapsed, take, error, start, stop, discard };
+}
@@ -0,0 +1,7 @@
+// Binary payloads (spectrogram cells, waveform peaks) arrive base64-encoded in JSON
+export function decodeBase64(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
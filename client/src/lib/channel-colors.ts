@@ -0,0 +1,27 @@
+import type { VisualizationData } from "@shared/schema";
+
+// Fixed hues so left and right keep their colours from recording to recording
+const CHANNEL_HUES = [190, 320, 50, 130, 265, 20, 90, 225];
+
+export function channelColor(channel: number | undefined): string {
+  const hue = CHANNEL_HUES[(channel ?? 0) % CHANNEL_HUES.length];
+  return `hsl(${hue}, 80%, 60%)`;
+}
+
+// Stereo reads as L/R; larger arrays are numbered from 1
+export function channelLabel(channel: number, count: number): string {
+  if (count === 2) return channel === 0 ? "L" : "R";
+  return `Ch ${channel + 1}`;
+}
+
+// Points of each channel cloud, indexed by channel; empty unless channels were analyzed separately
+export function countChannelPoints(data: VisualizationData): number[] {
+  const counts: number[] = [];
+  for (const verse of data.verses) {
+    for (const point of verse.points) {
+      if (point.channel === undefined) continue;
+      counts[point.channel] = (counts[point.channel] ?? 0) + 1;
+    }
+  }
+  return Array.from(counts, (count) => count ?? 0);
+}
@@ -0,0 +1,73 @@
+import type { Verse, VisualizationPoint } from "@shared/schema";
+
+// Each phrase becomes one spiral arm: time within the phrase sweeps the angle
+// and pushes outward, pitch sets the height above the disc and timbre
+// (spectral centroid) widens or tightens the arm around its centre line
+const CORE_RADIUS = 0.8;
+const ARM_GROWTH = 5;
+const ARM_SWEEP = Math.PI * 1.5;
+const TIMBRE_SPREAD = 0.35;
+const HEIGHT_RANGE = 1.4;
+
+// Same range and voicing cut-off as the analyzer's YIN tracker
+const PITCH_MIN_HZ = 250;
+const PITCH_MAX_HZ = 10000;
+const VOICED_CONFIDENCE = 0.85;
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+function pointPitch(point: VisualizationPoint): number {
+  const voiced = (point.pitchConfidence ?? 0) >= VOICED_CONFIDENCE && (point.pitch ?? 0) > 0;
+  return voiced ? point.pitch! : point.frequency ?? 0;
+}
+
+function normalizedLogPitch(hz: number): number {
+  if (hz <= 0) return 0.5;
+  return clamp01(Math.log(hz / PITCH_MIN_HZ) / Math.log(PITCH_MAX_HZ / PITCH_MIN_HZ));
+}
+
+// World positions for every point, in the same order as verses.flatMap(v => v.points)
+export function computeGalaxyLayout(verses: Verse[]): Float32Array {
+  const pointCount = verses.reduce((sum, verse) => sum + verse.points.length, 0);
+  const positions = new Float32Array(pointCount * 3);
+
+  // Robust centroid range so a few noisy frames don't flatten every arm
+  const centroids = verses
+    .flatMap((verse) => verse.points.map((point) => point.centroid))
+    .filter((c): c is number => c !== undefined)
+    .sort((a, b) => a - b);
+  const centroidLow = percentile(centroids, 0.05);
+  const centroidHigh = percentile(centroids, 0.95);
+  const centroidRange = centroidHigh - centroidLow;
+
+  let index = 0;
+  verses.forEach((verse, verseIndex) => {
+    const armOffset = (2 * Math.PI * verseIndex) / Math.max(1, verses.length);
+    const span = Math.max(verse.end - verse.start, 1e-6);
+
+    for (const point of verse.points) {
+      const progress = clamp01((point.time - verse.start) / span);
+      const timbre = point.centroid !== undefined && centroidRange > 0
+        ? clamp01((point.centroid - centroidLow) / centroidRange)
+        : 0.5;
+
+      const angle = armOffset + progress * ARM_SWEEP;
+      const radius = (CORE_RADIUS + progress * ARM_GROWTH) * (1 + (timbre - 0.5) * 2 * TIMBRE_SPREAD);
+      const height = (normalizedLogPitch(pointPitch(point)) - 0.5) * 2 * HEIGHT_RANGE;
+
+      positions[index * 3] = Math.cos(angle) * radius;
+      positions[index * 3 + 1] = height;
+      positions[index * 3 + 2] = Math.sin(angle) * radius;
+      index++;
+    }
+  });
+
+  return positions;
+}
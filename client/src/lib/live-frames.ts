@@ -0,0 +1,19 @@
+// Contract between the live AudioWorklet and the page. Kept apart from the
+// worklet module, which registers itself on import and only runs in the worklet scope.
+
+export const LIVE_PROCESSOR_NAME = "live-mfcc";
+
+export interface LiveFrameOptions {
+  frameSize: number;
+  hopSize: number;
+  melFilters: number;
+  mfccCount: number;
+}
+
+export interface LiveFrameMessage {
+  // Audio-context time of the frame start, in seconds
+  t: number;
+  mfccs: Float32Array;
+  amplitude: number;
+  frequency: number;
+}
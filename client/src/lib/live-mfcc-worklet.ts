@@ -0,0 +1,84 @@
+// AudioWorklet processor for live mode. Runs on the audio rendering thread and
+// posts one analysis frame per hop, computed with the offline analyzer's DSP.
+// Loaded through Vite's ?worker&url, so it is bundled with its imports.
+import {
+  calculateDominantFrequency,
+  computeFFT,
+  computeRMS,
+  createMelFilterbank,
+  extractMFCCsFromFFT,
+} from "@shared/dsp";
+import { LIVE_PROCESSOR_NAME, type LiveFrameMessage, type LiveFrameOptions } from "@/lib/live-frames";
+
+// The worklet global scope isn't part of the DOM lib
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: { processorOptions?: unknown });
+}
+declare function registerProcessor(
+  name: string,
+  processor: new (options: { processorOptions: LiveFrameOptions }) => AudioWorkletProcessor
+): void;
+
+class LiveMfccProcessor extends AudioWorkletProcessor {
+  private readonly options: LiveFrameOptions;
+  private readonly filterbank: number[][];
+  // Circular history of the last frameSize samples
+  private readonly history: Float32Array;
+  private readonly frame: Float32Array;
+  private writeIndex = 0;
+  private filled = 0;
+  private sinceHop = 0;
+
+  constructor(init: { processorOptions: LiveFrameOptions }) {
+    super();
+    this.options = init.processorOptions;
+    const { frameSize, melFilters } = this.options;
+    this.filterbank = createMelFilterbank(melFilters, frameSize, sampleRate);
+    this.history = new Float32Array(frameSize);
+    this.frame = new Float32Array(frameSize);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) return true;
+
+    const { frameSize, hopSize } = this.options;
+    const blockLength = channels[0].length;
+    for (let i = 0; i < blockLength; i++) {
+      // Line inputs can be stereo; analyze the mixdown like a mono upload
+      let sample = 0;
+      for (const channel of channels) sample += channel[i];
+      this.history[this.writeIndex] = sample / channels.length;
+      this.writeIndex = (this.writeIndex + 1) % frameSize;
+      if (this.filled < frameSize) this.filled++;
+
+      if (++this.sinceHop >= hopSize && this.filled === frameSize) {
+        this.sinceHop = 0;
+        this.emitFrame(currentTime + (i + 1 - frameSize) / sampleRate);
+      }
+    }
+    return true;
+  }
+
+  private emitFrame(t: number): void {
+    const { frameSize, mfccCount } = this.options;
+    // Unroll the circular history, oldest sample first
+    const tail = frameSize - this.writeIndex;
+    this.frame.set(this.history.subarray(this.writeIndex), 0);
+    this.frame.set(this.history.subarray(0, this.writeIndex), tail);
+
+    const fft = computeFFT(this.frame, 0, frameSize);
+    const message: LiveFrameMessage = {
+      t,
+      mfccs: Float32Array.from(extractMFCCsFromFFT(fft, this.filterbank, mfccCount)),
+      amplitude: computeRMS(this.frame, 0, frameSize),
+      frequency: calculateDominantFrequency(fft, sampleRate, frameSize),
+    };
+    this.port.postMessage(message, [message.mfccs.buffer]);
+  }
+}
+
+registerProcessor(LIVE_PROCESSOR_NAME, LiveMfccProcessor);
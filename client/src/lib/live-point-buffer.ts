@@ -0,0 +1,184 @@
+import { IncrementalPCA } from "@shared/incremental-pca";
+import type { LiveFrameMessage } from "@/lib/live-frames";
+
+// "adaptive" keeps refining the basis as the bird sings; "fixed" freezes it
+// after a calibration period so the space stops moving
+export type LiveBasisMode = "adaptive" | "fixed";
+
+interface LivePointBufferOptions {
+  capacity: number;
+  // MFCC dimensions fed to the PCA
+  dim: number;
+  // Edges drawn from each new point to its nearest buffered points
+  neighbors: number;
+  // Fraction of the running peak level below which frames count as silence
+  silenceThreshold: number;
+  basisMode: LiveBasisMode;
+}
+
+// The adaptive basis weighs recent frames most; ~2000 frames is ~10 s at a 256-sample hop
+const ADAPTIVE_FORGETTING = 0.9995;
+// Frames that train the fixed basis before it is frozen
+const CALIBRATION_FRAMES = 400;
+const REFIT_INTERVAL = 48;
+// Same extent as the offline embeddings: ±SPREAD_SIGMAS standard deviations of
+// the first component land at ±EXTENT
+const EXTENT = 5;
+const SPREAD_SIGMAS = 2.5;
+// Running peak falloff per accepted frame for the silence gate
+const PEAK_DECAY = 0.9995;
+
+// Fixed-capacity ring of live analysis frames with their 3D positions and a
+// growing kNN graph. Written from the worklet's message handler and read every
+// animation frame; `version` changes whenever the contents do.
+export class LivePointBuffer {
+  readonly capacity: number;
+  readonly dim: number;
+  readonly neighbors: number;
+  readonly positions: Float32Array;
+  readonly times: Float64Array;
+  readonly amplitudes: Float32Array;
+  readonly frequencies: Float32Array;
+  // Target slot of each point's edges, -1 when unused
+  readonly edges: Int32Array;
+  version = 0;
+  // Frames accepted since the last clear; the newest is in slot (written - 1) % capacity
+  written = 0;
+  latestTime = 0;
+  peakAmplitude = 0;
+
+  private readonly options: LivePointBufferOptions;
+  private readonly mfccs: Float32Array;
+  // Write serial per slot, so edges to overwritten points can be detected
+  private readonly serials: Float64Array;
+  private readonly edgeSerials: Float64Array;
+  private pca: IncrementalPCA;
+  private scale = 1;
+  private sinceFit = 0;
+
+  constructor(options: LivePointBufferOptions) {
+    this.options = { ...options };
+    const { capacity, dim, neighbors } = options;
+    this.capacity = capacity;
+    this.dim = dim;
+    this.neighbors = neighbors;
+    this.positions = new Float32Array(capacity * 3);
+    this.times = new Float64Array(capacity);
+    this.amplitudes = new Float32Array(capacity);
+    this.frequencies = new Float32Array(capacity);
+    this.edges = new Int32Array(capacity * neighbors).fill(-1);
+    this.mfccs = new Float32Array(capacity * dim);
+    this.serials = new Float64Array(capacity).fill(-1);
+    this.edgeSerials = new Float64Array(capacity * neighbors);
+    this.pca = new IncrementalPCA(dim, { forgetting: ADAPTIVE_FORGETTING });
+  }
+
+  get size(): number {
+    return Math.min(this.written, this.capacity);
+  }
+
+  get basisMode(): LiveBasisMode {
+    return this.options.basisMode;
+  }
+
+  set basisMode(mode: LiveBasisMode) {
+    this.options.basisMode = mode;
+  }
+
+  get isCalibrating(): boolean {
+    return this.options.basisMode === "fixed" && this.pca.count < CALIBRATION_FRAMES;
+  }
+
+  // Whether the edge is drawable: its target hasn't been overwritten since it was linked
+  isEdgeLive(slot: number, k: number): boolean {
+    const target = this.edges[slot * this.neighbors + k];
+    return target >= 0 && this.serials[target] === this.edgeSerials[slot * this.neighbors + k];
+  }
+
+  clear(): void {
+    this.written = 0;
+    this.latestTime = 0;
+    this.peakAmplitude = 0;
+    this.serials.fill(-1);
+    this.edges.fill(-1);
+    this.pca = new IncrementalPCA(this.dim, { forgetting: ADAPTIVE_FORGETTING });
+    this.scale = 1;
+    this.sinceFit = 0;
+    this.version++;
+  }
+
+  // Adds a frame unless it is below the silence gate; returns whether it was kept
+  push(frame: LiveFrameMessage): boolean {
+    this.latestTime = frame.t;
+    this.peakAmplitude = Math.max(frame.amplitude, this.peakAmplitude * PEAK_DECAY);
+    if (frame.amplitude < this.peakAmplitude * this.options.silenceThreshold) return false;
+
+    const { capacity, dim } = this;
+    const slot = this.written % capacity;
+    const vector = this.mfccs.subarray(slot * dim, (slot + 1) * dim);
+    vector.fill(0);
+    vector.set(frame.mfccs.subarray(0, dim));
+    this.times[slot] = frame.t;
+    this.amplitudes[slot] = frame.amplitude;
+    this.frequencies[slot] = frame.frequency;
+    this.serials[slot] = this.written;
+    this.written++;
+
+    const learning = this.options.basisMode === "adaptive" || this.pca.count < CALIBRATION_FRAMES;
+    if (learning) this.pca.update(vector);
+    this.sinceFit++;
+
+    const due = !this.pca.isFitted
+      ? this.pca.count >= 2 * dim
+      : learning && (this.sinceFit >= REFIT_INTERVAL || this.pca.count === CALIBRATION_FRAMES);
+    if (due && this.pca.fit()) {
+      this.sinceFit = 0;
+      this.scale = EXTENT / (SPREAD_SIGMAS * Math.sqrt(this.pca.variances[0]));
+      // Earlier points move with the basis; their edges are kept as history
+      for (let i = 0; i < this.size; i++) this.projectSlot(i);
+    } else {
+      this.projectSlot(slot);
+    }
+
+    this.linkNearest(slot);
+    this.version++;
+    return true;
+  }
+
+  private projectSlot(slot: number): void {
+    const { dim, positions } = this;
+    const vector = this.mfccs.subarray(slot * dim, (slot + 1) * dim);
+    const projected = this.pca.project(vector);
+    // Before the first fit, the same first-three-MFCC fallback the analyzer uses
+    positions[slot * 3] = projected ? projected[0] * this.scale : vector[0] * 0.1;
+    positions[slot * 3 + 1] = projected ? projected[1] * this.scale : vector[1] * 0.1;
+    positions[slot * 3 + 2] = projected ? projected[2] * this.scale : vector[2] * 0.1;
+  }
+
+  private linkNearest(slot: number): void {
+    const { neighbors, positions } = this;
+    const best = new Array<{ index: number; dist: number }>();
+    const x = positions[slot * 3];
+    const y = positions[slot * 3 + 1];
+    const z = positions[slot * 3 + 2];
+
+    for (let i = 0; i < this.size; i++) {
+      if (i === slot) continue;
+      const dx = positions[i * 3] - x;
+      const dy = positions[i * 3 + 1] - y;
+      const dz = positions[i * 3 + 2] - z;
+      const dist = dx * dx + dy * dy + dz * dz;
+      if (best.length === neighbors && dist >= best[neighbors - 1].dist) continue;
+      let at = best.length;
+      while (at > 0 && best[at - 1].dist > dist) at--;
+      best.splice(at, 0, { index: i, dist });
+      if (best.length > neighbors) best.pop();
+    }
+
+    for (let k = 0; k < neighbors; k++) {
+      const target = best[k]?.index ?? -1;
+      this.edges[slot * neighbors + k] = target;
+      this.edgeSerials[slot * neighbors + k] = target >= 0 ? this.serials[target] : -1;
+    }
+  }
+}
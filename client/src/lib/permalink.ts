@@ -0,0 +1,68 @@
+import { visualStyleSchema, type VisualStyle } from "@shared/schema";
+
+export type Vector3Tuple = [number, number, number];
+
+export interface CameraPose {
+  position: Vector3Tuple;
+  target: Vector3Tuple;
+}
+
+export interface PermalinkState {
+  time?: number;
+  visualStyle?: VisualStyle;
+  camera?: CameraPose;
+}
+
+function parseNumberList(value: string | null, length: number): number[] | null {
+  if (!value) return null;
+  const numbers = value.split(",").map(Number);
+  if (numbers.length !== length || numbers.some((n) => !Number.isFinite(n))) return null;
+  return numbers;
+}
+
+// Query string layout: ?t=<seconds>&style=<visual style>&cam=<px,py,pz,tx,ty,tz>
+export function parsePermalinkSearch(search: string): PermalinkState {
+  const params = new URLSearchParams(search);
+  const state: PermalinkState = {};
+
+  const time = Number(params.get("t"));
+  if (params.has("t") && Number.isFinite(time) && time >= 0) {
+    state.time = time;
+  }
+
+  const style = visualStyleSchema.safeParse(params.get("style"));
+  if (style.success) {
+    state.visualStyle = style.data;
+  }
+
+  const cam = parseNumberList(params.get("cam"), 6);
+  if (cam) {
+    state.camera = {
+      position: [cam[0], cam[1], cam[2]],
+      target: [cam[3], cam[4], cam[5]],
+    };
+  }
+
+  return state;
+}
+
+export function visualizationPath(analysisId: string): string {
+  return `/v/${analysisId}`;
+}
+
+export function buildPermalink(analysisId: string, state: PermalinkState): string {
+  const params = new URLSearchParams();
+  if (state.time !== undefined) {
+    params.set("t", state.time.toFixed(2));
+  }
+  if (state.visualStyle) {
+    params.set("style", state.visualStyle);
+  }
+  if (state.camera) {
+    const { position, target } = state.camera;
+    params.set("cam", [...position, ...target].map((n) => n.toFixed(3)).join(","));
+  }
+
+  const query = params.toString();
+  return `${window.location.origin}${visualizationPath(analysisId)}${query ? `?${query}` : ""}`;
+}
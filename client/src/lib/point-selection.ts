@@ -0,0 +1,232 @@
+import type { VisualizationData, VisualizationPoint } from "@shared/schema";
+
+export type SelectionTool = "box" | "lasso";
+export type SelectionMode = "replace" | "add" | "toggle";
+export type TimeRange = [number, number];
+export type ScreenPolygon = [number, number][];
+
+export interface FrequencyBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface VerseMembership {
+  id: number;
+  name: string;
+  count: number;
+}
+
+export interface SelectionStats {
+  count: number;
+  timeStart: number;
+  timeEnd: number;
+  // Seconds of audio actually covered by the selected points
+  coveredDuration: number;
+  mfccMean: number[];
+  mfccVariance: number[];
+  frequencyHistogram: FrequencyBin[];
+  verses: VerseMembership[];
+}
+
+interface IndexedPoint {
+  point: VisualizationPoint;
+  verseIndex: number;
+  // Time until the next point of the same verse (points are downsampled frames)
+  span: number;
+}
+
+const FREQUENCY_BIN_HZ = 1000;
+const FREQUENCY_BINS = 10;
+// Ranges closer than this are merged so playback doesn't stutter between points
+const RANGE_MERGE_GAP = 0.05;
+
+// One entry per point, in the same flattened order as PointsVisualization's allPoints
+function indexPoints(data: VisualizationData): IndexedPoint[] {
+  const indexed: IndexedPoint[] = [];
+  data.verses.forEach((verse, verseIndex) => {
+    // Split-channel clouds repeat every time once per channel
+    const times = Array.from(new Set(verse.points.map((p) => p.time))).sort((a, b) => a - b);
+    const gaps = times.slice(1).map((t, i) => t - times[i]).sort((a, b) => a - b);
+    const typicalGap = gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 0;
+    for (const point of verse.points) {
+      indexed.push({ point, verseIndex, span: typicalGap });
+    }
+  });
+  return indexed;
+}
+
+export function applySelection(current: number[], indices: number[], mode: SelectionMode): number[] {
+  if (mode === "replace") return Array.from(new Set(indices)).sort((a, b) => a - b);
+
+  const next = new Set(current);
+  for (const index of indices) {
+    if (mode === "toggle" && next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+  }
+  return Array.from(next).sort((a, b) => a - b);
+}
+
+// Even-odd ray casting test in screen space
+export function pointInPolygon(x: number, y: number, polygon: ScreenPolygon): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Indices (in flattened order) of the points whose time falls inside the range
+export function pointsInTimeRange(data: VisualizationData, [start, end]: TimeRange): number[] {
+  const indices: number[] = [];
+  let index = 0;
+  for (const verse of data.verses) {
+    for (const point of verse.points) {
+      if (point.time >= start && point.time <= end) indices.push(index);
+      index++;
+    }
+  }
+  return indices;
+}
+
+// Merged playback ranges covering every selected point, in time order
+export function selectionTimeRanges(data: VisualizationData, indices: number[]): TimeRange[] {
+  const indexed = indexPoints(data);
+  const ranges = indices
+    .filter((i) => i < indexed.length)
+    .map((i): TimeRange => [indexed[i].point.time, indexed[i].point.time + indexed[i].span])
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: TimeRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1] + RANGE_MERGE_GAP) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], Math.min(range[1], data.duration)]);
+    }
+  }
+  return merged;
+}
+
+export function computeSelectionStats(data: VisualizationData, indices: number[]): SelectionStats | null {
+  const indexed = indexPoints(data);
+  const selected = indices.filter((i) => i < indexed.length).map((i) => indexed[i]);
+  if (selected.length === 0) return null;
+
+  const dims = Math.max(...selected.map(({ point }) => point.mfccs.length));
+  const mfccMean = new Array(dims).fill(0);
+  const mfccVariance = new Array(dims).fill(0);
+  for (const { point } of selected) {
+    for (let d = 0; d < dims; d++) mfccMean[d] += (point.mfccs[d] ?? 0) / selected.length;
+  }
+  for (const { point } of selected) {
+    for (let d = 0; d < dims; d++) mfccVariance[d] += ((point.mfccs[d] ?? 0) - mfccMean[d]) ** 2 / selected.length;
+  }
+
+  const frequencyHistogram: FrequencyBin[] = Array.from({ length: FREQUENCY_BINS }, (_, i) => ({
+    from: i * FREQUENCY_BIN_HZ,
+    to: i === FREQUENCY_BINS - 1 ? Infinity : (i + 1) * FREQUENCY_BIN_HZ,
+    count: 0,
+  }));
+  for (const { point } of selected) {
+    const bin = Math.min(FREQUENCY_BINS - 1, Math.floor((point.frequency ?? 0) / FREQUENCY_BIN_HZ));
+    frequencyHistogram[bin].count++;
+  }
+
+  const verseCounts = new Map<number, number>();
+  for (const { verseIndex } of selected) {
+    verseCounts.set(verseIndex, (verseCounts.get(verseIndex) ?? 0) + 1);
+  }
+  const verses = Array.from(verseCounts.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([verseIndex, count]) => ({
+      id: data.verses[verseIndex].id,
+      name: data.verses[verseIndex].name,
+      count,
+    }));
+
+  const times = selected.map(({ point }) => point.time);
+  const ranges = selectionTimeRanges(data, indices);
+
+  return {
+    count: selected.length,
+    timeStart: Math.min(...times),
+    timeEnd: Math.max(...times),
+    coveredDuration: ranges.reduce((sum, [start, end]) => sum + (end - start), 0),
+    mfccMean,
+    mfccVariance,
+    frequencyHistogram,
+    verses,
+  };
+}
+
+export function selectionToJson(data: VisualizationData, indices: number[]): string {
+  const indexed = indexPoints(data);
+  return JSON.stringify(
+    {
+      analysisId: data.analysisId,
+      audioUrl: data.audioUrl,
+      stats: computeSelectionStats(data, indices),
+      ranges: selectionTimeRanges(data, indices),
+      points: indices
+        .filter((i) => i < indexed.length)
+        .map((i) => ({
+          index: i,
+          verse: data.verses[indexed[i].verseIndex].name,
+          ...indexed[i].point,
+        })),
+    },
+    null,
+    2
+  );
+}
+
+export function selectionToCsv(data: VisualizationData, indices: number[]): string {
+  const indexed = indexPoints(data);
+  const selected = indices.filter((i) => i < indexed.length);
+  const dims = Math.max(0, ...selected.map((i) => indexed[i].point.mfccs.length));
+  const header = [
+    "index", "verse", "time", "x", "y", "z", "frequency", "pitch", "pitchConfidence", "syllableType",
+    "channel", "levelDifference", "timeDifference",
+    ...Array.from({ length: dims }, (_, d) => `mfcc${d}`),
+  ];
+
+  const rows = selected.map((i) => {
+    const { point, verseIndex } = indexed[i];
+    return [
+      i,
+      JSON.stringify(data.verses[verseIndex].name),
+      point.time,
+      point.x,
+      point.y,
+      point.z,
+      point.frequency ?? "",
+      point.pitch ?? "",
+      point.pitchConfidence ?? "",
+      point.syllableType ?? "",
+      point.channel ?? "",
+      point.levelDifference ?? "",
+      point.timeDifference ?? "",
+      ...Array.from({ length: dims }, (_, d) => point.mfccs[d] ?? ""),
+    ].join(",");
+  });
+
+  return [header.join(","), ...rows].join("\n");
+}
+
+export function downloadText(filename: string, text: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,60 @@
+import { decodeBase64 } from "@/lib/base64";
+import type { Spectrogram } from "@shared/schema";
+
+// Inferno-like ramp: quiet cells stay near black so the overlays read on top
+const COLOR_STOPS: [number, [number, number, number]][] = [
+  [0, [0, 0, 4]],
+  [0.25, [87, 16, 110]],
+  [0.5, [188, 55, 84]],
+  [0.75, [249, 142, 9]],
+  [1, [252, 255, 164]],
+];
+
+function buildColorTable(): Uint8Array {
+  const table = new Uint8Array(256 * 3);
+  for (let level = 0; level < 256; level++) {
+    const t = level / 255;
+    let s = 0;
+    while (s < COLOR_STOPS.length - 2 && t > COLOR_STOPS[s + 1][0]) s++;
+    const [t0, c0] = COLOR_STOPS[s];
+    const [t1, c1] = COLOR_STOPS[s + 1];
+    const f = (t - t0) / (t1 - t0);
+    for (let ch = 0; ch < 3; ch++) {
+      table[level * 3 + ch] = Math.round(c0[ch] + (c1[ch] - c0[ch]) * f);
+    }
+  }
+  return table;
+}
+
+const COLOR_TABLE = buildColorTable();
+
+// One pixel per cell, time left to right and low frequencies at the bottom;
+// drawn scaled onto the visible window of the timeline
+export function renderSpectrogramImage(spectrogram: Spectrogram): HTMLCanvasElement {
+  const { columns, rows } = spectrogram;
+  const levels = decodeBase64(spectrogram.data);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, columns);
+  canvas.height = Math.max(1, rows);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return canvas;
+
+  const image = ctx.createImageData(canvas.width, canvas.height);
+  for (let c = 0; c < columns; c++) {
+    for (let r = 0; r < rows; r++) {
+      const level = levels[c * rows + r] ?? 0;
+      const pixel = ((rows - 1 - r) * columns + c) * 4;
+      image.data[pixel] = COLOR_TABLE[level * 3];
+      image.data[pixel + 1] = COLOR_TABLE[level * 3 + 1];
+      image.data[pixel + 2] = COLOR_TABLE[level * 3 + 2];
+      image.data[pixel + 3] = 255;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+}
+
+// Fraction of the strip's height (0 = bottom) at which a frequency sits
+export function frequencyToHeight(spectrogram: Spectrogram, hz: number): number {
+  return Math.log(hz / spectrogram.minHz) / Math.log(spectrogram.maxHz / spectrogram.minHz);
+}
@@ -0,0 +1,28 @@
+import type { VisualizationData } from "@shared/schema";
+
+// Points outside any syllable (gaps inside a phrase) stay dim in syllable mode
+export const UNLABELLED_SYLLABLE_COLOR = "hsl(240, 10%, 25%)";
+
+// Golden-angle hue steps keep neighbouring type numbers visually distinct
+export function syllableTypeColor(type: number | undefined): string {
+  if (type === undefined || type < 0) return UNLABELLED_SYLLABLE_COLOR;
+  const hue = Math.round((type * 137.508) % 360);
+  return `hsl(${hue}, 75%, 60%)`;
+}
+
+// Types are shown as letters (A, B, … Z, A1, B1, …) in legends and tooltips
+export function syllableTypeLabel(type: number): string {
+  const suffix = type >= 26 ? Math.floor(type / 26) : "";
+  return `${String.fromCharCode(65 + (type % 26))}${suffix}`;
+}
+
+// Number of syllables of each type, indexed by type
+export function countSyllableTypes(data: VisualizationData): number[] {
+  const counts: number[] = [];
+  for (const verse of data.verses) {
+    for (const syllable of verse.syllables ?? []) {
+      counts[syllable.type] = (counts[syllable.type] ?? 0) + 1;
+    }
+  }
+  return Array.from(counts, (count) => count ?? 0);
+}
@@ -0,0 +1,41 @@
+const WAV_HEADER_BYTES = 44;
+
+function writeAscii(view: DataView, offset: number, text: string): void {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+}
+
+// Mono 16-bit PCM WAV of [start, end) seconds of the buffer, channels mixed down.
+// Used for trimmed recordings: Opus frames can't be cut without re-encoding
+export function encodeWav(buffer: AudioBuffer, start = 0, end = buffer.duration): Blob {
+  const { sampleRate, numberOfChannels } = buffer;
+  const from = Math.max(0, Math.floor(start * sampleRate));
+  const to = Math.min(buffer.length, Math.ceil(end * sampleRate));
+  const length = Math.max(0, to - from);
+
+  const channels = Array.from({ length: numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const bytes = new ArrayBuffer(WAV_HEADER_BYTES + length * 2);
+  const view = new DataView(bytes);
+
+  writeAscii(view, 0, "RIFF");
+  view.setUint32(4, 36 + length * 2, true);
+  writeAscii(view, 8, "WAVE");
+  writeAscii(view, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeAscii(view, 36, "data");
+  view.setUint32(40, length * 2, true);
+
+  for (let i = 0; i < length; i++) {
+    let sample = 0;
+    for (const channel of channels) sample += channel[from + i];
+    sample = Math.max(-1, Math.min(1, sample / numberOfChannels));
+    view.setInt16(WAV_HEADER_BYTES + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return new Blob([bytes], { type: "audio/wav" });
+}
@@ -1,4 +1,6 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { useLocation, useParams, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { UploadInterface } from "@/components/upload-interface";
 import { VisualizationCanvas } from "@/components/visualization-canvas";
 import { ControlPanel } from "@/components/control-panel";
@@ -7,44 +9,180 @@ import { DebugPanel } from "@/components/debug-panel";
 import { LoadingOverlay } from "@/components/loading-overlay";
 import { MFCCPanel } from "@/components/mfcc-panel";
 import { FrequencyScale } from "@/components/frequency-scale";
-import type { VisualizationData, VisualizationSettings, VisualizationPoint } from "@shared/schema";
+import { SyllableLegend } from "@/components/syllable-legend";
+import { ChannelLegend } from "@/components/channel-legend";
+import { AnalysisHistory } from "@/components/analysis-history";
+import { AnalysisVersions } from "@/components/analysis-versions";
+import { SelectionPanel } from "@/components/selection-panel";
+import { SpectrogramTimeline } from "@/components/spectrogram-timeline";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { buildPermalink, parsePermalinkSearch, visualizationPath, type CameraPose } from "@/lib/permalink";
+import { useAnalysisJob, STAGE_LABELS } from "@/hooks/use-analysis-job";
+import { useToast } from "@/hooks/use-toast";
+import {
+  applySelection,
+  pointsInTimeRange,
+  selectionTimeRanges,
+  type SelectionMode,
+  type SelectionTool,
+  type TimeRange,
+} from "@/lib/point-selection";
+import type {
+  AnalysisOptions,
+  AnalyzeJobResponse,
+  Spectrogram,
+  VisualizationData,
+  VisualizationSettings,
+  VisualizationPoint,
+  WaveformPeaks,
+} from "@shared/schema";
 
 export default function Home() {
-  const [visualizationData, setVisualizationData] = useState<VisualizationData | null>(null);
+  const { id: analysisId } = useParams<{ id?: string }>();
+  const search = useSearch();
+  const [, navigate] = useLocation();
+  // Permalink state only seeds the initial view; later changes live in React state
+  const [permalink] = useState(() => parsePermalinkSearch(search));
+  const cameraPoseRef = useRef<CameraPose | null>(null);
+
   const [isLoading, setIsLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState("Analyzing audio...");
-  const [currentTime, setCurrentTime] = useState(0);
+  const { toast } = useToast();
+  const [currentTime, setCurrentTime] = useState(permalink.time ?? 0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [selectedPoint, setSelectedPoint] = useState<VisualizationPoint | null>(null);
+  const [hoveredPoint, setHoveredPoint] = useState<VisualizationPoint | null>(null);
+  const [selection, setSelection] = useState<number[]>([]);
+  const [selectionTool, setSelectionTool] = useState<SelectionTool | null>(null);
+  const [playRanges, setPlayRanges] = useState<TimeRange[] | null>(null);
+  const [loopRegion, setLoopRegion] = useState<TimeRange | null>(null);
   const [settings, setSettings] = useState<VisualizationSettings>({
-    visualStyle: "network",
-    autoRotate: true,
+    visualStyle: permalink.visualStyle ?? "network",
+    colorMode: "frequency",
+    // A shared camera pose would be lost immediately to the orbit, so start still
+    autoRotate: !permalink.camera,
     loopPlayback: true,
+    playbackRate: 1,
+    preservePitch: true,
     showDebug: false,
     isFullscreen: false,
     progressiveReveal: true,
+    showSpectrogram: true,
+  });
+
+  const {
+    data: visualizationData,
+    isLoading: isLoadingStored,
+    error: loadError,
+  } = useQuery<VisualizationData>({
+    queryKey: ["/api/analyses", analysisId],
+    enabled: !!analysisId,
+  });
+
+  // Analyses stored before the spectrogram and waveform existed 404 on these;
+  // the strip and the overview are just left out
+  const { data: spectrogram } = useQuery<Spectrogram>({
+    queryKey: ["/api/analyses", analysisId, "spectrogram"],
+    enabled: !!analysisId && settings.showSpectrogram,
+  });
+
+  const { data: waveform } = useQuery<WaveformPeaks>({
+    queryKey: ["/api/analyses", analysisId, "waveform"],
+    enabled: !!analysisId,
   });
 
+  useEffect(() => {
+    if (!loadError) return;
+    toast({
+      title: "Visualization not found",
+      description: "This analysis is no longer available.",
+      variant: "destructive",
+    });
+    navigate("/", { replace: true });
+  }, [loadError, navigate, toast]);
+
   const handleUploadStart = useCallback(() => {
     setIsLoading(true);
     setLoadingMessage("Uploading audio file...");
   }, []);
 
-  const handleAnalyzing = useCallback(() => {
-    setLoadingMessage("Analyzing audio features...");
-  }, []);
+  const handleOpenVisualization = useCallback((data: VisualizationData) => {
+    setIsLoading(false);
+    if (!data.analysisId) return;
+    // Seed the cache so the /v/:id route renders without refetching
+    queryClient.setQueryData(["/api/analyses", data.analysisId], data);
+    navigate(visualizationPath(data.analysisId));
+  }, [navigate]);
+
+  const handleAnalysisComplete = useCallback((data: VisualizationData) => {
+    handleOpenVisualization(data);
+    queryClient.invalidateQueries({ queryKey: ["/api/analyses"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/recordings"] });
+    toast({
+      title: "Analysis complete",
+      description: "Your audio visualization is ready!",
+    });
+  }, [handleOpenVisualization, toast]);
 
-  const handleUploadComplete = useCallback((data: VisualizationData) => {
-    setVisualizationData(data);
+  const handleAnalysisError = useCallback((message: string) => {
+    setIsLoading(false);
+    toast({
+      title: "Analysis failed",
+      description: message,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const handleAnalysisCancelled = useCallback(() => {
     setIsLoading(false);
-    setCurrentTime(0);
-    setIsPlaying(false);
   }, []);
 
+  const analysisJob = useAnalysisJob({
+    onComplete: handleAnalysisComplete,
+    onError: handleAnalysisError,
+    onCancel: handleAnalysisCancelled,
+  });
+
+  const handleAnalyzing = useCallback((jobId: string) => {
+    setLoadingMessage("Analyzing audio features...");
+    analysisJob.track(jobId);
+  }, [analysisJob.track]);
+
   const handleUploadError = useCallback(() => {
     setIsLoading(false);
   }, []);
 
+  const handleReanalyze = useCallback(async (options: AnalysisOptions) => {
+    if (!visualizationData?.recordingId) return;
+    setIsLoading(true);
+    setIsPlaying(false);
+    setLoadingMessage("Starting analysis...");
+    try {
+      const res = await apiRequest("POST", `/api/recordings/${visualizationData.recordingId}/analyze`, { options });
+      const result: AnalyzeJobResponse = await res.json();
+      if (!result.jobId) {
+        throw new Error(result.error || "Failed to start analysis");
+      }
+      analysisJob.track(result.jobId);
+    } catch (err) {
+      handleAnalysisError(err instanceof Error ? err.message : "Failed to start analysis");
+    }
+  }, [visualizationData?.recordingId, analysisJob.track, handleAnalysisError]);
+
+  const handleSelectVersion = useCallback((id: string) => {
+    if (id === analysisId) return;
+    navigate(visualizationPath(id));
+  }, [analysisId, navigate]);
+
+  const activeJob = analysisJob.job && isLoading ? analysisJob.job : null;
+  const overlay = isLoading && (
+    <LoadingOverlay
+      message={activeJob ? STAGE_LABELS[activeJob.stage] : loadingMessage}
+      progress={activeJob?.progress}
+      onCancel={activeJob ? analysisJob.cancel : undefined}
+    />
+  );
+
   const handleTimeUpdate = useCallback((time: number) => {
     setCurrentTime(time);
   }, []);
@@ -62,10 +200,29 @@ export default function Home() {
   }, []);
 
   const handleReset = useCallback(() => {
-    setVisualizationData(null);
-    setCurrentTime(0);
-    setIsPlaying(false);
-  }, []);
+    navigate("/");
+  }, [navigate]);
+
+  const handleCopyLink = useCallback(async () => {
+    if (!analysisId) return;
+    const url = buildPermalink(analysisId, {
+      time: currentTime,
+      visualStyle: settings.visualStyle,
+      camera: cameraPoseRef.current ?? undefined,
+    });
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Link copied",
+        description: "Anyone with the link opens this moment of the recording.",
+      });
+    } catch {
+      toast({
+        title: "Could not copy link",
+        description: url,
+      });
+    }
+  }, [analysisId, currentTime, settings.visualStyle, toast]);
 
   const toggleFullscreen = useCallback(() => {
     if (!document.fullscreenElement) {
@@ -78,20 +235,97 @@ export default function Home() {
   }, [handleSettingsChange]);
 
   const handlePointHover = useCallback((point: VisualizationPoint | null) => {
+    setHoveredPoint(point);
+  }, []);
+
+  const handlePointSelect = useCallback((point: VisualizationPoint) => {
     setSelectedPoint(point);
+    handleSeek(point.time);
+  }, [handleSeek]);
+
+  const handleSelectPoints = useCallback((indices: number[], mode: SelectionMode) => {
+    setSelection(prev => applySelection(prev, indices, mode));
+  }, []);
+
+  const handleBrush = useCallback((range: TimeRange) => {
+    if (!visualizationData) return;
+    handleSelectPoints(pointsInTimeRange(visualizationData, range), "replace");
+  }, [visualizationData, handleSelectPoints]);
+
+  const selectionRanges = useMemo(
+    () => (visualizationData ? selectionTimeRanges(visualizationData, selection) : []),
+    [visualizationData, selection]
+  );
+
+  const handleClearSelection = useCallback(() => {
+    setSelection([]);
+    setPlayRanges(null);
+  }, []);
+
+  const handlePlaySelection = useCallback(() => {
+    if (!visualizationData) return;
+    const ranges = selectionTimeRanges(visualizationData, selection);
+    if (ranges.length === 0) return;
+    setPlayRanges(ranges);
+    setCurrentTime(ranges[0][0]);
+    setIsPlaying(true);
+  }, [visualizationData, selection]);
+
+  const handleStopSelection = useCallback(() => {
+    setPlayRanges(null);
+    setIsPlaying(false);
   }, []);
 
+  // Picked points belong to the analysis they were picked from
+  useEffect(() => {
+    setSelectedPoint(null);
+    setHoveredPoint(null);
+    setSelection([]);
+    setPlayRanges(null);
+    setLoopRegion(null);
+  }, [visualizationData]);
+
+  // Ranges of a previous selection would keep skipping through the new one
+  useEffect(() => {
+    setPlayRanges(null);
+  }, [selection]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target !== document.body) return;
+      if (e.code === "KeyB") setSelectionTool(tool => (tool === "box" ? null : "box"));
+      if (e.code === "KeyL") setSelectionTool(tool => (tool === "lasso" ? null : "lasso"));
+      if (e.code === "Escape") {
+        setSelectionTool(null);
+        handleClearSelection();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleClearSelection]);
+
+  if (analysisId && isLoadingStored) {
+    return (
+      <div className="relative min-h-screen bg-black">
+        <LoadingOverlay message="Loading visualization" />
+      </div>
+    );
+  }
+
   if (!visualizationData) {
     return (
       <div className="relative min-h-screen bg-gradient-radial from-background via-background to-black flex items-center justify-center">
         <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_center,_var(--tw-gradient-stops))] from-gray-900/20 via-background to-black" />
-        <UploadInterface
-          onUploadStart={handleUploadStart}
-          onAnalyzing={handleAnalyzing}
-          onUploadComplete={handleUploadComplete}
-          onUploadError={handleUploadError}
-        />
-        {isLoading && <LoadingOverlay message={loadingMessage} />}
+        <div className="relative z-10 w-full flex flex-col items-center gap-4 py-8">
+          <UploadInterface
+            onUploadStart={handleUploadStart}
+            onAnalyzing={handleAnalyzing}
+            onUploadError={handleUploadError}
+          />
+          <AnalysisHistory onOpen={handleOpenVisualization} />
+        </div>
+        {overlay}
       </div>
     );
   }
@@ -104,18 +338,68 @@ export default function Home() {
         isPlaying={isPlaying}
         settings={settings}
         onPointHover={handlePointHover}
+        onPointSelect={handlePointSelect}
+        selectedPoint={selectedPoint}
+        selection={selection}
+        selectionTool={selectionTool}
+        onSelectPoints={handleSelectPoints}
+        initialCamera={permalink.camera}
+        cameraPoseRef={cameraPoseRef}
       />
 
-      <FrequencyScale />
-      <MFCCPanel selectedPoint={selectedPoint} />
+      {visualizationData.recordingId && (
+        <AnalysisVersions
+          recordingId={visualizationData.recordingId}
+          analysisId={visualizationData.analysisId}
+          currentOptions={visualizationData.options}
+          onSelect={handleSelectVersion}
+          onReanalyze={handleReanalyze}
+        />
+      )}
+
+      {settings.colorMode === "syllable" ? (
+        <SyllableLegend data={visualizationData} />
+      ) : settings.colorMode === "channel" ? (
+        <ChannelLegend data={visualizationData} />
+      ) : (
+        <FrequencyScale />
+      )}
+      <MFCCPanel selectedPoint={hoveredPoint ?? selectedPoint} />
+
+      {selection.length > 0 && (
+        <SelectionPanel
+          data={visualizationData}
+          selection={selection}
+          isPlayingSelection={playRanges !== null && isPlaying}
+          onPlaySelection={handlePlaySelection}
+          onStopSelection={handleStopSelection}
+          onClear={handleClearSelection}
+        />
+      )}
 
       <FloatingSettings
         settings={settings}
         onSettingsChange={handleSettingsChange}
         onToggleFullscreen={toggleFullscreen}
         onReset={handleReset}
+        onCopyLink={handleCopyLink}
+        selectionTool={selectionTool}
+        onSelectionToolChange={setSelectionTool}
       />
 
+      {settings.showSpectrogram && spectrogram && (
+        <SpectrogramTimeline
+          key={visualizationData.analysisId}
+          data={visualizationData}
+          spectrogram={spectrogram}
+          currentTime={currentTime}
+          selectionRanges={selectionRanges}
+          loopRegion={loopRegion}
+          onSeek={handleSeek}
+          onBrush={handleBrush}
+        />
+      )}
+
       {settings.showDebug && (
         <DebugPanel data={visualizationData} currentTime={currentTime} />
       )}
@@ -129,9 +413,14 @@ export default function Home() {
         onSeek={handleSeek}
         onPlayPause={handlePlayPause}
         onSettingsChange={handleSettingsChange}
+        waveform={waveform}
+        playRanges={playRanges}
+        onPlayRangesEnd={handleStopSelection}
+        loopRegion={loopRegion}
+        onLoopRegionChange={setLoopRegion}
       />
 
-      {isLoading && <LoadingOverlay message={loadingMessage} />}
+      {overlay}
     </div>
   );
 }
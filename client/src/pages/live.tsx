@@ -0,0 +1,94 @@
+import { useState, useCallback, useEffect } from "react";
+import { useLocation } from "wouter";
+import { VisualizationCanvas } from "@/components/visualization-canvas";
+import { LiveControlPanel, DEFAULT_DEVICE } from "@/components/live-control-panel";
+import { FrequencyScale } from "@/components/frequency-scale";
+import { loadStoredAnalysisOptions } from "@/components/analysis-options-form";
+import { useLiveAnalysis } from "@/hooks/use-live-analysis";
+import { useToast } from "@/hooks/use-toast";
+import type { LiveBasisMode } from "@/lib/live-point-buffer";
+import type { VisualizationSettings } from "@shared/schema";
+
+// ~16 s of continuous song at the default 256-sample hop and 48 kHz
+const LIVE_CAPACITY = 3000;
+
+export default function Live() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  // Same analysis settings as the upload card, so live and offline spaces match
+  const [options] = useState(loadStoredAnalysisOptions);
+  const [basisMode, setBasisMode] = useState<LiveBasisMode>("adaptive");
+  const [deviceId, setDeviceId] = useState(DEFAULT_DEVICE);
+  const [settings, setSettings] = useState<VisualizationSettings>({
+    visualStyle: "network",
+    colorMode: "frequency",
+    autoRotate: true,
+    loopPlayback: false,
+    playbackRate: 1,
+    preservePitch: true,
+    showDebug: false,
+    isFullscreen: false,
+    progressiveReveal: false,
+    showSpectrogram: false,
+  });
+
+  const live = useLiveAnalysis({ options, capacity: LIVE_CAPACITY, basisMode });
+  const { start, stop, status } = live;
+
+  useEffect(() => {
+    if (!live.error) return;
+    toast({
+      title: "Live input unavailable",
+      description: live.error,
+      variant: "destructive",
+    });
+  }, [live.error, toast]);
+
+  const handleStart = useCallback(() => {
+    start(deviceId === DEFAULT_DEVICE ? undefined : deviceId);
+  }, [start, deviceId]);
+
+  // Switching inputs while live reconnects straight away
+  const handleDeviceChange = useCallback((id: string) => {
+    setDeviceId(id);
+    if (status === "live") start(id === DEFAULT_DEVICE ? undefined : id);
+  }, [status, start]);
+
+  const handleExit = useCallback(() => {
+    stop();
+    navigate("/");
+  }, [stop, navigate]);
+
+  return (
+    <div className="relative w-full h-screen overflow-hidden bg-black">
+      <VisualizationCanvas live={live.buffer} currentTime={0} isPlaying={status === "live"} settings={settings} />
+
+      <FrequencyScale />
+
+      {status === "idle" && live.stats.points === 0 && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <p className="text-muted-foreground text-sm" data-testid="text-live-hint">
+            Start the input and the network grows as the bird sings
+          </p>
+        </div>
+      )}
+
+      <LiveControlPanel
+        status={status}
+        stats={live.stats}
+        capacity={LIVE_CAPACITY}
+        devices={live.devices}
+        deviceId={deviceId}
+        basisMode={basisMode}
+        autoRotate={settings.autoRotate}
+        onStart={handleStart}
+        onStop={stop}
+        onClear={live.clear}
+        onDeviceChange={handleDeviceChange}
+        onBasisModeChange={setBasisMode}
+        onAutoRotateChange={(autoRotate) => setSettings(prev => ({ ...prev, autoRotate }))}
+        onExit={handleExit}
+      />
+    </div>
+  );
+}
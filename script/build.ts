@@ -47,13 +47,20 @@ async function buildAll() {
   const externals = allDeps.filter((dep) => !allowlist.includes(dep));
 
   await esbuild({
-    entryPoints: ["server/index.ts"],
+    // Analysis runs in worker threads started from their own bundle
+    entryPoints: {
+      index: "server/index.ts",
+      "analysis-worker": "server/analysis-worker.ts",
+    },
     platform: "node",
     bundle: true,
     format: "cjs",
-    outfile: "dist/index.cjs",
+    outdir: "dist",
+    outExtension: { ".js": ".cjs" },
+    // CJS has no import.meta; the bundle's own directory is __dirname
     define: {
       "process.env.NODE_ENV": '"production"',
+      "import.meta.dirname": "__dirname",
     },
     minify: true,
     external: externals,
@@ -0,0 +1,211 @@
+import { Worker, type WorkerOptions } from "worker_threads";
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import os from "os";
+import {
+  AnalysisCancelledError,
+  type AnalysisHooks,
+  type AnalysisResource,
+  type AnalysisResult,
+} from "./audio-analyzer";
+import {
+  outOfMemoryMessage,
+  type AnalysisWorkerCommand,
+  type AnalysisWorkerData,
+  type AnalysisWorkerMessage,
+} from "./analysis-worker";
+import type { AnalysisOptions } from "@shared/schema";
+
+export interface AnalysisPoolOptions {
+  // Analyses running at once; later jobs wait in the "queued" stage
+  concurrency: number;
+  // Per analysis, from the moment its worker starts
+  timeoutMs: number;
+  // Per analysis worker: its V8 heap plus typed arrays, which the worker polls
+  memoryLimitMb: number;
+}
+
+interface PendingAnalysis {
+  filePath: string;
+  options: AnalysisOptions;
+  hooks: AnalysisHooks;
+  resolve: (result: AnalysisResult) => void;
+  reject: (error: Error) => void;
+}
+
+// A stopped worker gets this long to kill ffmpeg and remove its temp files
+// before it is terminated outright
+const STOP_GRACE_MS = 5000;
+
+// The production build bundles the worker next to dist/index.cjs. In
+// development the TypeScript source is loaded through tsx, whose loader
+// worker threads don't inherit from the main thread.
+function createWorker(options: WorkerOptions): Worker {
+  if (process.env.NODE_ENV === "production") {
+    return new Worker(path.resolve(__dirname, "analysis-worker.cjs"), options);
+  }
+  const source = pathToFileURL(path.resolve(import.meta.dirname, "analysis-worker.ts")).href;
+  const bootstrap = `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(source)}); })`;
+  return new Worker(bootstrap, { ...options, eval: true });
+}
+
+function resourceKey(resource: AnalysisResource): string {
+  return resource.kind === "process" ? `process:${resource.pid}` : `file:${resource.path}`;
+}
+
+// What a worker still held when it exited: a terminated or crashed worker
+// can't kill its ffmpeg or remove its temp WAV itself
+function cleanUp(resources: AnalysisResource[]): void {
+  for (const resource of resources) {
+    if (resource.kind === "process") {
+      try {
+        process.kill(resource.pid, "SIGKILL");
+      } catch {
+        // Already exited
+      }
+    } else {
+      fs.rm(resource.path, { force: true }, () => {});
+    }
+  }
+}
+
+// Runs each analysis in its own worker thread so the FFTs, embeddings and kNN
+// never block the Express event loop, and an analysis that runs too long or
+// outgrows its memory limit takes down only its own worker
+export class AnalysisWorkerPool {
+  private readonly queue: PendingAnalysis[] = [];
+  private active = 0;
+
+  constructor(private readonly config: AnalysisPoolOptions) {}
+
+  run(filePath: string, options: AnalysisOptions, hooks: AnalysisHooks = {}): Promise<AnalysisResult> {
+    if (hooks.signal?.aborted) {
+      return Promise.reject(new AnalysisCancelledError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const task: PendingAnalysis = { filePath, options, hooks, resolve, reject };
+      // A job cancelled while queued never starts a worker
+      hooks.signal?.addEventListener("abort", () => {
+        const index = this.queue.indexOf(task);
+        if (index >= 0) {
+          this.queue.splice(index, 1);
+          reject(new AnalysisCancelledError());
+        }
+      }, { once: true });
+
+      this.queue.push(task);
+      this.startQueued();
+    });
+  }
+
+  private startQueued(): void {
+    while (this.active < this.config.concurrency && this.queue.length > 0) {
+      const task = this.queue.shift()!;
+      this.active++;
+      this.runWorker(task)
+        .catch((error: Error) => task.reject(error))
+        .finally(() => {
+          this.active--;
+          this.startQueued();
+        });
+    }
+  }
+
+  // Settles the task once its worker has exited. Rejects, leaving the task to
+  // the caller, only if the worker couldn't be started.
+  private runWorker({ filePath, options, hooks, resolve, reject }: PendingAnalysis): Promise<void> {
+    const { timeoutMs, memoryLimitMb } = this.config;
+
+    return new Promise((done) => {
+      const workerData: AnalysisWorkerData = { filePath, options, memoryLimitMb };
+      const worker = createWorker({
+        workerData,
+        resourceLimits: { maxOldGenerationSizeMb: memoryLimitMb },
+      });
+
+      // The first of result, failure, timeout or cancellation decides the outcome
+      let outcome: { result: AnalysisResult } | { error: Error } | null = null;
+      let forceStop: NodeJS.Timeout | undefined;
+      const held = new Map<string, AnalysisResource>();
+
+      const stop = (error: Error) => {
+        outcome ??= { error };
+        const command: AnalysisWorkerCommand = { type: "cancel" };
+        worker.postMessage(command);
+        forceStop ??= setTimeout(() => void worker.terminate(), STOP_GRACE_MS);
+      };
+      const timeout = setTimeout(
+        () => stop(new Error(`Analysis timed out after ${Math.round(timeoutMs / 60000)} minutes.`)),
+        timeoutMs
+      );
+      const handleAbort = () => stop(new AnalysisCancelledError());
+      hooks.signal?.addEventListener("abort", handleAbort, { once: true });
+
+      worker.on("message", (message: AnalysisWorkerMessage) => {
+        switch (message.type) {
+          case "progress":
+            if (!outcome) hooks.onProgress?.(message.stage, message.progress);
+            break;
+          case "acquire":
+            held.set(resourceKey(message.resource), message.resource);
+            break;
+          case "release":
+            held.delete(resourceKey(message.resource));
+            break;
+          case "result":
+            outcome ??= { result: message.result };
+            break;
+          case "cancelled":
+            outcome ??= { error: new AnalysisCancelledError() };
+            break;
+          case "error":
+            outcome ??= { error: new Error(message.message) };
+            break;
+        }
+      });
+
+      worker.on("error", (error: Error & { code?: string }) => {
+        outcome ??= {
+          error: error.code === "ERR_WORKER_OUT_OF_MEMORY"
+            ? new Error(outOfMemoryMessage(memoryLimitMb))
+            : error,
+        };
+      });
+
+      worker.on("exit", () => {
+        clearTimeout(timeout);
+        clearTimeout(forceStop);
+        hooks.signal?.removeEventListener("abort", handleAbort);
+        cleanUp(Array.from(held.values()));
+
+        const settled = outcome ?? { error: new Error("The analysis worker exited unexpectedly.") };
+        if ("result" in settled) {
+          resolve(settled.result);
+        } else {
+          reject(settled.error);
+        }
+        done();
+      });
+    });
+  }
+}
+
+function positiveIntegerEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${raw}".`);
+  }
+  return value;
+}
+
+// ANALYSIS_CONCURRENCY defaults to one core short of the machine, leaving one
+// for the web server; ANALYSIS_TIMEOUT_MINUTES and ANALYSIS_MEMORY_MB bound each job
+export const analysisPool = new AnalysisWorkerPool({
+  concurrency: positiveIntegerEnv("ANALYSIS_CONCURRENCY", Math.max(1, os.cpus().length - 1)),
+  timeoutMs: positiveIntegerEnv("ANALYSIS_TIMEOUT_MINUTES", 30) * 60 * 1000,
+  memoryLimitMb: positiveIntegerEnv("ANALYSIS_MEMORY_MB", 2048),
+});
@@ -0,0 +1,88 @@
+import { parentPort, workerData } from "worker_threads";
+import {
+  analyzeAudioFile,
+  AnalysisCancelledError,
+  type AnalysisResource,
+  type AnalysisResult,
+} from "./audio-analyzer";
+import type { AnalysisOptions, AnalysisStage } from "@shared/schema";
+
+// Runs one analysis off the Express event loop; started by AnalysisWorkerPool
+
+export interface AnalysisWorkerData {
+  filePath: string;
+  options: AnalysisOptions;
+  // Covers the V8 heap and typed arrays together
+  memoryLimitMb: number;
+}
+
+// Worker → pool
+export type AnalysisWorkerMessage =
+  | { type: "progress"; stage: AnalysisStage; progress: number }
+  | { type: "acquire"; resource: AnalysisResource }
+  | { type: "release"; resource: AnalysisResource }
+  | { type: "result"; result: AnalysisResult }
+  | { type: "cancelled" }
+  | { type: "error"; message: string };
+
+// Pool → worker
+export type AnalysisWorkerCommand = { type: "cancel" };
+
+export function outOfMemoryMessage(memoryLimitMb: number): string {
+  return `Analysis ran out of memory (limit ${memoryLimitMb} MB).`;
+}
+
+// The frame tables get this share of the limit; the rest is for decoding
+// buffers, the embedding and the result
+const FRAME_TABLE_SHARE = 0.5;
+// The heap limit set on the worker doesn't cover ArrayBuffers, which hold
+// most of an analysis, so usage is also checked on this interval
+const MEMORY_POLL_MS = 250;
+
+if (parentPort) {
+  const port = parentPort;
+  const { filePath, options, memoryLimitMb } = workerData as AnalysisWorkerData;
+  const controller = new AbortController();
+  const post = (message: AnalysisWorkerMessage) => port.postMessage(message);
+
+  port.on("message", (command: AnalysisWorkerCommand) => {
+    if (command.type === "cancel") controller.abort();
+  });
+
+  // heapUsed and external are this worker's own, not the whole process's
+  let outOfMemory = false;
+  const memoryPoll = setInterval(() => {
+    const { heapUsed, external } = process.memoryUsage();
+    if (heapUsed + external > memoryLimitMb * 1024 * 1024) {
+      outOfMemory = true;
+      controller.abort();
+    }
+  }, MEMORY_POLL_MS);
+
+  analyzeAudioFile(
+    filePath,
+    options,
+    {
+      signal: controller.signal,
+      onProgress: (stage, progress) => post({ type: "progress", stage, progress }),
+      onAcquire: (resource) => post({ type: "acquire", resource }),
+      onRelease: (resource) => post({ type: "release", resource }),
+    },
+    { frameTableBytes: Math.floor(memoryLimitMb * 1024 * 1024 * FRAME_TABLE_SHARE) }
+  )
+    .then((result) => post({ type: "result", result }))
+    .catch((error) => {
+      if (outOfMemory) {
+        post({ type: "error", message: outOfMemoryMessage(memoryLimitMb) });
+      } else if (error instanceof AnalysisCancelledError) {
+        post({ type: "cancelled" });
+      } else {
+        post({ type: "error", message: error instanceof Error ? error.message : "Failed to analyze audio" });
+      }
+    })
+    // Nothing else keeps the worker alive once the port is closed
+    .finally(() => {
+      clearInterval(memoryPoll);
+      port.close();
+    });
+}
@@ -3,19 +3,44 @@ import path from "path";
 import ffmpeg from "fluent-ffmpeg";
 import { randomUUID } from "crypto";
 import os from "os";
-import { Matrix, EigenvalueDecomposition } from "ml-matrix";
-
-interface AudioFrame {
-  t: number;
-  mfccs: number[];
-  pcaCoordinates?: {
-    x: number;
-    y: number;
-    z: number;
-  };
-  frequency?: number;
-  amplitude?: number;
-}
+import { embedVectors, type Coordinates, type StageContext } from "./embeddings";
+import { detectSyllables, type SyllableFrames } from "./syllables";
+import { SpectrogramBuilder } from "./spectrogram";
+import { WaveformBuilder } from "./waveform";
+import { BANDS, FrameTable, frameTableBytes } from "./frame-table";
+import { buildNeighborGraph } from "./neighbor-graph";
+import { IncrementalPCA } from "@shared/incremental-pca";
+import {
+  calculateDominantFrequency,
+  computeFFT,
+  computeRMS,
+  createMelFilterbank,
+  extractMFCCsFromFFT,
+} from "@shared/dsp";
+import {
+  readWavHeader,
+  readWavWindows,
+  streamWavChannels,
+  wavMetadata,
+  type WavChannel,
+  type WavInfo,
+} from "./wav-decoder";
+import {
+  formatForFilename,
+  TRANSCODE_SAMPLE_RATE,
+  UNSUPPORTED_FORMAT_MESSAGE,
+  type AudioFormat,
+} from "@shared/audio-formats";
+import {
+  defaultAnalysisOptions,
+  type AnalysisChannel,
+  type AnalysisOptions,
+  type AnalysisStage,
+  type Spectrogram,
+  type Syllable,
+  type WaveformPeaks,
+  type WavMetadata,
+} from "@shared/schema";
 
 interface VisualizationPoint {
   x: number;
@@ -26,6 +51,12 @@ interface VisualizationPoint {
   time: number;
   mfccs: number[];
   frequency?: number;
+  pitch?: number;
+  pitchConfidence?: number;
+  centroid?: number;
+  bandwidth?: number;
+  flux?: number;
+  flatness?: number;
   beatStrength?: number;
   complexity?: number;
   band?: 'low' | 'mid' | 'high';
@@ -33,6 +64,10 @@ interface VisualizationPoint {
   onsetLow?: number;
   onsetMid?: number;
   onsetHigh?: number;
+  syllableType?: number;
+  channel?: number;
+  levelDifference?: number;
+  timeDifference?: number;
 }
 
 interface Verse {
@@ -42,83 +77,81 @@ interface Verse {
   end: number;
   points: VisualizationPoint[];
   edges: [number, number][];
+  edgeWeights: number[];
+  syllables?: Syllable[];
 }
 
-interface AnalysisResult {
+export interface AnalysisResult {
   duration: number;
   sampleRate: number;
   verses: Verse[];
+  options: AnalysisOptions;
+  spectrogram: Spectrogram;
+  waveform: WaveformPeaks;
+  wavMetadata?: WavMetadata;
 }
 
-function parseWavHeader(buffer: Buffer): { sampleRate: number; channels: number; bitsPerSample: number; dataOffset: number; dataLength: number } | null {
-  if (buffer.length < 44) return null;
-  
-  const riff = buffer.toString("ascii", 0, 4);
-  const wave = buffer.toString("ascii", 8, 12);
-  
-  if (riff !== "RIFF" || wave !== "WAVE") return null;
-  
-  let offset = 12;
-  let sampleRate = 44100;
-  let channels = 2;
-  let bitsPerSample = 16;
-  let dataOffset = 44;
-  let dataLength = 0;
-  
-  while (offset < buffer.length - 8) {
-    const chunkId = buffer.toString("ascii", offset, offset + 4);
-    const chunkSize = buffer.readUInt32LE(offset + 4);
-    
-    if (chunkId === "fmt ") {
-      channels = buffer.readUInt16LE(offset + 10);
-      sampleRate = buffer.readUInt32LE(offset + 12);
-      bitsPerSample = buffer.readUInt16LE(offset + 22);
-    } else if (chunkId === "data") {
-      dataOffset = offset + 8;
-      dataLength = chunkSize;
-      break;
-    }
-    
-    offset += 8 + chunkSize;
-  }
-  
-  return { sampleRate, channels, bitsPerSample, dataOffset, dataLength };
+// Progress is reported per stage as a 0-1 fraction of that stage
+export type AnalysisProgressCallback = (stage: AnalysisStage, progress: number) => void;
+
+// An ffmpeg process or temp file the analysis removes itself once done with it
+export type AnalysisResource = { kind: "process"; pid: number } | { kind: "file"; path: string };
+
+export interface AnalysisHooks {
+  onProgress?: AnalysisProgressCallback;
+  signal?: AbortSignal;
+  // For a caller that may have to stop the analysis outright and clean up after it
+  onAcquire?: (resource: AnalysisResource) => void;
+  onRelease?: (resource: AnalysisResource) => void;
 }
 
-function extractPcmSamples(buffer: Buffer, header: { sampleRate: number; channels: number; bitsPerSample: number; dataOffset: number; dataLength: number }): Float32Array {
-  const { dataOffset, dataLength, bitsPerSample, channels } = header;
-  const bytesPerSample = bitsPerSample / 8;
-  const numSamples = Math.floor(dataLength / (bytesPerSample * channels));
-  const samples = new Float32Array(numSamples);
-  
-  for (let i = 0; i < numSamples; i++) {
-    const offset = dataOffset + i * bytesPerSample * channels;
-    if (offset + bytesPerSample > buffer.length) break;
-    
-    let sample: number;
-    if (bitsPerSample === 16) {
-      sample = buffer.readInt16LE(offset) / 32768;
-    } else if (bitsPerSample === 8) {
-      sample = (buffer.readUInt8(offset) - 128) / 128;
-    } else if (bitsPerSample === 32) {
-      sample = buffer.readInt32LE(offset) / 2147483648;
-    } else {
-      sample = buffer.readInt16LE(offset) / 32768;
-    }
-    
-    samples[i] = sample;
+export interface AnalysisLimits {
+  // Bytes the per-frame feature tables may take; longer recordings are refused
+  frameTableBytes: number;
+}
+
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super("Analysis was cancelled.");
+    this.name = "AnalysisCancelledError";
   }
-  
-  return samples;
 }
 
-function computeRMS(samples: Float32Array, start: number, length: number): number {
-  let sum = 0;
-  const end = Math.min(start + length, samples.length);
-  for (let i = start; i < end; i++) {
-    sum += samples[i] * samples[i];
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AnalysisCancelledError();
   }
-  return Math.sqrt(sum / (end - start));
+}
+
+// Yield to the event loop so progress events and cancel requests get through
+// while a long CPU-bound stage is running
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+const FRAMES_PER_YIELD = 250;
+// ffmpeg is given up on after this long without a progress report
+const TRANSCODE_STALL_MS = 60000;
+const NO_AUDIO_TRACK_MESSAGE = "The video has no audio track.";
+// "split" analyzes at most this many channels; the rest of an array recording is ignored
+const MAX_SPLIT_CHANNELS = 8;
+// Widest arrival-time difference searched; covers mics a metre or two apart
+const MAX_TIME_DIFFERENCE = 0.005;
+// Level difference reported for a channel that is silent in the frame
+const MIN_LEVEL_DIFFERENCE_DB = -60;
+// Frame tables hold every frame of every analyzed signal for the whole
+// recording; longer recordings are refused before any frame is analyzed.
+// At the default settings 1 GB is about 7 hours of 48 kHz mono.
+const DEFAULT_LIMITS: AnalysisLimits = { frameTableBytes: 1024 * 1024 * 1024 };
+
+function stageContext(stage: AnalysisStage, hooks: AnalysisHooks): StageContext {
+  return {
+    report: (progress) => hooks.onProgress?.(stage, progress),
+    checkpoint: async () => {
+      await yieldToEventLoop();
+      throwIfAborted(hooks.signal);
+    },
+  };
 }
 
 function computeZeroCrossingRate(samples: Float32Array, start: number, length: number): number {
@@ -137,85 +170,6 @@ function estimatePitchFromZCR(zcr: number, sampleRate: number): number {
   return Math.max(80, Math.min(8000, estimatedFreq));
 }
 
-// Precomputed lookup tables (lazily initialized per frame size)
-let _cachedFrameSize = 0;
-let _hannWindow: Float32Array;
-let _fftReal: Float32Array;
-let _fftImag: Float32Array;
-let _fftMagnitudes: Float32Array;
-
-function ensureFFTBuffers(frameSize: number): void {
-  if (_cachedFrameSize === frameSize) return;
-  _cachedFrameSize = frameSize;
-  _hannWindow = new Float32Array(frameSize);
-  for (let i = 0; i < frameSize; i++) {
-    _hannWindow[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (frameSize - 1)));
-  }
-  _fftReal = new Float32Array(frameSize);
-  _fftImag = new Float32Array(frameSize);
-  _fftMagnitudes = new Float32Array(frameSize / 2);
-}
-
-function computeFFT(samples: Float32Array, start: number, frameSize: number): Float32Array {
-  ensureFFTBuffers(frameSize);
-  const n = frameSize;
-  const real = _fftReal;
-  const imag = _fftImag;
-
-  // Copy windowed input using precomputed Hann window
-  for (let i = 0; i < n; i++) {
-    const idx = start + i;
-    real[i] = (idx < samples.length ? samples[idx] : 0) * _hannWindow[i];
-    imag[i] = 0;
-  }
-
-  // Bit-reversal permutation
-  for (let i = 1, j = 0; i < n; i++) {
-    let bit = n >> 1;
-    while (j & bit) {
-      j ^= bit;
-      bit >>= 1;
-    }
-    j ^= bit;
-    if (i < j) {
-      let tmp = real[i]; real[i] = real[j]; real[j] = tmp;
-      tmp = imag[i]; imag[i] = imag[j]; imag[j] = tmp;
-    }
-  }
-
-  // Butterfly stages
-  for (let len = 2; len <= n; len *= 2) {
-    const halfLen = len / 2;
-    const angle = (-2 * Math.PI) / len;
-    const wReal = Math.cos(angle);
-    const wImag = Math.sin(angle);
-    for (let i = 0; i < n; i += len) {
-      let curReal = 1;
-      let curImag = 0;
-      for (let j = 0; j < halfLen; j++) {
-        const idx = i + j + halfLen;
-        const tReal = curReal * real[idx] - curImag * imag[idx];
-        const tImag = curReal * imag[idx] + curImag * real[idx];
-        real[idx] = real[i + j] - tReal;
-        imag[idx] = imag[i + j] - tImag;
-        real[i + j] += tReal;
-        imag[i + j] += tImag;
-        const newCurReal = curReal * wReal - curImag * wImag;
-        curImag = curReal * wImag + curImag * wReal;
-        curReal = newCurReal;
-      }
-    }
-  }
-
-  // Compute magnitude spectrum (first half only) — reuse buffer
-  const magnitudes = _fftMagnitudes;
-  for (let k = 0; k < n / 2; k++) {
-    magnitudes[k] = Math.sqrt(real[k] * real[k] + imag[k] * imag[k]);
-  }
-  // Return a COPY since the caller may store the result
-  return Float32Array.from(magnitudes);
-}
-
 function computeSpectralFeatures(fft: Float32Array, frameSize: number, sampleRate: number): { centroid: number; bandwidth: number } {
   const freqBinWidth = sampleRate / frameSize;
   
@@ -303,328 +257,446 @@ function computeBandEnergies(
   return { low, mid, high };
 }
 
-// Mel scale conversion functions
-function hzToMel(hz: number): number {
-  return 2595 * Math.log10(1 + hz / 700);
+// YIN pitch tracker (de Cheveigné & Kawahara, 2002). Search range covers
+// birdsong fundamentals; the CMND threshold decides voicing.
+const PITCH_MIN_HZ = 250;
+const PITCH_MAX_HZ = 10000;
+const YIN_THRESHOLD = 0.15;
+// A shorter-period dip under this CMND value wins the octave check. High
+// pitches have non-integer periods, so their dips sit a little above the
+// voicing threshold while twice the period lands on a near-perfect dip.
+const OCTAVE_DIP_THRESHOLD = 2 * YIN_THRESHOLD;
+const SILENCE_RMS = 1e-4;
+// Frames at or above this confidence count as voiced
+const VOICED_CONFIDENCE = 1 - YIN_THRESHOLD;
+
+let _yinSize = 0;
+let _yinDiff: Float32Array;
+let _yinCmnd: Float32Array;
+
+function ensureYinBuffers(size: number): void {
+  if (_yinSize === size) return;
+  _yinSize = size;
+  _yinDiff = new Float32Array(size);
+  _yinCmnd = new Float32Array(size);
 }
 
-function melToHz(mel: number): number {
-  return 700 * (Math.pow(10, mel / 2595) - 1);
+function localMinimumNear(cmnd: Float32Array, tau: number, lo: number, hi: number): number {
+  let best = Math.max(lo, Math.min(hi, tau));
+  for (let t = Math.max(lo, tau - 1); t <= Math.min(hi, tau + 1); t++) {
+    if (cmnd[t] < cmnd[best]) best = t;
+  }
+  return best;
 }
 
-// Create Mel filterbank
-function createMelFilterbank(
-  numFilters: number,
-  fftSize: number,
+function computeYinPitch(
+  samples: Float32Array,
+  start: number,
+  frameSize: number,
   sampleRate: number,
-  lowFreq: number = 0,
-  highFreq?: number
-): number[][] {
-  highFreq = highFreq || sampleRate / 2;
-
-  const lowMel = hzToMel(lowFreq);
-  const highMel = hzToMel(highFreq);
-  const melPoints = Array.from(
-    { length: numFilters + 2 },
-    (_, i) => lowMel + (i * (highMel - lowMel)) / (numFilters + 1)
-  );
-
-  const hzPoints = melPoints.map(melToHz);
-  const binPoints = hzPoints.map(hz => Math.floor((fftSize + 1) * hz / sampleRate));
-
-  const filterbank: number[][] = [];
-  for (let i = 1; i <= numFilters; i++) {
-    const filter = new Array(Math.floor(fftSize / 2) + 1).fill(0);
-
-    const left = binPoints[i - 1];
-    const center = binPoints[i];
-    const right = binPoints[i + 1];
-
-    for (let j = left; j < center; j++) {
-      filter[j] = (j - left) / (center - left);
-    }
-    for (let j = center; j < right; j++) {
-      filter[j] = (right - j) / (right - center);
-    }
-
-    filterbank.push(filter);
+  prevPitch: number
+): { pitch: number; confidence: number } {
+  const tauMin = Math.max(2, Math.floor(sampleRate / PITCH_MAX_HZ));
+  const tauMax = Math.min(Math.floor(frameSize / 2), Math.ceil(sampleRate / PITCH_MIN_HZ));
+  const windowSize = frameSize - tauMax;
+  if (tauMax <= tauMin + 2 || start + frameSize > samples.length) {
+    return { pitch: 0, confidence: 0 };
   }
 
-  return filterbank;
-}
-
-// Precomputed DCT cosine table (lazily initialized)
-let _dctTable: Float64Array | null = null;
-let _dctN = 0;
-let _dctK = 0;
-
-function ensureDCTTable(N: number, numCoefficients: number): void {
-  if (_dctN === N && _dctK === numCoefficients) return;
-  _dctN = N;
-  _dctK = numCoefficients;
-  _dctTable = new Float64Array(numCoefficients * N);
-  for (let k = 0; k < numCoefficients; k++) {
-    for (let n = 0; n < N; n++) {
-      _dctTable[k * N + n] = Math.cos((Math.PI * k * (n + 0.5)) / N);
-    }
+  if (computeRMS(samples, start, frameSize) < SILENCE_RMS) {
+    return { pitch: 0, confidence: 0 };
   }
-}
 
-// Discrete Cosine Transform with precomputed cosine table
-function dct(input: number[], numCoefficients: number): number[] {
-  const N = input.length;
-  ensureDCTTable(N, numCoefficients);
-  const table = _dctTable!;
-  const output: number[] = new Array(numCoefficients);
+  ensureYinBuffers(tauMax + 1);
+  const diff = _yinDiff;
+  const cmnd = _yinCmnd;
 
-  for (let k = 0; k < numCoefficients; k++) {
+  // Squared difference function
+  diff[0] = 0;
+  for (let tau = 1; tau <= tauMax; tau++) {
     let sum = 0;
-    const offset = k * N;
-    for (let n = 0; n < N; n++) {
-      sum += input[n] * table[offset + n];
+    for (let j = 0; j < windowSize; j++) {
+      const delta = samples[start + j] - samples[start + j + tau];
+      sum += delta * delta;
     }
-    output[k] = sum;
+    diff[tau] = sum;
   }
 
-  return output;
-}
+  // Cumulative mean normalized difference
+  cmnd[0] = 1;
+  let runningSum = 0;
+  for (let tau = 1; tau <= tauMax; tau++) {
+    runningSum += diff[tau];
+    cmnd[tau] = runningSum > 0 ? (diff[tau] * tau) / runningSum : 1;
+  }
 
-// Extract MFCCs from a pre-computed FFT magnitude spectrum using a cached filterbank
-function extractMFCCsFromFFT(
-  fft: Float32Array,
-  filterbank: number[][],
-  numMFCCs: number = 40
-): number[] {
-  // Apply filterbank to power spectrum
-  const melEnergies: number[] = [];
-  for (const filter of filterbank) {
-    let energy = 0;
-    for (let i = 0; i < fft.length; i++) {
-      energy += (fft[i] * fft[i]) * filter[i];
+  // First dip under the absolute threshold, followed down to its minimum
+  let tauEstimate = -1;
+  for (let tau = tauMin; tau <= tauMax; tau++) {
+    if (cmnd[tau] < YIN_THRESHOLD) {
+      while (tau + 1 <= tauMax && cmnd[tau + 1] < cmnd[tau]) tau++;
+      tauEstimate = tau;
+      break;
     }
-    melEnergies.push(Math.log(energy + 1e-10));
   }
 
-  // Apply DCT to get MFCCs
-  const mfccs = dct(melEnergies, numMFCCs);
+  // Unvoiced: fall back to the global minimum and let confidence say so
+  if (tauEstimate < 0) {
+    tauEstimate = tauMin;
+    for (let tau = tauMin + 1; tau <= tauMax; tau++) {
+      if (cmnd[tau] < cmnd[tauEstimate]) tauEstimate = tau;
+    }
+  }
 
-  return mfccs;
-}
+  // Octave-error guard: a period with a clear dip at half or a third of its
+  // length is a sub-harmonic of that shorter period
+  for (const divisor of [2, 3]) {
+    const candidate = Math.round(tauEstimate / divisor);
+    if (candidate < tauMin) break;
+    const local = localMinimumNear(cmnd, candidate, tauMin, tauMax);
+    if (cmnd[local] < Math.max(OCTAVE_DIP_THRESHOLD, cmnd[tauEstimate])) {
+      tauEstimate = local;
+      break;
+    }
+  }
 
-// Calculate dominant frequency from FFT
-function calculateDominantFrequency(fft: Float32Array, sampleRate: number, fftSize: number): number {
-  let maxMag = 0;
-  let maxBin = 0;
+  // Continuity: if we jumped an octave relative to the last voiced frame and
+  // the period nearer the previous pitch is also voiced, keep the track
+  if (prevPitch > 0) {
+    const ratio = sampleRate / tauEstimate / prevPitch;
+    const alternative = ratio > 1.8 && ratio < 2.2 ? tauEstimate * 2
+      : ratio > 0.45 && ratio < 0.55 ? Math.round(tauEstimate / 2)
+      : -1;
+    if (alternative >= tauMin && alternative <= tauMax) {
+      const local = localMinimumNear(cmnd, alternative, tauMin, tauMax);
+      if (cmnd[local] < YIN_THRESHOLD) tauEstimate = local;
+    }
+  }
 
-  for (let i = 1; i < fft.length; i++) {
-    if (fft[i] > maxMag) {
-      maxMag = fft[i];
-      maxBin = i;
+  // Parabolic interpolation for sub-sample period resolution
+  let refinedTau = tauEstimate;
+  if (tauEstimate > 1 && tauEstimate < tauMax) {
+    const s0 = cmnd[tauEstimate - 1];
+    const s1 = cmnd[tauEstimate];
+    const s2 = cmnd[tauEstimate + 1];
+    const denom = s0 + s2 - 2 * s1;
+    if (denom > 0) {
+      refinedTau = tauEstimate + (s0 - s2) / (2 * denom);
     }
   }
 
-  return (maxBin * sampleRate) / fftSize;
+  return {
+    pitch: sampleRate / refinedTau,
+    confidence: Math.max(0, Math.min(1, 1 - cmnd[tauEstimate])),
+  };
 }
 
-function extractAudioFrames(samples: Float32Array, sampleRate: number): AudioFrame[] {
-  const frameSize = 512;
-  // Dynamically set hop size to cap total frames for performance
-  // MFCC+PCA is heavier than simple FFT, so cap lower
-  const MAX_FRAMES = 2000;
-  const minHopSize = 256;
-  const naturalFrames = Math.floor((samples.length - frameSize) / minHopSize);
-  const hopSize = naturalFrames > MAX_FRAMES
-    ? Math.floor((samples.length - frameSize) / MAX_FRAMES)
-    : minHopSize;
-  const numFrames = Math.floor((samples.length - frameSize) / hopSize);
-  const frames: AudioFrame[] = [];
-
-  // Pre-compute mel filterbank once (same for all frames)
-  const numFilters = 26;
-  const filterbank = createMelFilterbank(numFilters, frameSize, sampleRate);
-
-  for (let i = 0; i < numFrames; i++) {
-    const start = i * hopSize;
-    const t = start / sampleRate;
+// Features of consecutive frames of one signal, written into its FrameTable.
+// Keeps what carries over from frame to frame: the pitch track, the previous
+// spectrum for flux and the previous level for onsets.
+class FrameExtractor {
+  // Last voiced pitch, used by the tracker's octave continuity check
+  private prevPitch = 0;
+  private prevFFT: Float32Array | null = null;
+  private prevRMS = 0;
+
+  constructor(
+    readonly table: FrameTable,
+    private readonly filterbank: number[][],
+    private readonly options: AnalysisOptions,
+    private readonly sampleRate: number,
+    private readonly spectrogram?: SpectrogramBuilder,
+    private readonly basis?: IncrementalPCA
+  ) {}
+
+  // Frame `index` of the table starts at `start` in `samples`
+  analyze(samples: Float32Array, start: number, index: number): void {
+    const { table, sampleRate } = this;
+    const { frameSize, mfccCount } = this.options;
 
     // Compute FFT once per frame and reuse for both MFCCs and frequency
     const fft = computeFFT(samples, start, frameSize);
+    this.spectrogram?.addFrame(fft);
 
-    // Extract 40 MFCCs from the pre-computed FFT
-    const mfccs = extractMFCCsFromFFT(fft, filterbank, 40);
+    const mfccs = extractMFCCsFromFFT(fft, this.filterbank, mfccCount);
+    table.mfccs.set(mfccs, index * mfccCount);
+    this.basis?.update(mfccs);
 
     // Calculate amplitude for point sizing
     const amplitude = computeRMS(samples, start, frameSize);
+    table.amplitude[index] = amplitude;
 
     // Calculate dominant frequency from the same FFT
-    const frequency = calculateDominantFrequency(fft, sampleRate, frameSize);
-
-    frames.push({
-      t,
-      mfccs,
-      amplitude,
-      frequency,
-    });
+    table.frequency[index] = calculateDominantFrequency(fft, sampleRate, frameSize);
+
+    // Time-domain f0 estimate with per-frame voicing confidence
+    const { pitch, confidence } = computeYinPitch(samples, start, frameSize, sampleRate, this.prevPitch);
+    table.pitch[index] = pitch;
+    table.pitchConfidence[index] = confidence;
+    this.prevPitch = confidence >= VOICED_CONFIDENCE ? pitch : 0;
+
+    // Raw spectral descriptors; normalized across the recording afterwards
+    const { centroid, bandwidth } = computeSpectralFeatures(fft, frameSize, sampleRate);
+    const bandEnergies = computeBandEnergies(fft, frameSize, sampleRate);
+    table.centroid[index] = centroid;
+    table.bandwidth[index] = bandwidth;
+    table.flux[index] = computeSpectralFlux(fft, this.prevFFT);
+    table.flatness[index] = computeSpectralFlatness(fft);
+    table.bandLow[index] = bandEnergies.low;
+    table.bandMid[index] = bandEnergies.mid;
+    table.bandHigh[index] = bandEnergies.high;
+    table.onsetStrength[index] = index > 0 ? computeOnsetStrength(this.prevRMS, amplitude) : 0;
+    this.prevFFT = fft;
+    this.prevRMS = amplitude;
   }
+}
 
-  return frames;
+// A WAV file the decoder can stream: the upload itself, or ffmpeg's transcode of it
+interface AudioSource {
+  path: string;
+  info: WavInfo;
+  // The analyzed signal (mixdown or selected channel), then each channel for "split"
+  signals: WavChannel[];
+  metadata?: WavMetadata;
+  dispose(): void;
 }
 
-// Expected MFCC dimension (must match extractMFCCs output length)
-const PCA_MFCC_DIM = 40;
+interface StreamedFrames {
+  // One per source signal, in the same order
+  tables: FrameTable[];
+  spectrogram: Spectrogram;
+  waveform: WaveformPeaks;
+  // Fitted on the frames that get embedded: the channels when split, else the mixdown
+  basis: IncrementalPCA;
+}
 
-// Fallback 3D from first 3 MFCCs when PCA cannot be applied
-function fallbackPcaCoordinates(frames: AudioFrame[]): AudioFrame[] {
-  return frames.map((frame) => ({
-    ...frame,
-    pcaCoordinates: {
-      x: (frame.mfccs[0] ?? 0) * 0.1,
-      y: (frame.mfccs[1] ?? 0) * 0.1,
-      z: (frame.mfccs[2] ?? 0) * 0.1,
-    },
-  }));
+function frameCountFor(info: WavInfo, options: AnalysisOptions): number {
+  return Math.max(0, Math.floor((info.frameCount - options.frameSize) / options.hopSize));
+}
+
+// Frame tables are the one part of the analysis that grows with duration
+function checkFrameTableBudget(source: AudioSource, options: AnalysisOptions, budget: number): void {
+  const needed = source.signals.length * frameTableBytes(frameCountFor(source.info, options), options.mfccCount);
+  if (needed > budget) {
+    const mb = (bytes: number) => Math.ceil(bytes / (1024 * 1024));
+    throw new Error(
+      `This recording needs about ${mb(needed)} MB of frame features at these settings (limit ${mb(budget)} MB). ` +
+        "Use a larger hop size, fewer MFCCs or a single channel, or analyze a shorter excerpt."
+    );
+  }
 }
 
-// Apply PCA to reduce MFCC dimensions from 40 to 3
-function applyPCA(frames: AudioFrame[]): AudioFrame[] {
-  if (frames.length === 0) return frames;
-  if (frames.length < 2) return fallbackPcaCoordinates(frames);
+function concatSamples(head: Float32Array, tail: Float32Array): Float32Array {
+  if (head.length === 0) return tail;
+  const joined = new Float32Array(head.length + tail.length);
+  joined.set(head);
+  joined.set(tail, head.length);
+  return joined;
+}
 
-  try {
-    const numCols = PCA_MFCC_DIM;
-
-    // For large datasets, subsample to compute PCA basis, then project all frames
-    const PCA_SAMPLE_LIMIT = 2000;
-    const sampleStep = frames.length > PCA_SAMPLE_LIMIT
-      ? Math.floor(frames.length / PCA_SAMPLE_LIMIT)
-      : 1;
-    const sampledIndices: number[] = [];
-    for (let i = 0; i < frames.length; i += sampleStep) {
-      sampledIndices.push(i);
+// Decodes the source a chunk at a time and analyzes every frame at the fixed
+// hop as soon as its samples are in. Only the samples from the next frame's
+// start onwards are carried between chunks, so memory is the frame tables plus
+// one chunk, however long the recording.
+async function extractStreamFrames(
+  source: AudioSource,
+  options: AnalysisOptions,
+  hooks: AnalysisHooks = {}
+): Promise<StreamedFrames> {
+  const { info, signals } = source;
+  const { sampleRate } = info;
+  const { frameSize, hopSize, mfccCount } = options;
+  const numFrames = frameCountFor(info, options);
+  const split = signals.length > 1;
+
+  // Pre-compute mel filterbank once (same for all frames)
+  const filterbank = createMelFilterbank(options.melFilters, frameSize, sampleRate);
+  const spectrogram = new SpectrogramBuilder(frameSize, sampleRate, hopSize / sampleRate, numFrames);
+  const waveform = new WaveformBuilder(sampleRate, info.frameCount);
+  const basis = new IncrementalPCA(mfccCount);
+  const extractors = signals.map((_, s) => new FrameExtractor(
+    new FrameTable(numFrames, mfccCount, hopSize, sampleRate),
+    filterbank,
+    options,
+    sampleRate,
+    s === 0 ? spectrogram : undefined,
+    s > 0 || !split ? basis : undefined
+  ));
+
+  let pending: Float32Array[] = signals.map(() => new Float32Array(0));
+  // Sample index of pending[s][0]
+  let pendingStart = 0;
+  let next = 0;
+
+  hooks.onProgress?.("frames", 0);
+  for await (const chunk of streamWavChannels(source.path, info, signals)) {
+    waveform.push(chunk[0]);
+    pending = pending.map((head, s) => concatSamples(head, chunk[s]));
+    const available = pendingStart + pending[0].length;
+
+    while (next < numFrames && next * hopSize + frameSize <= available) {
+      const start = next * hopSize - pendingStart;
+      for (let s = 0; s < extractors.length; s++) {
+        extractors[s].analyze(pending[s], start, next);
+      }
+      next++;
+      if (next % FRAMES_PER_YIELD === 0) {
+        hooks.onProgress?.("frames", next / numFrames);
+        await yieldToEventLoop();
+        throwIfAborted(hooks.signal);
+      }
     }
 
-    // Build sampled MFCC matrix for computing PCA basis
-    const sampledData = sampledIndices.map((idx) => {
-      const m = frames[idx].mfccs;
-      if (m.length === numCols) return m;
-      if (m.length > numCols) return m.slice(0, numCols);
-      const row = [...m];
-      while (row.length < numCols) row.push(0);
-      return row;
-    });
+    const consumed = Math.min(next * hopSize - pendingStart, pending[0].length);
+    pending = pending.map((samples) => samples.subarray(consumed));
+    pendingStart += consumed;
+    throwIfAborted(hooks.signal);
+  }
 
-    const sampledMatrix = new Matrix(sampledData);
+  const tables = extractors.map((extractor) => extractor.table);
+  tables.forEach(annotateSpectralDescriptors);
+  hooks.onProgress?.("frames", 1);
 
-    // Compute means from sample
-    const means = sampledMatrix.mean('column');
+  return { tables, spectrogram: spectrogram.finish(), waveform: waveform.finish(), basis };
+}
 
-    // Center sampled data
-    for (let col = 0; col < numCols; col++) {
-      for (let row = 0; row < sampledMatrix.rows; row++) {
-        sampledMatrix.set(row, col, sampledMatrix.get(row, col) - means[col]);
-      }
-    }
+// EMA smoothing factor for per-frame descriptors (higher = more responsive)
+const DESCRIPTOR_SMOOTHING = 0.5;
+// Frames either side of the current one used for the adaptive beat threshold
+const BEAT_WINDOW = 8;
+const BEAT_THRESHOLD_SCALE = 1.5;
+const BAND_OFFSET_Z: Record<'low' | 'mid' | 'high', number> = { low: -0.2, mid: 0, high: 0.2 };
+
+// Robust maximum (99th percentile) so a single click doesn't flatten everything else
+function robustMax(values: Float32Array): number {
+  if (values.length === 0) return 0;
+  const sorted = Float32Array.from(values).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.99))];
+}
 
-    // Compute covariance matrix from sample (40x40 — always small)
-    const transposed = sampledMatrix.transpose();
-    const covariance = transposed.mmul(sampledMatrix).div(sampledMatrix.rows - 1);
+function normalizeSeries(values: Float32Array): Float32Array {
+  const max = robustMax(values);
+  return values.map(v => (max > 0 ? Math.min(1, v / max) : 0));
+}
 
-    // Eigenvalue decomposition
-    const evd = new EigenvalueDecomposition(covariance, { assumeSymmetric: true });
-    const eigenvectors = evd.eigenvectorMatrix;
-    const eigenvalues = evd.realEigenvalues;
+function smoothSeries(values: Float32Array, alpha: number = DESCRIPTOR_SMOOTHING): Float32Array {
+  const out = new Float32Array(values.length);
+  let state = values[0] ?? 0;
+  for (let i = 0; i < values.length; i++) {
+    state = alpha * values[i] + (1 - alpha) * state;
+    out[i] = state;
+  }
+  return out;
+}
 
-    if (eigenvectors.rows !== numCols || eigenvectors.columns !== numCols) {
-      return fallbackPcaCoordinates(frames);
-    }
+// Half-wave rectified frame-to-frame energy increase in one band
+function computeBandOnsets(energies: Float32Array): Float32Array {
+  const onsets = new Float32Array(energies.length);
+  for (let i = 1; i < energies.length; i++) {
+    onsets[i] = Math.max(0, energies[i] - energies[i - 1]);
+  }
+  return smoothSeries(normalizeSeries(onsets));
+}
 
-    // Sort eigenvectors by eigenvalues (descending)
-    const sorted = eigenvalues
-      .map((val, idx) => ({ val, idx }))
-      .sort((a, b) => b.val - a.val);
-
-    // Extract top 3 principal component vectors (each length numCols)
-    const pc0 = new Float64Array(numCols);
-    const pc1 = new Float64Array(numCols);
-    const pc2 = new Float64Array(numCols);
-    const col0 = sorted[0].idx, col1 = sorted[1].idx, col2 = sorted[2].idx;
-    for (let r = 0; r < numCols; r++) {
-      pc0[r] = eigenvectors.get(r, col0);
-      pc1[r] = eigenvectors.get(r, col1);
-      pc2[r] = eigenvectors.get(r, col2);
+// Adaptive peak picking: a beat is a local novelty maximum that clears a
+// scaled moving average of its neighbourhood
+function computeBeatStrengths(flux: Float32Array): Float32Array {
+  const strengths = new Float32Array(flux.length);
+  for (let i = 0; i < flux.length; i++) {
+    const lo = Math.max(0, i - BEAT_WINDOW);
+    const hi = Math.min(flux.length - 1, i + BEAT_WINDOW);
+    let sum = 0;
+    let isPeak = true;
+    for (let j = lo; j <= hi; j++) {
+      sum += flux[j];
+      if (flux[j] > flux[i]) isPeak = false;
     }
-
-    // Project ALL frames using simple dot products (avoids building a huge Matrix)
-    const coords: { x: number; y: number; z: number }[] = new Array(frames.length);
-    let maxAbs = 0;
-    for (let i = 0; i < frames.length; i++) {
-      const m = frames[i].mfccs;
-      let x = 0, y = 0, z = 0;
-      for (let d = 0; d < numCols; d++) {
-        const centered = (d < m.length ? m[d] : 0) - means[d];
-        x += centered * pc0[d];
-        y += centered * pc1[d];
-        z += centered * pc2[d];
-      }
-      coords[i] = { x, y, z };
-      maxAbs = Math.max(maxAbs, Math.abs(x), Math.abs(y), Math.abs(z));
+    const threshold = (sum / (hi - lo + 1)) * BEAT_THRESHOLD_SCALE;
+    if (isPeak && flux[i] > threshold && flux[i] > 0) {
+      strengths[i] = Math.min(1, (flux[i] - threshold) / flux[i] + 0.5);
     }
+  }
+  return smoothSeries(strengths);
+}
 
-    const scale = maxAbs > 0 ? 5 / maxAbs : 1;
+// Index into BANDS
+function pickDominantBand(low: number, mid: number, high: number): number {
+  if (low >= mid && low >= high) return 0;
+  if (mid >= high) return 1;
+  return 2;
+}
 
-    return frames.map((frame, i) => ({
-      ...frame,
-      pcaCoordinates: {
-        x: coords[i].x * scale,
-        y: coords[i].y * scale,
-        z: coords[i].z * scale,
-      }
-    }));
-  } catch {
-    return fallbackPcaCoordinates(frames);
+function annotateSpectralDescriptors(table: FrameTable): void {
+  if (table.length === 0) return;
+
+  const flux = normalizeSeries(table.flux);
+  const loudnessOnsets = normalizeSeries(table.onsetStrength);
+  // Beat novelty mixes spectral change with plain loudness increases
+  const novelty = flux.map((v, i) => (v + loudnessOnsets[i]) / 2);
+
+  table.flux.set(smoothSeries(flux));
+  table.complexity.set(smoothSeries(normalizeSeries(table.flatness)));
+  table.beatStrength.set(computeBeatStrengths(novelty));
+  table.onsetLow.set(computeBandOnsets(table.bandLow));
+  table.onsetMid.set(computeBandOnsets(table.bandMid));
+  table.onsetHigh.set(computeBandOnsets(table.bandHigh));
+  for (let i = 0; i < table.length; i++) {
+    table.band[i] = pickDominantBand(table.bandLow[i], table.bandMid[i], table.bandHigh[i]);
   }
 }
 
-function segmentIntoVerses(frames: AudioFrame[], duration: number): { start: number; end: number; frames: AudioFrame[] }[] {
-  const verses: { start: number; end: number; frames: AudioFrame[] }[] = [];
-  
-  if (frames.length === 0) return verses;
+interface VerseSegment {
+  start: number;
+  end: number;
+  // Indices into the frame tables
+  frames: number[];
+}
+
+function segmentIntoVerses(
+  table: FrameTable,
+  duration: number,
+  options: AnalysisOptions
+): VerseSegment[] {
+  const verses: VerseSegment[] = [];
 
-  const maxAmp = Math.max(...frames.map(f => f.amplitude || 0));
-  const silenceThreshold = maxAmp * 0.1;
+  if (table.length === 0) return verses;
+
+  let maxAmp = 0;
+  for (let i = 0; i < table.length; i++) maxAmp = Math.max(maxAmp, table.amplitude[i]);
+  const silenceThreshold = maxAmp * options.silenceThreshold;
 
   let verseStart = 0;
-  let verseFrames: AudioFrame[] = [];
+  let verseFrames: number[] = [];
   let inSilence = false;
   let silenceStart = 0;
-  const minSilenceDuration = 0.2;
-  const minVerseDuration = 0.3;
+  const { minSilenceDuration, minVerseDuration } = options;
 
-  for (const frame of frames) {
-    const isSilent = (frame.amplitude || 0) < silenceThreshold;
+  for (let i = 0; i < table.length; i++) {
+    const t = table.time(i);
+    const isSilent = table.amplitude[i] < silenceThreshold;
 
     if (isSilent && !inSilence) {
       inSilence = true;
-      silenceStart = frame.t;
+      silenceStart = t;
     } else if (!isSilent && inSilence) {
-      const silenceDuration = frame.t - silenceStart;
+      const silenceDuration = t - silenceStart;
       if (silenceDuration > minSilenceDuration && verseFrames.length > 0) {
         const verseDuration = silenceStart - verseStart;
         if (verseDuration >= minVerseDuration) {
           verses.push({
             start: verseStart,
             end: silenceStart,
-            frames: [...verseFrames],
+            frames: verseFrames,
           });
         }
-        verseStart = frame.t;
+        verseStart = t;
         verseFrames = [];
       }
       inSilence = false;
     }
 
     if (!isSilent) {
-      verseFrames.push(frame);
+      verseFrames.push(i);
     }
   }
 
@@ -636,13 +708,17 @@ function segmentIntoVerses(frames: AudioFrame[], duration: number): { start: num
     });
   }
 
-  if (verses.length === 0 && frames.length > 0) {
+  if (verses.length === 0) {
     const segmentDuration = duration / Math.min(4, Math.ceil(duration / 5));
     const numSegments = Math.ceil(duration / segmentDuration);
-    for (let i = 0; i < numSegments; i++) {
-      const start = i * segmentDuration;
-      const end = Math.min((i + 1) * segmentDuration, duration);
-      const segmentFrames = frames.filter(f => f.t >= start && f.t < end);
+    for (let s = 0; s < numSegments; s++) {
+      const start = s * segmentDuration;
+      const end = Math.min((s + 1) * segmentDuration, duration);
+      const segmentFrames: number[] = [];
+      for (let i = 0; i < table.length; i++) {
+        const t = table.time(i);
+        if (t >= start && t < end) segmentFrames.push(i);
+      }
       if (segmentFrames.length > 0) {
         verses.push({ start, end, frames: segmentFrames });
       }
@@ -652,43 +728,84 @@ function segmentIntoVerses(frames: AudioFrame[], duration: number): { start: num
   return verses;
 }
 
-function normalizeValue(value: number, min: number, max: number): number {
-  if (max === min) return 0.5;
-  return Math.max(0, Math.min(1, (value - min) / (max - min)));
+// A phrase's frames as the syllable detector reads them, straight from the table
+function syllableFrames(table: FrameTable, frames: number[]): SyllableFrames {
+  return {
+    length: frames.length,
+    t: (i) => table.time(frames[i]),
+    amplitude: (i) => table.amplitude[frames[i]],
+    beatStrength: (i) => table.beatStrength[frames[i]],
+    mfccs: (i) => table.mfccsAt(frames[i]),
+  };
 }
 
-function findKNearestNeighbors(points: VisualizationPoint[], k: number): [number, number][] {
-  const edges: [number, number][] = [];
-  const edgeSet = new Set<string>();
-
-  for (let i = 0; i < points.length; i++) {
-    const distances: { index: number; dist: number }[] = [];
-
-    for (let j = 0; j < points.length; j++) {
-      if (i === j) continue;
-
-      const dx = points[i].x - points[j].x;
-      const dy = points[i].y - points[j].y;
-      const dz = points[i].z - points[j].z;
-      const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
-
-      distances.push({ index: j, dist });
+// Lag, in samples, at which `other` best matches `ref` over one frame; positive
+// when `other` hears the sound later
+function estimateLag(ref: Float32Array, other: Float32Array, start: number, length: number, maxLag: number): number {
+  const end = Math.min(start + length, ref.length);
+  let bestLag = 0;
+  let best = -Infinity;
+  for (let lag = -maxLag; lag <= maxLag; lag++) {
+    const from = Math.max(start, -lag);
+    const to = Math.min(end, other.length - lag);
+    let sum = 0;
+    for (let n = from; n < to; n++) {
+      sum += ref[n] * other[n + lag];
     }
+    if (sum > best) {
+      best = sum;
+      bestLag = lag;
+    }
+  }
+  return bestLag;
+}
 
-    distances.sort((a, b) => a.dist - b.dist);
+interface ChannelCue {
+  levelDifference: number;
+  timeDifference: number;
+}
 
-    for (let n = 0; n < Math.min(k, distances.length); n++) {
-      const j = distances[n].index;
-      const edgeKey = i < j ? `${i}-${j}` : `${j}-${i}`;
+// Level and arrival time of every channel relative to the loudest one in each
+// of `frames`, indexed [frame][channel]. Only the samples around those frames
+// are read back from the file, so this runs on the handful that become points.
+async function readChannelCues(
+  source: AudioSource,
+  channelTables: FrameTable[],
+  frames: number[],
+  options: AnalysisOptions
+): Promise<ChannelCue[][]> {
+  const { sampleRate } = source.info;
+  const maxLag = Math.min(Math.round(MAX_TIME_DIFFERENCE * sampleRate), options.frameSize >> 1);
+  const windows = frames.map((i) => {
+    const frameStart = channelTables[0].startSample(i);
+    const start = Math.max(0, frameStart - maxLag);
+    return { start, length: frameStart + options.frameSize + maxLag - start };
+  });
+  const signals = await readWavWindows(source.path, source.info, windows, source.signals.slice(1));
 
-      if (!edgeSet.has(edgeKey)) {
-        edgeSet.add(edgeKey);
-        edges.push([i, j]);
-      }
+  return frames.map((i, k) => {
+    let loudest = 0;
+    for (let c = 1; c < channelTables.length; c++) {
+      if (channelTables[c].amplitude[i] > channelTables[loudest].amplitude[i]) loudest = c;
     }
-  }
+    const reference = channelTables[loudest].amplitude[i];
+    const offset = channelTables[0].startSample(i) - windows[k].start;
+
+    return channelTables.map((table, c) => {
+      if (c === loudest) return { levelDifference: 0, timeDifference: 0 };
+      const amplitude = table.amplitude[i];
+      const levelDifference = amplitude > 0 && reference > 0
+        ? Math.max(MIN_LEVEL_DIFFERENCE_DB, 20 * Math.log10(amplitude / reference))
+        : MIN_LEVEL_DIFFERENCE_DB;
+      const lag = estimateLag(signals[k][loudest], signals[k][c], offset, options.frameSize, maxLag);
+      return { levelDifference, timeDifference: lag / sampleRate };
+    });
+  });
+}
 
-  return edges;
+function normalizeValue(value: number, min: number, max: number): number {
+  if (max === min) return 0.5;
+  return Math.max(0, Math.min(1, (value - min) / (max - min)));
 }
 
 // Map frequency to hue for color coding (red/orange/yellow gradient)
@@ -698,139 +815,418 @@ function mapFrequencyToHue(frequency: number): number {
   return normalized * 60;
 }
 
-function mapFramesToVisualization(
-  verseSegments: { start: number; end: number; frames: AudioFrame[] }[],
-  duration: number
-): Verse[] {
-  const allFrames = verseSegments.flatMap(v => v.frames);
-
-  if (allFrames.length === 0) {
-    return [];
+// Syllable type at time t, or undefined between syllables; syllables are in time order
+function syllableTypeAt(syllables: Syllable[], t: number): number | undefined {
+  for (const syllable of syllables) {
+    if (t < syllable.start) return undefined;
+    if (t < syllable.end) return syllable.type;
   }
+  return undefined;
+}
 
-  const amplitudeMax = Math.max(...allFrames.map(f => f.amplitude || 0));
-
-  return verseSegments.map((segment, verseIndex) => {
-    const maxPoints = 400;
-    const step = Math.max(1, Math.floor(segment.frames.length / maxPoints));
-    const sampledFrames = segment.frames.filter((_, i) => i % step === 0);
-
-    const points: VisualizationPoint[] = sampledFrames.map(frame => {
-      // Use PCA coordinates directly
-      const { x, y, z } = frame.pcaCoordinates || { x: 0, y: 0, z: 0 };
+// Frames of a phrase that become points, evenly spaced; the same frames are
+// taken from every channel's table
+function samplePointFrames(segment: VerseSegment, options: AnalysisOptions): number[] {
+  const step = Math.max(1, Math.floor(segment.frames.length / options.pointsPerVerse));
+  return segment.frames.filter((_, i) => i % step === 0);
+}
 
-      // Frequency-based color (match video: red/orange/yellow)
-      const hue = mapFrequencyToHue(frame.frequency || 0);
-      const saturation = 0.8;
-      const lightness = 0.6;
+// MFCC vectors of every point, phrase by phrase and cloud by cloud, in the
+// order mapFramesToVisualization consumes their coordinates
+function pointVectors(pointFrames: number[][], clouds: FrameTable[]): { vectors: number[][]; groups: number[] } {
+  const vectors: number[][] = [];
+  // One group per phrase and cloud
+  const groups: number[] = [];
+  pointFrames.forEach((frames, verse) => {
+    clouds.forEach((table, c) => {
+      for (const i of frames) {
+        vectors.push(Array.from(table.mfccsAt(i)));
+        groups.push(verse * clouds.length + c);
+      }
+    });
+  });
+  return { vectors, groups };
+}
 
-      // Size based on amplitude
-      const normalizedAmplitude = amplitudeMax > 0 ? (frame.amplitude || 0) / amplitudeMax : 0.5;
-      const size = 0.05 + normalizedAmplitude * 0.15;
+function tablePoint(
+  table: FrameTable,
+  i: number,
+  { x, y, z }: Coordinates,
+  amplitudeMax: number,
+  syllables: Syllable[]
+): VisualizationPoint {
+  const t = table.time(i);
+  const band = BANDS[table.band[i]];
+
+  // Frequency-based color (match video: red/orange/yellow); voiced frames
+  // use the tracked f0, everything else the spectral peak
+  const isVoiced = table.pitchConfidence[i] >= VOICED_CONFIDENCE;
+  const hue = mapFrequencyToHue(isVoiced ? table.pitch[i] : table.frequency[i]);
+  const saturation = 0.8;
+  const lightness = 0.6;
+
+  // Size based on amplitude
+  const normalizedAmplitude = amplitudeMax > 0 ? table.amplitude[i] / amplitudeMax : 0.5;
+  const size = 0.05 + normalizedAmplitude * 0.15;
+
+  return {
+    x,
+    y,
+    z,
+    size,
+    color: [hue, saturation, lightness] as [number, number, number],
+    time: t,
+    mfccs: Array.from(table.mfccsAt(i)),
+    frequency: table.frequency[i],
+    pitch: table.pitch[i],
+    pitchConfidence: table.pitchConfidence[i],
+    centroid: table.centroid[i],
+    bandwidth: table.bandwidth[i],
+    flux: table.flux[i],
+    flatness: table.flatness[i],
+    beatStrength: table.beatStrength[i],
+    complexity: table.complexity[i],
+    band,
+    bandOffsetZ: BAND_OFFSET_Z[band],
+    onsetLow: table.onsetLow[i],
+    onsetMid: table.onsetMid[i],
+    onsetHigh: table.onsetHigh[i],
+    syllableType: syllableTypeAt(syllables, t),
+  };
+}
 
-      return {
-        x,
-        y,
-        z,
-        size,
-        color: [hue, saturation, lightness] as [number, number, number],
-        time: frame.t,
-        mfccs: frame.mfccs,
-        frequency: frame.frequency,
-      };
-    });
+// `clouds` is the mixdown's table, or one table per channel for "split": each
+// phrase then gets one cloud per channel, linked on its own so they stay separate
+async function mapFramesToVisualization(
+  verseSegments: VerseSegment[],
+  pointFrames: number[][],
+  coordinates: Coordinates[],
+  verseSyllables: Syllable[][],
+  clouds: FrameTable[],
+  options: AnalysisOptions,
+  readCues?: (frames: number[]) => Promise<ChannelCue[][]>,
+  hooks: AnalysisHooks = {}
+): Promise<Verse[]> {
+  let amplitudeMax = 0;
+  for (const segment of verseSegments) {
+    for (const table of clouds) {
+      for (const i of segment.frames) amplitudeMax = Math.max(amplitudeMax, table.amplitude[i]);
+    }
+  }
 
-    // Compute k-nearest neighbors based on Euclidean distance in 3D PCA space
-    const edges = points.length > 1 ? findKNearestNeighbors(points, 3) : [];
+  const verses: Verse[] = [];
+  let next = 0;
+
+  for (let verseIndex = 0; verseIndex < verseSegments.length; verseIndex++) {
+    hooks.onProgress?.("knn", verseIndex / verseSegments.length);
+    await yieldToEventLoop();
+    throwIfAborted(hooks.signal);
+
+    const segment = verseSegments[verseIndex];
+    const frames = pointFrames[verseIndex];
+    const syllables = verseSyllables[verseIndex] ?? [];
+    const cues = readCues ? await readCues(frames) : undefined;
+    const points: VisualizationPoint[] = [];
+    const edges: [number, number][] = [];
+    const edgeWeights: number[] = [];
+
+    for (let c = 0; c < clouds.length; c++) {
+      const cloudPoints = frames.map((i, k) => {
+        const point = tablePoint(clouds[c], i, coordinates[next++], amplitudeMax, syllables);
+        if (cues) {
+          point.channel = c;
+          point.levelDifference = cues[k][c].levelDifference;
+          point.timeDifference = cues[k][c].timeDifference;
+        }
+        return point;
+      });
+
+      // Link points by Euclidean distance in the embedding, within this cloud only
+      const offset = points.length;
+      const graph = buildNeighborGraph(cloudPoints, options.neighbors, options.network);
+      graph.edges.forEach(([a, b], e) => {
+        edges.push([a + offset, b + offset]);
+        edgeWeights.push(graph.weights[e]);
+      });
+      points.push(...cloudPoints);
+    }
 
-    return {
+    verses.push({
       id: verseIndex,
       name: `Phrase ${verseIndex + 1}`,
       start: segment.start,
       end: segment.end,
       points,
       edges,
-    };
-  });
+      edgeWeights,
+      syllables,
+    });
+  }
+
+  hooks.onProgress?.("knn", 1);
+  return verses;
 }
 
-async function transcodeToWav(inputPath: string): Promise<string> {
-  const tempWavPath = path.join(os.tmpdir(), `${randomUUID()}.wav`);
+// Runs an ffmpeg command to completion with cancellation. Hour-long recordings
+// take a while to transcode, so the timeout only fires when ffmpeg stops
+// reporting progress.
+function runFfmpeg(command: ffmpeg.FfmpegCommand, outputPath: string, hooks: AnalysisHooks, onPercent?: (fraction: number) => void): Promise<void> {
+  throwIfAborted(hooks.signal);
 
   return new Promise((resolve, reject) => {
-    const timeout = setTimeout(() => {
+    let processResource: AnalysisResource | undefined;
+    const release = () => {
+      if (processResource) hooks.onRelease?.(processResource);
+      processResource = undefined;
+    };
+    const stall = () => {
       command.kill("SIGKILL");
-      reject(new Error("Audio transcoding timed out after 60 seconds."));
-    }, 60000);
-
-    const command = ffmpeg(inputPath)
-      .toFormat("wav")
-      .audioCodec("pcm_s16le")
-      .audioChannels(1)
-      .audioFrequency(22050)
+      reject(new Error("Audio transcoding stalled for 60 seconds."));
+    };
+    let timeout = setTimeout(stall, TRANSCODE_STALL_MS);
+
+    const handleAbort = () => {
+      clearTimeout(timeout);
+      command.kill("SIGKILL");
+      reject(new AnalysisCancelledError());
+    };
+    hooks.signal?.addEventListener("abort", handleAbort, { once: true });
+
+    command
+      .on("start", () => {
+        // fluent-ffmpeg sets ffmpegProc just before "start" but doesn't type it
+        const pid = (command as unknown as { ffmpegProc?: { pid?: number } }).ffmpegProc?.pid;
+        if (pid !== undefined) {
+          processResource = { kind: "process", pid };
+          hooks.onAcquire?.(processResource);
+        }
+      })
+      .on("progress", (info) => {
+        clearTimeout(timeout);
+        timeout = setTimeout(stall, TRANSCODE_STALL_MS);
+        if (typeof info.percent === "number") {
+          onPercent?.(Math.min(1, info.percent / 100));
+        }
+      })
       .on("error", (err) => {
         clearTimeout(timeout);
+        release();
+        hooks.signal?.removeEventListener("abort", handleAbort);
+        // ffmpeg's wording when selectSoundtrack's -map finds no audio stream
+        if (/matches no streams/.test(err.message)) {
+          reject(new Error(NO_AUDIO_TRACK_MESSAGE));
+          return;
+        }
         reject(new Error(`Failed to transcode audio: ${err.message}`));
       })
       .on("end", () => {
         clearTimeout(timeout);
-        resolve(tempWavPath);
+        release();
+        hooks.signal?.removeEventListener("abort", handleAbort);
+        resolve();
       })
-      .save(tempWavPath);
+      .save(outputPath);
   });
 }
 
-export async function analyzeAudioFile(filePath: string): Promise<AnalysisResult> {
-  const ext = path.extname(filePath).toLowerCase();
-  const supportedFormats = [".wav", ".mp3", ".m4a"];
-  
-  if (!supportedFormats.includes(ext)) {
-    throw new Error("Unsupported audio format. Please upload WAV, MP3, or M4A files.");
+// Video containers get their first audio stream mapped explicitly, so one
+// without any fails with a clear message instead of an empty output. noVideo()
+// also drops the cover art some audio files carry.
+function selectSoundtrack(command: ffmpeg.FfmpegCommand, format: AudioFormat): ffmpeg.FfmpegCommand {
+  command.noVideo();
+  if (format.video) command.outputOptions("-map", "0:a:0");
+  return command;
+}
+
+// The output is mono (the downmix, or the selected channel routed through pan)
+// unless the channels are to be analyzed separately.
+async function transcodeToWav(
+  inputPath: string,
+  format: AudioFormat,
+  channel: AnalysisChannel,
+  hooks: AnalysisHooks = {}
+): Promise<string> {
+  const tempWavPath = path.join(os.tmpdir(), `${randomUUID()}.wav`);
+  const command = selectSoundtrack(ffmpeg(inputPath), format)
+    .toFormat("wav")
+    .audioCodec("pcm_s16le")
+    .audioFrequency(TRANSCODE_SAMPLE_RATE);
+  if (channel === "mix") {
+    command.audioChannels(1);
+  } else if (channel !== "split") {
+    command.audioFilters(`pan=mono|c0=c${channel}`);
   }
-  
-  let wavFilePath = filePath;
-  let needsCleanup = false;
-  
-  if (ext !== ".wav") {
-    wavFilePath = await transcodeToWav(filePath);
-    needsCleanup = true;
+  const file: AnalysisResource = { kind: "file", path: tempWavPath };
+  hooks.onAcquire?.(file);
+  try {
+    await runFfmpeg(command, tempWavPath, hooks, (fraction) => hooks.onProgress?.("transcode", fraction));
+  } catch (err) {
+    fs.rmSync(tempWavPath, { force: true });
+    hooks.onRelease?.(file);
+    throw err;
   }
-  
+  return tempWavPath;
+}
+
+// AAC copy for the player of uploads browsers can't play (AIFF, most video containers)
+export async function createPlaybackCopy(inputPath: string, outputPath: string, hooks: AnalysisHooks = {}): Promise<void> {
+  const format = formatForFilename(inputPath);
+  if (!format) {
+    throw new Error(UNSUPPORTED_FORMAT_MESSAGE);
+  }
+  const command = selectSoundtrack(ffmpeg(inputPath), format)
+    .toFormat("mp4")
+    .audioCodec("aac")
+    .audioBitrate("192k");
   try {
-    const buffer = fs.readFileSync(wavFilePath);
-    
-    const header = parseWavHeader(buffer);
-    if (!header) {
+    await runFfmpeg(command, outputPath, hooks);
+  } catch (err) {
+    if (fs.existsSync(outputPath)) fs.unlinkSync(outputPath);
+    throw err;
+  }
+}
+
+function signalsFor(info: WavInfo, channel: AnalysisChannel): WavChannel[] {
+  if (channel !== "split") return [channel];
+  const count = Math.min(info.channels, MAX_SPLIT_CHANNELS);
+  return count > 1 ? ["mix", ...Array.from({ length: count }, (_, c) => c)] : ["mix"];
+}
+
+// WAV is streamed from the upload, at its own sample rate and depth. Other
+// formats, and WAV encodings the decoder doesn't cover (ADPCM, A-law, ...), are
+// transcoded by ffmpeg to a temporary WAV that is streamed the same way.
+async function openAudioSource(
+  filePath: string,
+  format: AudioFormat,
+  channel: AnalysisChannel,
+  hooks: AnalysisHooks
+): Promise<AudioSource> {
+  if (format.native) {
+    const info = readWavHeader(filePath);
+    if (!info) {
       throw new Error("Failed to parse audio file. Please ensure it's a valid audio file.");
     }
-    
-    const sampleRate = header.sampleRate;
-    const samples = extractPcmSamples(buffer, header);
-    
-    if (samples.length === 0) {
-      throw new Error("Could not extract audio samples from the file.");
+    if (info.sampleFormat) {
+      return {
+        path: filePath,
+        info,
+        signals: signalsFor(info, channel),
+        metadata: wavMetadata(info),
+        dispose: () => {},
+      };
+    }
+  }
+
+  const wavFilePath = await transcodeToWav(filePath, format, channel, hooks);
+  const dispose = () => {
+    if (fs.existsSync(wavFilePath)) {
+      fs.unlinkSync(wavFilePath);
+    }
+    hooks.onRelease?.({ kind: "file", path: wavFilePath });
+  };
+  try {
+    const info = readWavHeader(wavFilePath);
+    if (!info) {
+      throw new Error("Failed to parse audio file. Please ensure it's a valid audio file.");
     }
-    
-    const duration = samples.length / sampleRate;
+    // Anything but "split" was already reduced to mono by ffmpeg
+    return {
+      path: wavFilePath,
+      info,
+      signals: signalsFor(info, channel === "split" ? "split" : "mix"),
+      dispose,
+    };
+  } catch (err) {
+    dispose();
+    throw err;
+  }
+}
 
-    const frames = extractAudioFrames(samples, sampleRate);
+export async function analyzeAudioFile(
+  filePath: string,
+  options: AnalysisOptions = defaultAnalysisOptions,
+  hooks: AnalysisHooks = {},
+  limits: AnalysisLimits = DEFAULT_LIMITS
+): Promise<AnalysisResult> {
+  const format = formatForFilename(filePath);
+  if (!format) {
+    throw new Error(UNSUPPORTED_FORMAT_MESSAGE);
+  }
 
-    // Apply PCA to reduce 40D MFCCs to 3D coordinates
-    const framesWithPCA = applyPCA(frames);
+  hooks.onProgress?.("transcode", 0);
+  const source = await openAudioSource(filePath, format, options.channel, hooks);
+  hooks.onProgress?.("transcode", 1);
 
-    const verseSegments = segmentIntoVerses(framesWithPCA, duration);
+  try {
+    const { info } = source;
+    if (info.frameCount === 0) {
+      throw new Error("Could not extract audio samples from the file.");
+    }
+    const { sampleRate } = info;
+    const duration = info.frameCount / sampleRate;
+    checkFrameTableBudget(source, options, limits.frameTableBytes);
+
+    // Waveform, spectrogram, phrases and syllables come from the first signal:
+    // the mixdown, or the selected channel
+    const { tables, spectrogram, waveform, basis } = await extractStreamFrames(source, options, hooks);
+    const [mix, ...channelTables] = tables;
+    const clouds = channelTables.length > 0 ? channelTables : [mix];
+
+    hooks.onProgress?.("segmentation", 0);
+    await yieldToEventLoop();
+    throwIfAborted(hooks.signal);
+    const verseSegments = segmentIntoVerses(mix, duration, options);
+    const pointFrames = verseSegments.map((segment) => samplePointFrames(segment, options));
+    hooks.onProgress?.("segmentation", 1);
+
+    // Only the frames that become points are embedded; PCA projects them onto
+    // the basis fitted over every frame. Channels share one embedding so their
+    // clouds are directly comparable.
+    hooks.onProgress?.("embedding", 0);
+    await yieldToEventLoop();
+    throwIfAborted(hooks.signal);
+    const { vectors, groups } = pointVectors(pointFrames, clouds);
+    const coordinates = await embedVectors(
+      vectors,
+      options.embedding,
+      stageContext("embedding", hooks),
+      basis,
+      groups
+    );
+
+    hooks.onProgress?.("syllables", 0);
+    const verseSyllables = await detectSyllables(
+      verseSegments.map((segment) => syllableFrames(mix, segment.frames)),
+      mix.frameDuration,
+      options,
+      stageContext("syllables", hooks)
+    );
+
+    const readCues = channelTables.length > 0
+      ? (frames: number[]) => readChannelCues(source, channelTables, frames, options)
+      : undefined;
+    const verses = await mapFramesToVisualization(
+      verseSegments,
+      pointFrames,
+      coordinates,
+      verseSyllables,
+      clouds,
+      options,
+      readCues,
+      hooks
+    );
 
-    const verses = mapFramesToVisualization(verseSegments, duration);
-    
     return {
       duration,
       sampleRate,
       verses,
+      options,
+      spectrogram,
+      waveform,
+      wavMetadata: source.metadata,
     };
   } finally {
-    if (needsCleanup && fs.existsSync(wavFilePath)) {
-      fs.unlinkSync(wavFilePath);
-    }
+    source.dispose();
   }
 }
 
@@ -853,14 +1249,11 @@ function _generateFallbackSamples(buffer: Buffer, sampleRate: number): Float32Ar
 }
 
 export async function getAudioDuration(filePath: string): Promise<number> {
-  const ext = path.extname(filePath).toLowerCase();
-  
-  if (ext === ".wav") {
-    const buffer = fs.readFileSync(filePath);
-    const header = parseWavHeader(buffer);
-    if (header) {
-      const numSamples = header.dataLength / (header.bitsPerSample / 8) / header.channels;
-      return numSamples / header.sampleRate;
+  const format = formatForFilename(filePath);
+  if (format?.native) {
+    const info = readWavHeader(filePath);
+    if (info?.sampleFormat) {
+      return info.frameCount / info.sampleRate;
     }
   }
   
@@ -870,6 +1263,10 @@ export async function getAudioDuration(filePath: string): Promise<number> {
         reject(new Error(`Failed to get audio duration: ${err.message}`));
         return;
       }
+      if (format?.video && !metadata.streams.some((stream) => stream.codec_type === "audio")) {
+        reject(new Error(NO_AUDIO_TRACK_MESSAGE));
+        return;
+      }
       const duration = metadata.format.duration || 0;
       resolve(duration);
     });
@@ -0,0 +1,767 @@
+import { Matrix, EigenvalueDecomposition } from "ml-matrix";
+import type { EmbeddingMethod, EmbeddingOptions } from "@shared/schema";
+import type { IncrementalPCA } from "@shared/incremental-pca";
+
+export interface Coordinates {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface StageContext {
+  // Fraction 0-1 of the current stage
+  report(progress: number): void;
+  // Yields to the event loop and throws if the analysis was cancelled
+  checkpoint(): Promise<void>;
+}
+
+type Embedder = (vectors: number[][], options: EmbeddingOptions, context: StageContext) => Promise<Coordinates[]>;
+
+// Coordinates are scaled so the largest absolute component lands here
+const EMBEDDING_EXTENT = 5;
+
+// PCA only needs a covariance estimate, so the basis comes from a subsample
+const PCA_SAMPLE_LIMIT = 2000;
+
+// UMAP and t-SNE are fitted on about this many vectors (at least one per
+// group); every other vector is placed among the fitted vectors nearest to it
+// in feature space within the same group
+const NONLINEAR_SAMPLE_LIMIT = 4000;
+// Fitted vectors each other vector is placed among
+const PLACEMENT_NEIGHBORS = 3;
+// Nearest-sample searches between checkpoints
+const ASSIGNMENTS_PER_CHECKPOINT = 2000;
+
+const ITERATIONS_PER_CHECKPOINT = 10;
+
+// Deterministic PRNG (mulberry32) so a seed reproduces an embedding exactly
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gaussian(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+function scaleToExtent(coords: Coordinates[]): Coordinates[] {
+  let maxAbs = 0;
+  for (const c of coords) {
+    maxAbs = Math.max(maxAbs, Math.abs(c.x), Math.abs(c.y), Math.abs(c.z));
+  }
+  const scale = maxAbs > 0 ? EMBEDDING_EXTENT / maxAbs : 1;
+  return coords.map((c) => ({ x: c.x * scale, y: c.y * scale, z: c.z * scale }));
+}
+
+function toFlat(coords: Coordinates[]): Float64Array {
+  const flat = new Float64Array(coords.length * 3);
+  coords.forEach((c, i) => {
+    flat[i * 3] = c.x;
+    flat[i * 3 + 1] = c.y;
+    flat[i * 3 + 2] = c.z;
+  });
+  return flat;
+}
+
+function fromFlat(flat: Float64Array): Coordinates[] {
+  const coords: Coordinates[] = new Array(flat.length / 3);
+  for (let i = 0; i < coords.length; i++) {
+    coords[i] = { x: flat[i * 3], y: flat[i * 3 + 1], z: flat[i * 3 + 2] };
+  }
+  return coords;
+}
+
+// Fallback 3D from first 3 MFCCs when PCA cannot be applied
+function fallbackCoordinates(vectors: number[][]): Coordinates[] {
+  return vectors.map((v) => ({
+    x: (v[0] ?? 0) * 0.1,
+    y: (v[1] ?? 0) * 0.1,
+    z: (v[2] ?? 0) * 0.1,
+  }));
+}
+
+// Project onto the top 3 principal components; null when the data is too small or degenerate
+function projectPCA(vectors: number[][]): Coordinates[] | null {
+  const numCols = vectors[0]?.length ?? 0;
+  if (vectors.length < 2 || numCols < 3) return null;
+
+  try {
+    const sampleStep = vectors.length > PCA_SAMPLE_LIMIT
+      ? Math.floor(vectors.length / PCA_SAMPLE_LIMIT)
+      : 1;
+    const sampledData: number[][] = [];
+    for (let i = 0; i < vectors.length; i += sampleStep) {
+      sampledData.push(vectors[i]);
+    }
+
+    const sampledMatrix = new Matrix(sampledData);
+    const means = sampledMatrix.mean('column');
+    for (let col = 0; col < numCols; col++) {
+      for (let row = 0; row < sampledMatrix.rows; row++) {
+        sampledMatrix.set(row, col, sampledMatrix.get(row, col) - means[col]);
+      }
+    }
+
+    // Covariance is mfccCount x mfccCount — always small
+    const covariance = sampledMatrix.transpose().mmul(sampledMatrix).div(sampledMatrix.rows - 1);
+    const evd = new EigenvalueDecomposition(covariance, { assumeSymmetric: true });
+    const eigenvectors = evd.eigenvectorMatrix;
+    if (eigenvectors.rows !== numCols || eigenvectors.columns !== numCols) return null;
+
+    const sorted = evd.realEigenvalues
+      .map((val, idx) => ({ val, idx }))
+      .sort((a, b) => b.val - a.val);
+
+    const components = [0, 1, 2].map((k) => {
+      const pc = new Float64Array(numCols);
+      for (let r = 0; r < numCols; r++) pc[r] = eigenvectors.get(r, sorted[k].idx);
+      return pc;
+    });
+
+    // Project every vector with plain dot products (avoids building a huge Matrix)
+    return vectors.map((v) => {
+      const out = [0, 0, 0];
+      for (let d = 0; d < numCols; d++) {
+        const centered = v[d] - means[d];
+        out[0] += centered * components[0][d];
+        out[1] += centered * components[1][d];
+        out[2] += centered * components[2][d];
+      }
+      return { x: out[0], y: out[1], z: out[2] };
+    });
+  } catch {
+    return null;
+  }
+}
+
+const embedPCA: Embedder = async (vectors) => {
+  const projected = projectPCA(vectors);
+  return projected ? scaleToExtent(projected) : fallbackCoordinates(vectors);
+};
+
+// Exact k nearest neighbours by Euclidean distance, sorted nearest first.
+// O(n²) but bounded by NONLINEAR_SAMPLE_LIMIT.
+async function exactNeighbors(
+  vectors: number[][],
+  k: number,
+  context: StageContext
+): Promise<{ indices: Int32Array; distances: Float64Array }> {
+  const n = vectors.length;
+  const dim = vectors[0].length;
+  const indices = new Int32Array(n * k);
+  const distances = new Float64Array(n * k);
+
+  for (let i = 0; i < n; i++) {
+    const base = i * k;
+    let count = 0;
+    const vi = vectors[i];
+    for (let j = 0; j < n; j++) {
+      if (j === i) continue;
+      const vj = vectors[j];
+      let d2 = 0;
+      for (let d = 0; d < dim; d++) {
+        const diff = vi[d] - vj[d];
+        d2 += diff * diff;
+      }
+      if (count === k && d2 >= distances[base + k - 1]) continue;
+
+      // Insertion into the sorted neighbour list
+      let pos = count < k ? count++ : k - 1;
+      while (pos > 0 && distances[base + pos - 1] > d2) {
+        distances[base + pos] = distances[base + pos - 1];
+        indices[base + pos] = indices[base + pos - 1];
+        pos--;
+      }
+      distances[base + pos] = d2;
+      indices[base + pos] = j;
+    }
+    for (let p = 0; p < k; p++) distances[base + p] = Math.sqrt(distances[base + p]);
+
+    if (i % 250 === 249) await context.checkpoint();
+  }
+
+  return { indices, distances };
+}
+
+// ---------------------------------------------------------------------------
+// t-SNE (Barnes-Hut, 3D)
+// ---------------------------------------------------------------------------
+
+const TSNE_THETA = 0.5;
+const TSNE_EARLY_EXAGGERATION = 12;
+const TSNE_MIN_GAIN = 0.01;
+const OCTREE_MAX_DEPTH = 24;
+
+class OctreeNode {
+  count = 0;
+  comX = 0;
+  comY = 0;
+  comZ = 0;
+  pointIndex = -1;
+  children: OctreeNode[] | null = null;
+
+  constructor(
+    readonly cx: number,
+    readonly cy: number,
+    readonly cz: number,
+    readonly half: number
+  ) {}
+
+  insert(y: Float64Array, i: number, depth: number): void {
+    const px = y[i * 3], py = y[i * 3 + 1], pz = y[i * 3 + 2];
+    this.comX = (this.comX * this.count + px) / (this.count + 1);
+    this.comY = (this.comY * this.count + py) / (this.count + 1);
+    this.comZ = (this.comZ * this.count + pz) / (this.count + 1);
+    this.count++;
+
+    if (this.children === null) {
+      if (this.count === 1) {
+        this.pointIndex = i;
+        return;
+      }
+      // Coincident points past the depth limit share one leaf
+      if (depth >= OCTREE_MAX_DEPTH) return;
+      this.subdivide();
+      if (this.pointIndex >= 0) {
+        this.childFor(y, this.pointIndex).insert(y, this.pointIndex, depth + 1);
+        this.pointIndex = -1;
+      }
+    }
+    this.childFor(y, i).insert(y, i, depth + 1);
+  }
+
+  contains(px: number, py: number, pz: number): boolean {
+    return Math.abs(px - this.cx) <= this.half
+      && Math.abs(py - this.cy) <= this.half
+      && Math.abs(pz - this.cz) <= this.half;
+  }
+
+  private subdivide(): void {
+    const h = this.half / 2;
+    this.children = [];
+    for (let octant = 0; octant < 8; octant++) {
+      this.children.push(new OctreeNode(
+        this.cx + (octant & 1 ? h : -h),
+        this.cy + (octant & 2 ? h : -h),
+        this.cz + (octant & 4 ? h : -h),
+        h
+      ));
+    }
+  }
+
+  private childFor(y: Float64Array, i: number): OctreeNode {
+    const octant = (y[i * 3] > this.cx ? 1 : 0)
+      | (y[i * 3 + 1] > this.cy ? 2 : 0)
+      | (y[i * 3 + 2] > this.cz ? 4 : 0);
+    return this.children![octant];
+  }
+}
+
+function buildOctree(y: Float64Array, n: number): OctreeNode {
+  let minX = Infinity, minY = Infinity, minZ = Infinity;
+  let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+  for (let i = 0; i < n; i++) {
+    minX = Math.min(minX, y[i * 3]); maxX = Math.max(maxX, y[i * 3]);
+    minY = Math.min(minY, y[i * 3 + 1]); maxY = Math.max(maxY, y[i * 3 + 1]);
+    minZ = Math.min(minZ, y[i * 3 + 2]); maxZ = Math.max(maxZ, y[i * 3 + 2]);
+  }
+  const half = Math.max(maxX - minX, maxY - minY, maxZ - minZ) / 2 + 1e-5;
+  const root = new OctreeNode((minX + maxX) / 2, (minY + maxY) / 2, (minZ + maxZ) / 2, half);
+  for (let i = 0; i < n; i++) root.insert(y, i, 0);
+  return root;
+}
+
+// Accumulates the unnormalised repulsive force on point i into `force`; returns its share of Z
+function repulsiveForce(node: OctreeNode, y: Float64Array, i: number, force: Float64Array): number {
+  if (node.count === 0 || (node.count === 1 && node.pointIndex === i)) return 0;
+
+  const px = y[i * 3], py = y[i * 3 + 1], pz = y[i * 3 + 2];
+  const dx = px - node.comX, dy = py - node.comY, dz = pz - node.comZ;
+  const d2 = dx * dx + dy * dy + dz * dz;
+  const size = node.half * 2;
+
+  if (node.children === null || size * size < TSNE_THETA * TSNE_THETA * d2) {
+    // A depth-limited leaf may hold point i itself among its coincident points
+    const count = node.children === null && node.count > 1 && node.contains(px, py, pz)
+      ? node.count - 1
+      : node.count;
+    const q = 1 / (1 + d2);
+    const mult = count * q;
+    force[0] += mult * q * dx;
+    force[1] += mult * q * dy;
+    force[2] += mult * q * dz;
+    return mult;
+  }
+
+  let sumQ = 0;
+  for (const child of node.children) {
+    sumQ += repulsiveForce(child, y, i, force);
+  }
+  return sumQ;
+}
+
+// Symmetrised input affinities P over each point's 3·perplexity nearest neighbours (CSR layout)
+async function tsneAffinities(
+  vectors: number[][],
+  perplexity: number,
+  context: StageContext
+): Promise<{ rowStart: Int32Array; columns: Int32Array; values: Float64Array }> {
+  const n = vectors.length;
+  const k = Math.min(n - 1, Math.floor(3 * perplexity));
+  const effectivePerplexity = Math.min(perplexity, (n - 1) / 3);
+  const { indices, distances } = await exactNeighbors(vectors, k, context);
+
+  const targetEntropy = Math.log(effectivePerplexity);
+  const conditional = new Float64Array(n * k);
+  for (let i = 0; i < n; i++) {
+    const base = i * k;
+    let beta = 1, betaMin = -Infinity, betaMax = Infinity;
+    for (let iter = 0; iter < 64; iter++) {
+      let sumP = 0, sumDP = 0;
+      for (let p = 0; p < k; p++) {
+        const d2 = distances[base + p] * distances[base + p];
+        const value = Math.exp(-d2 * beta);
+        conditional[base + p] = value;
+        sumP += value;
+        sumDP += d2 * value;
+      }
+      sumP = Math.max(sumP, Number.MIN_VALUE);
+      const entropy = Math.log(sumP) + beta * sumDP / sumP;
+      for (let p = 0; p < k; p++) conditional[base + p] /= sumP;
+
+      const diff = entropy - targetEntropy;
+      if (Math.abs(diff) < 1e-5) break;
+      if (diff > 0) {
+        betaMin = beta;
+        beta = betaMax === Infinity ? beta * 2 : (beta + betaMax) / 2;
+      } else {
+        betaMax = beta;
+        beta = betaMin === -Infinity ? beta / 2 : (beta + betaMin) / 2;
+      }
+    }
+  }
+
+  // P_ij = (p_j|i + p_i|j) / 2n
+  const rows: Map<number, number>[] = Array.from({ length: n }, () => new Map());
+  for (let i = 0; i < n; i++) {
+    for (let p = 0; p < k; p++) {
+      const j = indices[i * k + p];
+      const value = conditional[i * k + p] / (2 * n);
+      rows[i].set(j, (rows[i].get(j) ?? 0) + value);
+      rows[j].set(i, (rows[j].get(i) ?? 0) + value);
+    }
+  }
+
+  const rowStart = new Int32Array(n + 1);
+  for (let i = 0; i < n; i++) rowStart[i + 1] = rowStart[i] + rows[i].size;
+  const columns = new Int32Array(rowStart[n]);
+  const values = new Float64Array(rowStart[n]);
+  for (let i = 0; i < n; i++) {
+    let offset = rowStart[i];
+    rows[i].forEach((value, j) => {
+      columns[offset] = j;
+      values[offset] = value;
+      offset++;
+    });
+  }
+  return { rowStart, columns, values };
+}
+
+const embedTSNE: Embedder = async (vectors, options, context) => {
+  const n = vectors.length;
+  if (n < 4) return embedPCA(vectors, options, context);
+
+  const { rowStart, columns, values } = await tsneAffinities(vectors, options.perplexity, context);
+  context.report(0.1);
+
+  const random = createRandom(options.seed);
+  const y = new Float64Array(n * 3);
+  for (let i = 0; i < y.length; i++) y[i] = gaussian(random) * 1e-4;
+
+  const gains = new Float64Array(n * 3).fill(1);
+  const update = new Float64Array(n * 3);
+  const gradient = new Float64Array(n * 3);
+  const repulsive = new Float64Array(n * 3);
+  const force = new Float64Array(3);
+  const learningRate = Math.max(n / TSNE_EARLY_EXAGGERATION / 4, 50);
+  const exaggerationIterations = Math.min(250, Math.floor(options.iterations / 4));
+
+  for (let iter = 0; iter < options.iterations; iter++) {
+    const exaggeration = iter < exaggerationIterations ? TSNE_EARLY_EXAGGERATION : 1;
+    const momentum = iter < exaggerationIterations ? 0.5 : 0.8;
+
+    const tree = buildOctree(y, n);
+    let sumQ = 0;
+    for (let i = 0; i < n; i++) {
+      force.fill(0);
+      sumQ += repulsiveForce(tree, y, i, force);
+      repulsive[i * 3] = force[0];
+      repulsive[i * 3 + 1] = force[1];
+      repulsive[i * 3 + 2] = force[2];
+    }
+    sumQ = Math.max(sumQ, Number.MIN_VALUE);
+
+    for (let i = 0; i < n; i++) {
+      let ax = 0, ay = 0, az = 0;
+      for (let e = rowStart[i]; e < rowStart[i + 1]; e++) {
+        const j = columns[e];
+        const dx = y[i * 3] - y[j * 3];
+        const dy = y[i * 3 + 1] - y[j * 3 + 1];
+        const dz = y[i * 3 + 2] - y[j * 3 + 2];
+        const mult = exaggeration * values[e] / (1 + dx * dx + dy * dy + dz * dz);
+        ax += mult * dx;
+        ay += mult * dy;
+        az += mult * dz;
+      }
+      gradient[i * 3] = 4 * (ax - repulsive[i * 3] / sumQ);
+      gradient[i * 3 + 1] = 4 * (ay - repulsive[i * 3 + 1] / sumQ);
+      gradient[i * 3 + 2] = 4 * (az - repulsive[i * 3 + 2] / sumQ);
+    }
+
+    // Delta-bar-delta gains, then a momentum step and re-centring
+    const mean = [0, 0, 0];
+    for (let c = 0; c < n * 3; c++) {
+      const sameSign = Math.sign(gradient[c]) === Math.sign(update[c]);
+      gains[c] = Math.max(sameSign ? gains[c] * 0.8 : gains[c] + 0.2, TSNE_MIN_GAIN);
+      update[c] = momentum * update[c] - learningRate * gains[c] * gradient[c];
+      y[c] += update[c];
+      mean[c % 3] += y[c];
+    }
+    for (let c = 0; c < n * 3; c++) y[c] -= mean[c % 3] / n;
+
+    if (iter % ITERATIONS_PER_CHECKPOINT === 0) {
+      context.report(0.1 + 0.9 * (iter / options.iterations));
+      await context.checkpoint();
+    }
+  }
+
+  return scaleToExtent(fromFlat(y));
+};
+
+// ---------------------------------------------------------------------------
+// UMAP
+// ---------------------------------------------------------------------------
+
+const UMAP_NEGATIVE_SAMPLES = 5;
+const UMAP_LEARNING_RATE = 1;
+const UMAP_GRADIENT_CLIP = 4;
+const UMAP_INIT_EXTENT = 10;
+
+// Fit the low-dimensional membership curve 1 / (1 + a·d^2b) to the min_dist
+// step function (spread 1) by least squares over a coarse grid
+function fitCurveParameters(minDist: number): { a: number; b: number } {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 1; i <= 300; i++) {
+    const x = (3 * i) / 300;
+    xs.push(x);
+    ys.push(x < minDist ? 1 : Math.exp(-(x - minDist)));
+  }
+
+  let best = { a: 1, b: 1 };
+  let bestError = Infinity;
+  for (let ai = 0; ai <= 120; ai++) {
+    const a = 0.05 * Math.pow(10, ai / 40);
+    for (let bi = 0; bi <= 80; bi++) {
+      const b = 0.3 + bi * 0.02;
+      let error = 0;
+      for (let i = 0; i < xs.length && error < bestError; i++) {
+        const diff = 1 / (1 + a * Math.pow(xs[i], 2 * b)) - ys[i];
+        error += diff * diff;
+      }
+      if (error < bestError) {
+        bestError = error;
+        best = { a, b };
+      }
+    }
+  }
+  return best;
+}
+
+// Fuzzy simplicial set: directed memberships from each point's kNN, combined by fuzzy union
+async function fuzzyGraph(
+  vectors: number[][],
+  k: number,
+  context: StageContext
+): Promise<{ heads: Int32Array; tails: Int32Array; weights: Float64Array }> {
+  const n = vectors.length;
+  const { indices, distances } = await exactNeighbors(vectors, k, context);
+  const target = Math.log2(k);
+  const memberships = new Map<number, number>();
+
+  for (let i = 0; i < n; i++) {
+    const base = i * k;
+    const rho = distances[base];
+    let sigma = 1, lo = 0, hi = Infinity;
+    for (let iter = 0; iter < 64; iter++) {
+      let sum = 0;
+      for (let p = 0; p < k; p++) {
+        sum += Math.exp(-Math.max(0, distances[base + p] - rho) / sigma);
+      }
+      if (Math.abs(sum - target) < 1e-5) break;
+      if (sum > target) {
+        hi = sigma;
+        sigma = (lo + hi) / 2;
+      } else {
+        lo = sigma;
+        sigma = hi === Infinity ? sigma * 2 : (lo + hi) / 2;
+      }
+    }
+    for (let p = 0; p < k; p++) {
+      const j = indices[base + p];
+      memberships.set(i * n + j, Math.exp(-Math.max(0, distances[base + p] - rho) / sigma));
+    }
+  }
+
+  const heads: number[] = [];
+  const tails: number[] = [];
+  const weights: number[] = [];
+  memberships.forEach((w, key) => {
+    const i = Math.floor(key / n);
+    const j = key % n;
+    const reverse = memberships.get(j * n + i);
+    // Each undirected pair is emitted once, from its smaller index
+    if (reverse !== undefined && j < i) return;
+    const r = reverse ?? 0;
+    heads.push(i);
+    tails.push(j);
+    weights.push(w + r - w * r);
+  });
+
+  return {
+    heads: Int32Array.from(heads),
+    tails: Int32Array.from(tails),
+    weights: Float64Array.from(weights),
+  };
+}
+
+function clip(value: number): number {
+  return Math.max(-UMAP_GRADIENT_CLIP, Math.min(UMAP_GRADIENT_CLIP, value));
+}
+
+const embedUMAP: Embedder = async (vectors, options, context) => {
+  const n = vectors.length;
+  const k = Math.min(options.umapNeighbors, n - 1);
+  if (k < 2) return embedPCA(vectors, options, context);
+
+  const { heads, tails, weights } = await fuzzyGraph(vectors, k, context);
+  context.report(0.1);
+
+  const { a, b } = fitCurveParameters(options.minDist);
+  const random = createRandom(options.seed);
+  const epochs = options.iterations;
+
+  // PCA initialisation keeps the global layout stable across seeds
+  const init = projectPCA(vectors);
+  const y = init
+    ? toFlat(scaleToExtent(init).map((c) => ({
+        x: c.x * (UMAP_INIT_EXTENT / EMBEDDING_EXTENT),
+        y: c.y * (UMAP_INIT_EXTENT / EMBEDDING_EXTENT),
+        z: c.z * (UMAP_INIT_EXTENT / EMBEDDING_EXTENT),
+      })))
+    : Float64Array.from({ length: n * 3 }, () => (random() * 2 - 1) * UMAP_INIT_EXTENT);
+
+  // Edges are sampled in proportion to their weight
+  let maxWeight = 0;
+  for (let e = 0; e < weights.length; e++) maxWeight = Math.max(maxWeight, weights[e]);
+  const epochsPerSample = new Float64Array(weights.length);
+  for (let e = 0; e < weights.length; e++) {
+    epochsPerSample[e] = weights[e] > maxWeight / epochs ? maxWeight / weights[e] : -1;
+  }
+  const epochsPerNegative = epochsPerSample.map((value) => value / UMAP_NEGATIVE_SAMPLES);
+  const nextSample = Float64Array.from(epochsPerSample);
+  const nextNegative = Float64Array.from(epochsPerNegative);
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const alpha = UMAP_LEARNING_RATE * (1 - epoch / epochs);
+
+    for (let e = 0; e < weights.length; e++) {
+      if (epochsPerSample[e] < 0 || nextSample[e] > epoch) continue;
+
+      const j = heads[e] * 3;
+      const kIdx = tails[e] * 3;
+      let d2 = 0;
+      for (let c = 0; c < 3; c++) {
+        const diff = y[j + c] - y[kIdx + c];
+        d2 += diff * diff;
+      }
+      if (d2 > 0) {
+        const coeff = (-2 * a * b * Math.pow(d2, b - 1)) / (a * Math.pow(d2, b) + 1);
+        for (let c = 0; c < 3; c++) {
+          const grad = clip(coeff * (y[j + c] - y[kIdx + c]));
+          y[j + c] += grad * alpha;
+          y[kIdx + c] -= grad * alpha;
+        }
+      }
+      nextSample[e] += epochsPerSample[e];
+
+      const negatives = Math.floor((epoch - nextNegative[e]) / epochsPerNegative[e]);
+      for (let s = 0; s < negatives; s++) {
+        const other = Math.floor(random() * n) * 3;
+        if (other === j) continue;
+        let nd2 = 0;
+        for (let c = 0; c < 3; c++) {
+          const diff = y[j + c] - y[other + c];
+          nd2 += diff * diff;
+        }
+        const coeff = nd2 > 0 ? (2 * b) / ((0.001 + nd2) * (a * Math.pow(nd2, b) + 1)) : 0;
+        for (let c = 0; c < 3; c++) {
+          const grad = coeff > 0 ? clip(coeff * (y[j + c] - y[other + c])) : UMAP_GRADIENT_CLIP;
+          y[j + c] += grad * alpha;
+        }
+      }
+      nextNegative[e] += Math.max(0, negatives) * epochsPerNegative[e];
+    }
+
+    if (epoch % ITERATIONS_PER_CHECKPOINT === 0) {
+      context.report(0.1 + 0.9 * (epoch / epochs));
+      await context.checkpoint();
+    }
+  }
+
+  return scaleToExtent(fromFlat(y));
+};
+
+const EMBEDDERS: Record<EmbeddingMethod, Embedder> = {
+  pca: embedPCA,
+  umap: embedUMAP,
+  tsne: embedTSNE,
+};
+
+function squaredDistance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let d = 0; d < a.length; d++) sum += (a[d] - b[d]) ** 2;
+  return sum;
+}
+
+// A vector identical to a sample in feature space lands exactly on it
+function weightedPosition(
+  fitted: Coordinates[],
+  nearest: Int32Array,
+  squaredDistances: Float64Array,
+  count: number
+): Coordinates {
+  if (squaredDistances[0] === 0) return { ...fitted[nearest[0]] };
+  let x = 0, y = 0, z = 0, total = 0;
+  for (let k = 0; k < count; k++) {
+    const weight = 1 / Math.sqrt(squaredDistances[k]);
+    const point = fitted[nearest[k]];
+    x += weight * point.x;
+    y += weight * point.y;
+    z += weight * point.z;
+    total += weight;
+  }
+  return { x: x / total, y: y / total, z: z / total };
+}
+
+// Fit a nonlinear embedding on a strided sample of each group and place each
+// other vector at the inverse-distance-weighted mean of its nearest samples
+// from the same group, so the vectors placed near one sample still spread out
+// rather than stacking on it. Samples from other groups never contribute,
+// since consecutive vectors can belong to different phrases or channels.
+async function embedSubsampled(
+  embedder: Embedder,
+  vectors: number[][],
+  groups: number[],
+  options: EmbeddingOptions,
+  context: StageContext
+): Promise<Coordinates[]> {
+  const members = new Map<number, number[]>();
+  groups.forEach((group, i) => {
+    const list = members.get(group);
+    if (list) list.push(i);
+    else members.set(group, [i]);
+  });
+
+  const step = Math.ceil(vectors.length / NONLINEAR_SAMPLE_LIMIT);
+  const sampled: number[] = [];
+  // Position in `sampled` of each sampled vector, -1 for the rest
+  const samplePosition = new Int32Array(vectors.length).fill(-1);
+  members.forEach((list) => {
+    for (let k = 0; k < list.length; k += step) {
+      samplePosition[list[k]] = sampled.length;
+      sampled.push(list[k]);
+    }
+  });
+
+  const fitted = await embedder(sampled.map((i) => vectors[i]), options, context);
+
+  const coords: Coordinates[] = new Array(vectors.length);
+  let assigned = 0;
+  for (const list of Array.from(members.values())) {
+    const groupSamples = list.filter((i) => samplePosition[i] >= 0);
+    const count = Math.min(PLACEMENT_NEIGHBORS, groupSamples.length);
+    const nearest = new Int32Array(count);
+    const nearestDistance = new Float64Array(count);
+    for (const i of list) {
+      if (samplePosition[i] >= 0) {
+        coords[i] = { ...fitted[samplePosition[i]] };
+        continue;
+      }
+
+      // Insertion into a short list sorted by distance
+      let found = 0;
+      for (const j of groupSamples) {
+        const d = squaredDistance(vectors[i], vectors[j]);
+        if (found === count && d >= nearestDistance[count - 1]) continue;
+        let slot = found < count ? found++ : count - 1;
+        while (slot > 0 && nearestDistance[slot - 1] > d) {
+          nearest[slot] = nearest[slot - 1];
+          nearestDistance[slot] = nearestDistance[slot - 1];
+          slot--;
+        }
+        nearest[slot] = samplePosition[j];
+        nearestDistance[slot] = d;
+      }
+      coords[i] = weightedPosition(fitted, nearest, nearestDistance, found);
+
+      if (++assigned % ASSIGNMENTS_PER_CHECKPOINT === 0) await context.checkpoint();
+    }
+  }
+  return coords;
+}
+
+// Project onto a basis fitted incrementally over more frames than are being embedded
+function projectOnBasis(basis: IncrementalPCA, vectors: number[][]): Coordinates[] | null {
+  if (!basis.fit()) return null;
+  return vectors.map((v) => {
+    const [x, y, z] = basis.project(v)!;
+    return { x, y, z };
+  });
+}
+
+// Reduce equal-length feature vectors to 3D coordinates with the configured
+// method. PCA uses `basis` when given, so the axes reflect the whole recording
+// rather than only the vectors passed in. `groups` labels each vector with its
+// phrase and cloud; when UMAP or t-SNE is fitted on a subsample, vectors are
+// only placed relative to samples from their own group.
+export async function embedVectors(
+  vectors: number[][],
+  options: EmbeddingOptions,
+  context: StageContext,
+  basis?: IncrementalPCA,
+  groups: number[] = vectors.map(() => 0)
+): Promise<Coordinates[]> {
+  if (vectors.length === 0) return [];
+
+  let coords: Coordinates[];
+  if (options.method === "pca" && basis) {
+    const projected = projectOnBasis(basis, vectors);
+    coords = projected ? scaleToExtent(projected) : fallbackCoordinates(vectors);
+  } else {
+    const embedder = EMBEDDERS[options.method];
+    coords = options.method !== "pca" && vectors.length > NONLINEAR_SAMPLE_LIMIT
+      ? await embedSubsampled(embedder, vectors, groups, options, context)
+      : await embedder(vectors, options, context);
+  }
+
+  context.report(1);
+  return coords;
+}
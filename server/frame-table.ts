@@ -0,0 +1,87 @@
+export const BANDS = ["low", "mid", "high"] as const;
+export type Band = (typeof BANDS)[number];
+
+// Float32 columns besides the MFCCs
+const FLOAT_COLUMNS = 17;
+
+// Bytes a table of `length` frames takes: 17 floats, the MFCCs and one band
+// byte per frame. Every frame of the recording is kept, so this grows with
+// duration; the analyzer refuses recordings whose tables would exceed its budget.
+export function frameTableBytes(length: number, mfccCount: number): number {
+  return length * ((FLOAT_COLUMNS + mfccCount) * 4 + 1);
+}
+
+// Per-frame features of one analyzed signal, one typed column per feature.
+// At a fixed hop an hour of audio is hundreds of thousands of frames, so they
+// are kept as typed columns (see frameTableBytes) rather than one object each.
+export class FrameTable {
+  // Raw descriptors, written as the frames stream past
+  readonly amplitude: Float32Array;
+  readonly frequency: Float32Array;
+  readonly pitch: Float32Array;
+  readonly pitchConfidence: Float32Array;
+  readonly centroid: Float32Array;
+  readonly bandwidth: Float32Array;
+  readonly flux: Float32Array;
+  readonly flatness: Float32Array;
+  readonly onsetStrength: Float32Array;
+  readonly bandLow: Float32Array;
+  readonly bandMid: Float32Array;
+  readonly bandHigh: Float32Array;
+  // Normalized across the recording once every frame is in
+  readonly complexity: Float32Array;
+  readonly beatStrength: Float32Array;
+  readonly onsetLow: Float32Array;
+  readonly onsetMid: Float32Array;
+  readonly onsetHigh: Float32Array;
+  // Index into BANDS
+  readonly band: Uint8Array;
+  // Row-major, mfccCount per frame
+  readonly mfccs: Float32Array;
+
+  constructor(
+    readonly length: number,
+    readonly mfccCount: number,
+    private readonly hopSize: number,
+    private readonly sampleRate: number
+  ) {
+    const column = () => new Float32Array(length);
+    this.amplitude = column();
+    this.frequency = column();
+    this.pitch = column();
+    this.pitchConfidence = column();
+    this.centroid = column();
+    this.bandwidth = column();
+    this.flux = column();
+    this.flatness = column();
+    this.onsetStrength = column();
+    this.bandLow = column();
+    this.bandMid = column();
+    this.bandHigh = column();
+    this.complexity = column();
+    this.beatStrength = column();
+    this.onsetLow = column();
+    this.onsetMid = column();
+    this.onsetHigh = column();
+    this.band = new Uint8Array(length);
+    this.mfccs = new Float32Array(length * mfccCount);
+  }
+
+  get frameDuration(): number {
+    return this.hopSize / this.sampleRate;
+  }
+
+  // First sample of frame i
+  startSample(i: number): number {
+    return i * this.hopSize;
+  }
+
+  time(i: number): number {
+    return (i * this.hopSize) / this.sampleRate;
+  }
+
+  // A view, not a copy
+  mfccsAt(i: number): Float32Array {
+    return this.mfccs.subarray(i * this.mfccCount, (i + 1) * this.mfccCount);
+  }
+}
@@ -33,6 +33,11 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+// Analyses, spectrograms and waveforms run to hundreds of KB; log only their status
+const UNLOGGED_BODY_PATH = /^\/api\/analyses\/[^/]+(\/spectrogram|\/waveform)?$/;
+// Longer response bodies are cut off in the log
+const MAX_LOGGED_BODY = 200;
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -48,8 +53,9 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+      if (capturedJsonResponse && !(req.method === "GET" && UNLOGGED_BODY_PATH.test(path))) {
+        const body = JSON.stringify(capturedJsonResponse);
+        logLine += ` :: ${body.length > MAX_LOGGED_BODY ? `${body.slice(0, MAX_LOGGED_BODY)}…` : body}`;
       }
 
       log(logLine);
@@ -0,0 +1,127 @@
+import { randomUUID } from "crypto";
+import { AnalysisCancelledError, type AnalysisHooks } from "./audio-analyzer";
+import type { AnalysisJob, AnalysisStage } from "@shared/schema";
+
+type JobListener = (job: AnalysisJob) => void;
+// Resolves to the id of the saved analysis
+type JobRunner = (hooks: AnalysisHooks) => Promise<string>;
+
+interface JobRecord {
+  job: AnalysisJob;
+  controller: AbortController;
+  listeners: Set<JobListener>;
+}
+
+// Share of the overall progress bar taken by each analysis stage
+const STAGE_WEIGHTS: Record<AnalysisStage, number> = {
+  queued: 0,
+  transcode: 0.1,
+  frames: 0.6,
+  segmentation: 0.05,
+  embedding: 0.05,
+  syllables: 0.05,
+  knn: 0.15,
+};
+
+const STAGE_ORDER: AnalysisStage[] = ["queued", "transcode", "frames", "segmentation", "embedding", "syllables", "knn"];
+
+// Finished jobs are kept around long enough for a late subscriber to read the outcome
+const FINISHED_JOB_TTL_MS = 15 * 60 * 1000;
+
+function overallProgress(stage: AnalysisStage, stageProgress: number): number {
+  let progress = 0;
+  for (const s of STAGE_ORDER) {
+    if (s === stage) {
+      progress += STAGE_WEIGHTS[s] * Math.max(0, Math.min(1, stageProgress));
+      break;
+    }
+    progress += STAGE_WEIGHTS[s];
+  }
+  return progress;
+}
+
+export function isJobFinished(job: AnalysisJob): boolean {
+  return job.status === "completed" || job.status === "failed" || job.status === "cancelled";
+}
+
+export class AnalysisJobManager {
+  private jobs: Map<string, JobRecord>;
+
+  constructor() {
+    this.jobs = new Map();
+  }
+
+  start(runner: JobRunner): AnalysisJob {
+    const id = randomUUID();
+    const record: JobRecord = {
+      job: { id, status: "pending", stage: "queued", progress: 0 },
+      controller: new AbortController(),
+      listeners: new Set(),
+    };
+    this.jobs.set(id, record);
+
+    void this.run(record, runner);
+
+    return record.job;
+  }
+
+  get(id: string): AnalysisJob | undefined {
+    return this.jobs.get(id)?.job;
+  }
+
+  subscribe(id: string, listener: JobListener): () => void {
+    const record = this.jobs.get(id);
+    if (!record) return () => {};
+    record.listeners.add(listener);
+    return () => {
+      record.listeners.delete(listener);
+    };
+  }
+
+  cancel(id: string): boolean {
+    const record = this.jobs.get(id);
+    if (!record || isJobFinished(record.job)) return false;
+    record.controller.abort();
+    return true;
+  }
+
+  private async run(record: JobRecord, runner: JobRunner): Promise<void> {
+    this.update(record, { status: "running" });
+
+    try {
+      const analysisId = await runner({
+        signal: record.controller.signal,
+        onProgress: (stage, stageProgress) => {
+          const progress = overallProgress(stage, stageProgress);
+          // Throttle to whole-percent steps so SSE clients aren't flooded
+          if (stage === record.job.stage && Math.floor(progress * 100) === Math.floor(record.job.progress * 100)) {
+            return;
+          }
+          this.update(record, { stage, progress });
+        },
+      });
+      this.update(record, { status: "completed", progress: 1, analysisId });
+    } catch (error) {
+      if (error instanceof AnalysisCancelledError || record.controller.signal.aborted) {
+        this.update(record, { status: "cancelled", error: "Analysis was cancelled." });
+      } else {
+        console.error(`Analysis job ${record.job.id} failed:`, error);
+        this.update(record, {
+          status: "failed",
+          error: error instanceof Error ? error.message : "Failed to analyze audio",
+        });
+      }
+    } finally {
+      setTimeout(() => this.jobs.delete(record.job.id), FINISHED_JOB_TTL_MS).unref();
+    }
+  }
+
+  private update(record: JobRecord, changes: Partial<AnalysisJob>): void {
+    record.job = { ...record.job, ...changes };
+    for (const listener of Array.from(record.listeners)) {
+      listener(record.job);
+    }
+  }
+}
+
+export const analysisJobs = new AnalysisJobManager();
@@ -0,0 +1,170 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { buildNeighborGraph, type NeighborGraph, type Point3 } from "./neighbor-graph";
+import type { NetworkOptions } from "@shared/schema";
+
+// Must match the cap in neighbor-graph.ts
+const MAX_RADIUS_NEIGHBORS = 32;
+
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647;
+  };
+}
+
+function cloud(count: number, seed: number, spread = 4): Point3[] {
+  const next = random(seed);
+  return Array.from({ length: count }, () => ({
+    x: (next() - 0.5) * spread,
+    y: (next() - 0.5) * spread,
+    z: (next() - 0.5) * spread,
+  }));
+}
+
+function distance(a: Point3, b: Point3): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+function pairKey(i: number, j: number): string {
+  return i < j ? `${i}-${j}` : `${j}-${i}`;
+}
+
+// Each point's nearest others, closest first; random clouds have no ties
+function bruteNeighbors(points: Point3[], count: number, maxDistance: number): Set<number>[] {
+  return points.map((p, i) => {
+    const others = points
+      .map((q, j) => ({ j, d: distance(p, q) }))
+      .filter(({ j, d }) => j !== i && d < maxDistance)
+      .sort((a, b) => a.d - b.d)
+      .slice(0, count);
+    return new Set(others.map(({ j }) => j));
+  });
+}
+
+// Edge key → length
+function bruteGraph(points: Point3[], k: number, options: NetworkOptions): Map<string, number> {
+  const n = points.length;
+  const radius = options.mode === "radius";
+  const neighbors = bruteNeighbors(
+    points,
+    radius ? MAX_RADIUS_NEIGHBORS : Math.min(k, n - 1),
+    radius ? options.radius : Infinity
+  );
+  const edges = new Map<string, number>();
+  neighbors.forEach((list, i) => {
+    for (const j of Array.from(list)) {
+      if (options.mode === "mutual" && !neighbors[j].has(i)) continue;
+      edges.set(pairKey(i, j), distance(points[i], points[j]));
+    }
+  });
+  return edges;
+}
+
+function bruteWeights(lengths: Map<string, number>): Map<string, number> {
+  const nonZero = Array.from(lengths.values()).filter((length) => length > 0).sort((a, b) => a - b);
+  const scale = nonZero[nonZero.length >> 1];
+  const weights = new Map<string, number>();
+  lengths.forEach((length, key) => {
+    weights.set(key, scale > 0 ? Math.exp(-0.5 * (length / scale) ** 2) : 1);
+  });
+  return weights;
+}
+
+function edgeWeights(graph: NeighborGraph): Map<string, number> {
+  assert.equal(graph.weights.length, graph.edges.length);
+  const weights = new Map<string, number>();
+  graph.edges.forEach(([i, j], e) => {
+    assert.notEqual(i, j, "self-loop");
+    const key = pairKey(i, j);
+    assert.ok(!weights.has(key), `edge ${key} listed twice`);
+    weights.set(key, graph.weights[e]);
+  });
+  return weights;
+}
+
+function assertMatchesBruteForce(points: Point3[], k: number, options: NetworkOptions): void {
+  const expected = bruteWeights(bruteGraph(points, k, options));
+  const actual = edgeWeights(buildNeighborGraph(points, k, options));
+  assert.deepEqual(Array.from(actual.keys()).sort(), Array.from(expected.keys()).sort());
+  expected.forEach((weight, key) => {
+    assert.ok(Math.abs(actual.get(key)! - weight) < 1e-12, `weight of ${key}: ${actual.get(key)} vs ${weight}`);
+  });
+}
+
+describe("matches a brute-force graph", () => {
+  for (const k of [1, 3, 8]) {
+    test(`knn, k = ${k}`, () => {
+      assertMatchesBruteForce(cloud(300, k), k, { mode: "knn", radius: 0.5 });
+    });
+
+    test(`mutual, k = ${k}`, () => {
+      assertMatchesBruteForce(cloud(300, 100 + k), k, { mode: "mutual", radius: 0.5 });
+    });
+  }
+
+  for (const radius of [0.2, 0.6]) {
+    test(`radius ${radius}`, () => {
+      assertMatchesBruteForce(cloud(300, 7), 3, { mode: "radius", radius });
+    });
+  }
+
+  test("radius keeps only the nearest neighbours inside a dense cluster", () => {
+    // 80 points well inside the radius of each other
+    const points = cloud(80, 11, 0.1);
+    const graph = buildNeighborGraph(points, 3, { mode: "radius", radius: 1 });
+    assert.ok(graph.edges.length < (80 * 79) / 2, "the cap should drop pairs");
+    assertMatchesBruteForce(points, 3, { mode: "radius", radius: 1 });
+  });
+});
+
+describe("edge cases", () => {
+  test("fewer points than k links every pair", () => {
+    const points = cloud(4, 3);
+    for (const mode of ["knn", "mutual"] as const) {
+      const graph = buildNeighborGraph(points, 10, { mode, radius: 0.5 });
+      assert.equal(graph.edges.length, 6, mode);
+      assertMatchesBruteForce(points, 10, { mode, radius: 0.5 });
+    }
+  });
+
+  test("zero or one point has no edges", () => {
+    for (const points of [[], cloud(1, 5)]) {
+      assert.deepEqual(buildNeighborGraph(points, 3, { mode: "knn", radius: 0.5 }), { edges: [], weights: [] });
+    }
+  });
+
+  test("coincident points are linked at weight 1 without flattening the other weights", () => {
+    // Pairs of identical points spread across a cloud; each pair's nearest
+    // neighbour is its twin at distance 0
+    const base = cloud(150, 21);
+    const points = base.flatMap((p) => [p, { ...p }]);
+    const graph = buildNeighborGraph(points, 3, { mode: "knn", radius: 0.5 });
+    const weights = edgeWeights(graph);
+
+    for (let i = 0; i < points.length; i += 2) {
+      assert.equal(weights.get(pairKey(i, i + 1)), 1, `twins ${i}`);
+    }
+    const others = graph.weights.filter((_, e) => {
+      const [i, j] = graph.edges[e];
+      return distance(points[i], points[j]) > 0;
+    });
+    assert.ok(others.length > 0);
+    assert.ok(others.every((weight) => weight < 1), "non-zero edges keep weights below 1");
+    // Scaled by the median non-zero length, so the weights spread either side of e^-0.5
+    assert.ok(Math.min(...others) < Math.exp(-0.5) && Math.max(...others) > Math.exp(-0.5));
+  });
+
+  test("a cluster of identical points is fully linked", () => {
+    // k + 1 copies of each location leave no ties at the k-th neighbour
+    const k = 3;
+    const points = cloud(20, 31).flatMap((p) => Array.from({ length: k + 1 }, () => ({ ...p })));
+    const graph = buildNeighborGraph(points, k, { mode: "mutual", radius: 0.5 });
+    assert.equal(graph.edges.length, 20 * ((k + 1) * k) / 2);
+    for (const [i, j] of graph.edges) {
+      assert.equal(Math.floor(i / (k + 1)), Math.floor(j / (k + 1)), `edge ${i}-${j} leaves its cluster`);
+    }
+    assert.ok(graph.weights.every((weight) => weight === 1));
+  });
+});
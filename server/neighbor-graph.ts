@@ -0,0 +1,276 @@
+import type { NetworkOptions } from "@shared/schema";
+
+export interface Point3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface NeighborGraph {
+  // Undirected, each pair once, in order of the first point's index
+  edges: [number, number][];
+  // Per edge, 1 at zero length falling towards 0 for edges much longer than usual
+  weights: number[];
+}
+
+// Ranges this small are scanned instead of split further
+const LEAF_SIZE = 8;
+// A radius graph keeps at most this many of each point's nearest neighbours,
+// so a dense cluster inside the radius can't produce a quadratic edge count
+const MAX_RADIUS_NEIGHBORS = 32;
+
+// Static 3D k-d tree over a point set. Nodes are implicit: the range [lo, hi)
+// of `order` is split at its middle element on axis `axes[mid]`.
+class KdTree {
+  private readonly coords: Float64Array;
+  private readonly order: Int32Array;
+  private readonly axes: Uint8Array;
+  // Search state, reused across queries
+  private heapIndex = new Int32Array(0);
+  private heapDist = new Float64Array(0);
+  private heapSize = 0;
+  private capacity = 0;
+  private qx = 0;
+  private qy = 0;
+  private qz = 0;
+  private exclude = -1;
+
+  constructor(points: Point3[]) {
+    const n = points.length;
+    this.coords = new Float64Array(n * 3);
+    points.forEach((p, i) => {
+      this.coords[i * 3] = p.x;
+      this.coords[i * 3 + 1] = p.y;
+      this.coords[i * 3 + 2] = p.z;
+    });
+    this.order = new Int32Array(n);
+    for (let i = 0; i < n; i++) this.order[i] = i;
+    this.axes = new Uint8Array(n);
+    this.build(0, n);
+  }
+
+  // Writes up to `count` nearest points to point `i` within `maxDistance`,
+  // nearest first, into `indices` and `distances` from `offset`; returns how many
+  nearest(
+    i: number,
+    count: number,
+    maxDistance: number,
+    indices: Int32Array,
+    distances: Float64Array,
+    offset: number
+  ): number {
+    if (this.heapIndex.length < count) {
+      this.heapIndex = new Int32Array(count);
+      this.heapDist = new Float64Array(count);
+    }
+    this.heapSize = 0;
+    this.capacity = count;
+    this.qx = this.coords[i * 3];
+    this.qy = this.coords[i * 3 + 1];
+    this.qz = this.coords[i * 3 + 2];
+    this.exclude = i;
+    this.search(0, this.order.length, maxDistance * maxDistance);
+
+    // Draining the max-heap yields the farthest first
+    const found = this.heapSize;
+    for (let h = found - 1; h >= 0; h--) {
+      indices[offset + h] = this.heapIndex[0];
+      distances[offset + h] = Math.sqrt(this.heapDist[0]);
+      this.heapSize--;
+      if (this.heapSize > 0) {
+        this.heapIndex[0] = this.heapIndex[this.heapSize];
+        this.heapDist[0] = this.heapDist[this.heapSize];
+        this.siftDown(0);
+      }
+    }
+    return found;
+  }
+
+  // Splits on the axis with the widest spread, at the median
+  private build(lo: number, hi: number): void {
+    if (hi - lo <= LEAF_SIZE) return;
+    const { coords, order } = this;
+
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let k = lo; k < hi; k++) {
+      const base = order[k] * 3;
+      for (let a = 0; a < 3; a++) {
+        const v = coords[base + a];
+        if (v < min[a]) min[a] = v;
+        if (v > max[a]) max[a] = v;
+      }
+    }
+    let axis = 0;
+    for (let a = 1; a < 3; a++) {
+      if (max[a] - min[a] > max[axis] - min[axis]) axis = a;
+    }
+
+    const mid = (lo + hi) >> 1;
+    this.select(lo, hi - 1, mid, axis);
+    this.axes[mid] = axis;
+    this.build(lo, mid);
+    this.build(mid + 1, hi);
+  }
+
+  // Quickselect: puts the element of rank `k` on `axis` at position k, smaller ones before it
+  private select(left: number, right: number, k: number, axis: number): void {
+    const { coords, order } = this;
+    while (right > left) {
+      const pivot = coords[order[(left + right) >> 1] * 3 + axis];
+      let i = left;
+      let j = right;
+      while (i <= j) {
+        while (coords[order[i] * 3 + axis] < pivot) i++;
+        while (coords[order[j] * 3 + axis] > pivot) j--;
+        if (i <= j) {
+          const swap = order[i];
+          order[i] = order[j];
+          order[j] = swap;
+          i++;
+          j--;
+        }
+      }
+      if (k <= j) right = j;
+      else if (k >= i) left = i;
+      else return;
+    }
+  }
+
+  // Largest distance kept so far, or the radius while the heap has room
+  private bound(maxDistSq: number): number {
+    return this.heapSize < this.capacity ? maxDistSq : Math.min(maxDistSq, this.heapDist[0]);
+  }
+
+  private search(lo: number, hi: number, maxDistSq: number): void {
+    const { coords, order } = this;
+    if (hi - lo <= LEAF_SIZE) {
+      for (let k = lo; k < hi; k++) this.consider(order[k], maxDistSq);
+      return;
+    }
+
+    const mid = (lo + hi) >> 1;
+    const index = order[mid];
+    this.consider(index, maxDistSq);
+
+    const axis = this.axes[mid];
+    const query = axis === 0 ? this.qx : axis === 1 ? this.qy : this.qz;
+    const diff = query - coords[index * 3 + axis];
+    if (diff < 0) {
+      this.search(lo, mid, maxDistSq);
+      if (diff * diff < this.bound(maxDistSq)) this.search(mid + 1, hi, maxDistSq);
+    } else {
+      this.search(mid + 1, hi, maxDistSq);
+      if (diff * diff < this.bound(maxDistSq)) this.search(lo, mid, maxDistSq);
+    }
+  }
+
+  private consider(index: number, maxDistSq: number): void {
+    if (index === this.exclude) return;
+    const base = index * 3;
+    const dx = this.coords[base] - this.qx;
+    const dy = this.coords[base + 1] - this.qy;
+    const dz = this.coords[base + 2] - this.qz;
+    const distSq = dx * dx + dy * dy + dz * dz;
+    // Strict, so a tie keeps the point found first and identical points
+    // don't make every query visit both sides of the tree
+    if (distSq >= this.bound(maxDistSq)) return;
+    if (this.heapSize === this.capacity) {
+      this.heapIndex[0] = index;
+      this.heapDist[0] = distSq;
+      this.siftDown(0);
+    } else {
+      this.heapIndex[this.heapSize] = index;
+      this.heapDist[this.heapSize] = distSq;
+      this.siftUp(this.heapSize++);
+    }
+  }
+
+  // Max-heap on distance, so the worst kept neighbour is at the root
+  private siftUp(i: number): void {
+    const { heapDist } = this;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heapDist[parent] >= heapDist[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  private siftDown(i: number): void {
+    const { heapDist, heapSize } = this;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let largest = i;
+      if (left < heapSize && heapDist[left] > heapDist[largest]) largest = left;
+      if (right < heapSize && heapDist[right] > heapDist[largest]) largest = right;
+      if (largest === i) return;
+      this.swap(i, largest);
+      i = largest;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    const index = this.heapIndex[a];
+    this.heapIndex[a] = this.heapIndex[b];
+    this.heapIndex[b] = index;
+    const dist = this.heapDist[a];
+    this.heapDist[a] = this.heapDist[b];
+    this.heapDist[b] = dist;
+  }
+}
+
+// Heat-kernel weights scaled by the median edge length, so they mean the same
+// whatever the spread of the cloud. Zero-length edges between coincident
+// points are left out of the median, or they could make it zero.
+function weighEdges(lengths: number[]): number[] {
+  if (lengths.length === 0) return [];
+  const sorted = lengths.filter((length) => length > 0).sort((a, b) => a - b);
+  const scale = sorted[sorted.length >> 1];
+  if (!(scale > 0)) return lengths.map(() => 1);
+  return lengths.map((length) => Math.exp(-0.5 * (length / scale) ** 2));
+}
+
+// Links points by Euclidean distance in 3D:
+//  - "knn": each point to its k nearest neighbours (either direction is enough)
+//  - "mutual": only pairs that are among each other's k nearest neighbours
+//  - "radius": every pair closer than the radius
+export function buildNeighborGraph(points: Point3[], k: number, options: NetworkOptions): NeighborGraph {
+  const n = points.length;
+  if (n < 2) return { edges: [], weights: [] };
+
+  const tree = new KdTree(points);
+  const radius = options.mode === "radius";
+  const count = radius ? Math.min(MAX_RADIUS_NEIGHBORS, n - 1) : Math.min(k, n - 1);
+  const maxDistance = radius ? options.radius : Infinity;
+
+  // Point i's neighbours are at [i * count, i * count + found[i])
+  const indices = new Int32Array(n * count);
+  const distances = new Float64Array(n * count);
+  const found = new Int32Array(n);
+  for (let i = 0; i < n; i++) {
+    found[i] = tree.nearest(i, count, maxDistance, indices, distances, i * count);
+  }
+  const links = (from: number, to: number) => {
+    for (let s = from * count; s < from * count + found[from]; s++) {
+      if (indices[s] === to) return true;
+    }
+    return false;
+  };
+
+  const edges: [number, number][] = [];
+  const lengths: number[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let s = i * count; s < i * count + found[i]; s++) {
+      const j = indices[s];
+      const reverse = j < i || options.mode === "mutual" ? links(j, i) : false;
+      // A pair both points picked is added once, from the lower index
+      if (options.mode === "mutual" ? !reverse || j < i : j < i && reverse) continue;
+      edges.push([i, j]);
+      lengths.push(distances[s]);
+    }
+  }
+
+  return { edges, weights: weighEdges(lengths) };
+}
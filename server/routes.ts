@@ -4,7 +4,22 @@ import multer from "multer";
 import { randomUUID } from "crypto";
 import path from "path";
 import fs from "fs";
-import { analyzeAudioFile } from "./audio-analyzer";
+import { createPlaybackCopy, getAudioDuration } from "./audio-analyzer";
+import { analysisPool } from "./analysis-pool";
+import { analysisJobs, isJobFinished } from "./jobs";
+import { storage as analysisStorage } from "./storage";
+import { fromZodError } from "zod-validation-error";
+import { analysisOptionsSchema, type AnalysisJob, type AnalysisOptions, type Recording } from "@shared/schema";
+import {
+  contentTypeFor,
+  formatForFilename,
+  formatForUpload,
+  isAcceptedUpload,
+  MAX_UPLOAD_BYTES,
+  MAX_UPLOAD_DURATION,
+  playbackFilename,
+  UNSUPPORTED_FORMAT_MESSAGE,
+} from "@shared/audio-formats";
 
 const uploadDir = path.join(process.cwd(), "uploads");
 if (!fs.existsSync(uploadDir)) {
@@ -16,7 +31,10 @@ const storage = multer.diskStorage({
     cb(null, uploadDir);
   },
   filename: (_req, file, cb) => {
-    const ext = path.extname(file.originalname);
+    // The analyzer goes by extension, so uploads accepted by MIME type get that format's
+    const ext = formatForFilename(file.originalname)
+      ? path.extname(file.originalname).toLowerCase()
+      : formatForUpload(file.originalname, file.mimetype)?.extensions[0] ?? "";
     cb(null, `${randomUUID()}${ext}`);
   },
 });
@@ -24,29 +42,73 @@ const storage = multer.diskStorage({
 const upload = multer({
   storage,
   limits: {
-    fileSize: 300 * 1024 * 1024,
+    fileSize: MAX_UPLOAD_BYTES,
   },
   fileFilter: (_req, file, cb) => {
-    const allowedMimes = [
-      "audio/wav",
-      "audio/x-wav",
-      "audio/mpeg",
-      "audio/mp3",
-      "audio/mp4",
-      "audio/x-m4a",
-      "audio/m4a",
-    ];
-    const allowedExts = [".wav", ".mp3", ".m4a"];
-    const ext = path.extname(file.originalname).toLowerCase();
-    
-    if (allowedMimes.includes(file.mimetype) || allowedExts.includes(ext)) {
+    if (isAcceptedUpload(file.originalname, file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error("Unsupported file format. Please upload WAV, MP3, or M4A files."));
+      cb(new Error(UNSUPPORTED_FORMAT_MESSAGE));
     }
   },
 });
 
+// Multipart uploads carry the options as a JSON string in the `options` field
+function parseAnalysisOptions(raw: unknown): { options?: AnalysisOptions; error?: string } {
+  let value: unknown = {};
+  if (typeof raw === "string" && raw.trim() !== "") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { error: "Analysis options must be valid JSON" };
+    }
+  } else if (raw && typeof raw === "object") {
+    value = raw;
+  }
+
+  const result = analysisOptionsSchema.safeParse(value);
+  if (!result.success) {
+    return { error: fromZodError(result.error).message };
+  }
+  return { options: result.data };
+}
+
+function startAnalysisJob(recording: Recording, options: AnalysisOptions): AnalysisJob {
+  const filePath = path.join(uploadDir, recording.filename);
+
+  return analysisJobs.start(async (hooks) => {
+    console.log(`Analyzing audio file: ${recording.filename}`);
+
+    const analysisResult = await analysisPool.run(filePath, options, hooks);
+
+    // Made once per recording; re-analysis reuses it
+    const playbackName = playbackFilename(recording.filename);
+    if (playbackName !== recording.filename && !fs.existsSync(path.join(uploadDir, playbackName))) {
+      await createPlaybackCopy(filePath, path.join(uploadDir, playbackName), hooks);
+    }
+
+    console.log(`Analysis complete: ${analysisResult.verses.length} verses, ${analysisResult.duration.toFixed(2)}s duration`);
+
+    const saved = await analysisStorage.saveAudioAnalysis({
+      recordingId: recording.id,
+      duration: analysisResult.duration,
+      sampleRate: analysisResult.sampleRate,
+      data: {
+        audioUrl: `/uploads/${playbackName}`,
+        duration: analysisResult.duration,
+        sampleRate: analysisResult.sampleRate,
+        verses: analysisResult.verses,
+        options: analysisResult.options,
+        wavMetadata: analysisResult.wavMetadata,
+      },
+      spectrogram: analysisResult.spectrogram,
+      waveform: analysisResult.waveform,
+    });
+
+    return saved.id;
+  });
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -56,56 +118,235 @@ export async function registerRoutes(
   });
 
   app.post("/api/analyze", upload.single("audio"), async (req, res) => {
-    req.setTimeout(600000);
-    res.setTimeout(600000);
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: "No audio file provided",
+      });
+    }
+
+    const filePath = req.file.path;
+    const filename = req.file.filename;
+    const originalName = req.file.originalname;
+
+    const { options, error } = parseAnalysisOptions(req.body?.options);
+    if (!options) {
+      fs.unlink(filePath, () => {});
+      return res.status(400).json({
+        success: false,
+        error,
+      });
+    }
+
+    // The browser checks this too, but direct API callers skip the upload form
+    let duration: number;
     try {
-      if (!req.file) {
-        return res.status(400).json({
-          success: false,
-          error: "No audio file provided",
-        });
-      }
+      duration = await getAudioDuration(filePath);
+    } catch (error) {
+      fs.unlink(filePath, () => {});
+      return res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to read audio file",
+      });
+    }
+    if (duration > MAX_UPLOAD_DURATION) {
+      fs.unlink(filePath, () => {});
+      return res.status(400).json({
+        success: false,
+        error: `Audio too long. Maximum duration is ${MAX_UPLOAD_DURATION / 3600} hours.`,
+      });
+    }
 
-      const filePath = req.file.path;
-      const filename = req.file.filename;
+    try {
+      const recording = await analysisStorage.createRecording({ filename, originalName });
+      const job = startAnalysisJob(recording, options);
 
-      console.log(`Analyzing audio file: ${filename}`);
+      res.status(202).json({
+        success: true,
+        jobId: job.id,
+      });
+    } catch (error) {
+      console.error("Error starting analysis:", error);
+      fs.unlink(filePath, () => {});
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to start analysis",
+      });
+    }
+  });
 
-      const analysisResult = await analyzeAudioFile(filePath);
+  app.post("/api/recordings/:id/analyze", async (req, res) => {
+    try {
+      const recording = await analysisStorage.getRecording(req.params.id);
+      if (!recording || !fs.existsSync(path.join(uploadDir, recording.filename))) {
+        return res.status(404).json({
+          success: false,
+          error: "Recording not found",
+        });
+      }
 
-      const visualizationData = {
-        audioUrl: `/uploads/${filename}`,
-        duration: analysisResult.duration,
-        sampleRate: analysisResult.sampleRate,
-        verses: analysisResult.verses,
-      };
+      const { options, error } = parseAnalysisOptions(req.body?.options);
+      if (!options) {
+        return res.status(400).json({
+          success: false,
+          error,
+        });
+      }
 
-      console.log(`Analysis complete: ${analysisResult.verses.length} verses, ${analysisResult.duration.toFixed(2)}s duration`);
+      const job = startAnalysisJob(recording, options);
 
-      res.json({
+      res.status(202).json({
         success: true,
-        data: visualizationData,
+        jobId: job.id,
       });
     } catch (error) {
-      console.error("Error analyzing audio:", error);
+      console.error("Error starting re-analysis:", error);
       res.status(500).json({
         success: false,
-        error: error instanceof Error ? error.message : "Failed to analyze audio",
+        error: error instanceof Error ? error.message : "Failed to start analysis",
       });
     }
   });
 
+  app.get("/api/recordings/:id/analyses", async (req, res) => {
+    try {
+      const recording = await analysisStorage.getRecording(req.params.id);
+      if (!recording) {
+        return res.status(404).json({ message: "Recording not found" });
+      }
+      res.json(await analysisStorage.listRecordingAnalyses(recording.id));
+    } catch (error) {
+      console.error("Error listing recording analyses:", error);
+      res.status(500).json({ message: "Failed to list analyses" });
+    }
+  });
+
+  app.get("/api/analyses", async (_req, res) => {
+    try {
+      res.json(await analysisStorage.listAudioAnalyses());
+    } catch (error) {
+      console.error("Error listing analyses:", error);
+      res.status(500).json({ message: "Failed to list analyses" });
+    }
+  });
+
+  app.get("/api/analyses/:id", async (req, res) => {
+    try {
+      const analysis = await analysisStorage.getAudioAnalysis(req.params.id);
+      if (!analysis) {
+        return res.status(404).json({ message: "Analysis not found" });
+      }
+      res.json(analysis.data);
+    } catch (error) {
+      console.error("Error loading analysis:", error);
+      res.status(500).json({ message: "Failed to load analysis" });
+    }
+  });
+
+  app.get("/api/analyses/:id/spectrogram", async (req, res) => {
+    try {
+      const spectrogram = await analysisStorage.getSpectrogram(req.params.id);
+      if (!spectrogram) {
+        return res.status(404).json({ message: "Spectrogram not found" });
+      }
+      res.json(spectrogram);
+    } catch (error) {
+      console.error("Error loading spectrogram:", error);
+      res.status(500).json({ message: "Failed to load spectrogram" });
+    }
+  });
+
+  app.get("/api/analyses/:id/waveform", async (req, res) => {
+    try {
+      const waveform = await analysisStorage.getWaveform(req.params.id);
+      if (!waveform) {
+        return res.status(404).json({ message: "Waveform not found" });
+      }
+      res.json(waveform);
+    } catch (error) {
+      console.error("Error loading waveform:", error);
+      res.status(500).json({ message: "Failed to load waveform" });
+    }
+  });
+
+  app.delete("/api/analyses/:id", async (req, res) => {
+    try {
+      const analysis = await analysisStorage.getAudioAnalysis(req.params.id);
+      if (!analysis) {
+        return res.status(404).json({ message: "Analysis not found" });
+      }
+
+      await analysisStorage.deleteAudioAnalysis(analysis.id);
+
+      // The uploaded file goes with the recording's last analysis version
+      const remaining = await analysisStorage.listRecordingAnalyses(analysis.recordingId);
+      if (remaining.length === 0) {
+        await analysisStorage.deleteRecording(analysis.recordingId);
+        const playbackName = playbackFilename(analysis.filename);
+        const names = playbackName === analysis.filename ? [analysis.filename] : [analysis.filename, playbackName];
+        for (const name of names) {
+          const audioPath = path.join(uploadDir, name);
+          if (fs.existsSync(audioPath)) {
+            fs.unlinkSync(audioPath);
+          }
+        }
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting analysis:", error);
+      res.status(500).json({ message: "Failed to delete analysis" });
+    }
+  });
+
+  app.get("/api/jobs/:id", (req, res) => {
+    const job = analysisJobs.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    res.json(job);
+  });
+
+  // Server-sent events: one `data:` message per progress update, closed once the job finishes
+  app.get("/api/jobs/:id/events", (req, res) => {
+    const job = analysisJobs.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    const send = (update: AnalysisJob) => {
+      res.write(`data: ${JSON.stringify(update)}\n\n`);
+      if (isJobFinished(update)) {
+        unsubscribe();
+        res.end();
+      }
+    };
+
+    const unsubscribe = analysisJobs.subscribe(job.id, send);
+    req.on("close", unsubscribe);
+    send(job);
+  });
+
+  app.delete("/api/jobs/:id", (req, res) => {
+    const job = analysisJobs.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    const cancelled = analysisJobs.cancel(job.id);
+    res.json({ success: cancelled });
+  });
+
   app.use("/uploads", (req, res, next) => {
     const cleanPath = req.path.replace(/^\//, "");
     const filePath = path.join(uploadDir, cleanPath);
     if (fs.existsSync(filePath)) {
-      const ext = path.extname(filePath).toLowerCase();
-      const mimeTypes: Record<string, string> = {
-        ".wav": "audio/wav",
-        ".mp3": "audio/mpeg",
-        ".m4a": "audio/mp4",
-      };
-      res.setHeader("Content-Type", mimeTypes[ext] || "application/octet-stream");
+      res.setHeader("Content-Type", contentTypeFor(filePath));
       res.sendFile(filePath);
     } else {
       next();
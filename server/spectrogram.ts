@@ -0,0 +1,90 @@
+import type { Spectrogram } from "@shared/schema";
+
+// Rows are log-spaced so most of the strip's height goes to the range birds
+// actually sing in rather than the empty top octave
+const SPECTROGRAM_ROWS = 128;
+const SPECTROGRAM_MIN_HZ = 100;
+// Longer recordings are max-pooled in time down to this many columns
+const MAX_COLUMNS = 8000;
+// Quantization floor below the loudest cell
+const DYNAMIC_RANGE_DB = 80;
+const MAGNITUDE_FLOOR = 1e-10;
+
+// Collects one column per analysis frame from the FFT magnitudes the analyzer
+// already computes, max-pooling in time as the frames arrive so long recordings
+// never hold more than MAX_COLUMNS columns, then quantizes them to bytes
+export class SpectrogramBuilder {
+  private readonly columns: Float32Array[] = [];
+  // Inclusive FFT bin range covered by each row
+  private rowBins: [number, number][] = [];
+  private readonly maxHz: number;
+  // Frames merged into each column
+  private readonly pool: number;
+  private frames = 0;
+
+  constructor(
+    frameSize: number,
+    sampleRate: number,
+    private readonly frameDuration: number,
+    expectedFrames: number
+  ) {
+    const binHz = sampleRate / frameSize;
+    const lastBin = frameSize / 2 - 1;
+    this.maxHz = sampleRate / 2;
+    this.pool = Math.max(1, Math.ceil(expectedFrames / MAX_COLUMNS));
+    const logRange = Math.log(this.maxHz / SPECTROGRAM_MIN_HZ);
+
+    for (let r = 0; r < SPECTROGRAM_ROWS; r++) {
+      const lowHz = SPECTROGRAM_MIN_HZ * Math.exp((logRange * r) / SPECTROGRAM_ROWS);
+      const highHz = SPECTROGRAM_MIN_HZ * Math.exp((logRange * (r + 1)) / SPECTROGRAM_ROWS);
+      // Narrow low rows fall inside a single bin and repeat it
+      const lo = Math.min(lastBin, Math.max(1, Math.floor(lowHz / binHz)));
+      const hi = Math.min(lastBin, Math.max(lo, Math.ceil(highHz / binHz) - 1));
+      this.rowBins.push([lo, hi]);
+    }
+  }
+
+  addFrame(magnitudes: Float32Array): void {
+    if (this.frames++ % this.pool === 0) {
+      this.columns.push(new Float32Array(SPECTROGRAM_ROWS).fill(-Infinity));
+    }
+    const column = this.columns[this.columns.length - 1];
+    for (let r = 0; r < SPECTROGRAM_ROWS; r++) {
+      const [lo, hi] = this.rowBins[r];
+      let peak = 0;
+      for (let k = lo; k <= hi; k++) {
+        if (magnitudes[k] > peak) peak = magnitudes[k];
+      }
+      column[r] = Math.max(column[r], 20 * Math.log10(peak + MAGNITUDE_FLOOR));
+    }
+  }
+
+  finish(): Spectrogram {
+    const columnCount = this.columns.length;
+    let maxDb = -Infinity;
+    for (const column of this.columns) {
+      for (let r = 0; r < SPECTROGRAM_ROWS; r++) maxDb = Math.max(maxDb, column[r]);
+    }
+    if (!Number.isFinite(maxDb)) maxDb = 0;
+    const minDb = maxDb - DYNAMIC_RANGE_DB;
+
+    const bytes = new Uint8Array(columnCount * SPECTROGRAM_ROWS);
+    this.columns.forEach((column, c) => {
+      for (let r = 0; r < SPECTROGRAM_ROWS; r++) {
+        const level = (column[r] - minDb) / DYNAMIC_RANGE_DB;
+        bytes[c * SPECTROGRAM_ROWS + r] = Math.round(255 * Math.max(0, Math.min(1, level)));
+      }
+    });
+
+    return {
+      columns: columnCount,
+      rows: SPECTROGRAM_ROWS,
+      columnDuration: this.frameDuration * this.pool,
+      minHz: SPECTROGRAM_MIN_HZ,
+      maxHz: this.maxHz,
+      minDb,
+      maxDb,
+      data: Buffer.from(bytes).toString("base64"),
+    };
+  }
+}
@@ -1,39 +1,409 @@
 import { randomUUID } from "crypto";
+import { Pool } from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { asc, desc, eq, inArray, sql } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import {
+  recordings,
+  analyses,
+  verses,
+  points,
+  spectrograms,
+  waveforms,
+  type AnalysisSummary,
+  type InsertRecording,
+  type Recording,
+  type Spectrogram,
+  type Verse,
+  type VisualizationData,
+  type VisualizationPoint,
+  type WaveformPeaks,
+} from "@shared/schema";
+import { playbackFilename } from "@shared/audio-formats";
 
 export interface AudioAnalysis {
   id: string;
+  recordingId: string;
   filename: string;
+  originalName: string;
   duration: number;
   sampleRate: number;
+  data: VisualizationData;
   createdAt: Date;
 }
 
+export type NewAudioAnalysis = Pick<AudioAnalysis, "recordingId" | "duration" | "sampleRate" | "data"> & {
+  spectrogram?: Spectrogram;
+  waveform?: WaveformPeaks;
+};
+
 export interface IStorage {
-  saveAudioAnalysis(analysis: Omit<AudioAnalysis, "id" | "createdAt">): Promise<AudioAnalysis>;
+  createRecording(recording: InsertRecording): Promise<Recording>;
+  getRecording(id: string): Promise<Recording | undefined>;
+  deleteRecording(id: string): Promise<boolean>;
+  saveAudioAnalysis(analysis: NewAudioAnalysis): Promise<AudioAnalysis>;
   getAudioAnalysis(id: string): Promise<AudioAnalysis | undefined>;
+  getSpectrogram(analysisId: string): Promise<Spectrogram | undefined>;
+  getWaveform(analysisId: string): Promise<WaveformPeaks | undefined>;
+  listAudioAnalyses(): Promise<AnalysisSummary[]>;
+  listRecordingAnalyses(recordingId: string): Promise<AnalysisSummary[]>;
+  deleteAudioAnalysis(id: string): Promise<boolean>;
+}
+
+export function toAnalysisSummary(analysis: AudioAnalysis): AnalysisSummary {
+  return {
+    id: analysis.id,
+    recordingId: analysis.recordingId,
+    filename: analysis.filename,
+    originalName: analysis.originalName,
+    duration: analysis.duration,
+    sampleRate: analysis.sampleRate,
+    verseCount: analysis.data.verses.length,
+    pointCount: analysis.data.verses.reduce((sum, verse) => sum + verse.points.length, 0),
+    options: analysis.data.options,
+    createdAt: analysis.createdAt.toISOString(),
+  };
+}
+
+function withIds(data: VisualizationData, analysisId: string, recordingId: string): VisualizationData {
+  return { ...data, analysisId, recordingId };
 }
 
 export class MemStorage implements IStorage {
-  private analyses: Map<string, AudioAnalysis>;
+  private recordings: Map<string, Recording>;
+  private analyses: Map<string, Omit<AudioAnalysis, "filename" | "originalName">>;
+  private spectrograms: Map<string, Spectrogram>;
+  private waveforms: Map<string, WaveformPeaks>;
 
   constructor() {
+    this.recordings = new Map();
     this.analyses = new Map();
+    this.spectrograms = new Map();
+    this.waveforms = new Map();
   }
 
-  async saveAudioAnalysis(analysis: Omit<AudioAnalysis, "id" | "createdAt">): Promise<AudioAnalysis> {
+  async createRecording(recording: InsertRecording): Promise<Recording> {
+    const fullRecording: Recording = {
+      ...recording,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.recordings.set(fullRecording.id, fullRecording);
+    return fullRecording;
+  }
+
+  async getRecording(id: string): Promise<Recording | undefined> {
+    return this.recordings.get(id);
+  }
+
+  async deleteRecording(id: string): Promise<boolean> {
+    for (const [analysisId, analysis] of Array.from(this.analyses.entries())) {
+      if (analysis.recordingId === id) {
+        this.analyses.delete(analysisId);
+        this.spectrograms.delete(analysisId);
+        this.waveforms.delete(analysisId);
+      }
+    }
+    return this.recordings.delete(id);
+  }
+
+  async saveAudioAnalysis(analysis: NewAudioAnalysis): Promise<AudioAnalysis> {
+    const recording = this.recordings.get(analysis.recordingId);
+    if (!recording) {
+      throw new Error(`Recording ${analysis.recordingId} not found`);
+    }
+
+    const { spectrogram, waveform, ...rest } = analysis;
     const id = randomUUID();
-    const fullAnalysis: AudioAnalysis = {
-      ...analysis,
+    const stored = {
+      ...rest,
       id,
+      data: withIds(analysis.data, id, recording.id),
       createdAt: new Date(),
     };
-    this.analyses.set(id, fullAnalysis);
-    return fullAnalysis;
+    this.analyses.set(id, stored);
+    if (spectrogram) this.spectrograms.set(id, spectrogram);
+    if (waveform) this.waveforms.set(id, waveform);
+    return { ...stored, filename: recording.filename, originalName: recording.originalName };
   }
 
   async getAudioAnalysis(id: string): Promise<AudioAnalysis | undefined> {
-    return this.analyses.get(id);
+    const stored = this.analyses.get(id);
+    const recording = stored && this.recordings.get(stored.recordingId);
+    if (!stored || !recording) return undefined;
+    return { ...stored, filename: recording.filename, originalName: recording.originalName };
+  }
+
+  async getSpectrogram(analysisId: string): Promise<Spectrogram | undefined> {
+    return this.spectrograms.get(analysisId);
+  }
+
+  async getWaveform(analysisId: string): Promise<WaveformPeaks | undefined> {
+    return this.waveforms.get(analysisId);
+  }
+
+  async listAudioAnalyses(): Promise<AnalysisSummary[]> {
+    return this.summarize(Array.from(this.analyses.keys()));
+  }
+
+  async listRecordingAnalyses(recordingId: string): Promise<AnalysisSummary[]> {
+    const ids = Array.from(this.analyses.values())
+      .filter((analysis) => analysis.recordingId === recordingId)
+      .map((analysis) => analysis.id);
+    return this.summarize(ids);
+  }
+
+  async deleteAudioAnalysis(id: string): Promise<boolean> {
+    this.spectrograms.delete(id);
+    this.waveforms.delete(id);
+    return this.analyses.delete(id);
   }
+
+  private async summarize(ids: string[]): Promise<AnalysisSummary[]> {
+    const summaries: AnalysisSummary[] = [];
+    for (const id of ids) {
+      const analysis = await this.getAudioAnalysis(id);
+      if (analysis) summaries.push(toAnalysisSummary(analysis));
+    }
+    return summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+}
+
+// Postgres caps bound parameters per statement, so points go in batches
+const POINT_INSERT_BATCH = 500;
+
+export class PgStorage implements IStorage {
+  private pool: Pool;
+  private db: NodePgDatabase<typeof schema>;
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({ connectionString });
+    this.db = drizzle(this.pool, { schema });
+  }
+
+  async createRecording(recording: InsertRecording): Promise<Recording> {
+    const [row] = await this.db.insert(recordings).values(recording).returning();
+    return row;
+  }
+
+  async getRecording(id: string): Promise<Recording | undefined> {
+    const [row] = await this.db.select().from(recordings).where(eq(recordings.id, id));
+    return row;
+  }
+
+  async deleteRecording(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(recordings)
+      .where(eq(recordings.id, id))
+      .returning({ id: recordings.id });
+    return deleted.length > 0;
+  }
+
+  async saveAudioAnalysis(analysis: NewAudioAnalysis): Promise<AudioAnalysis> {
+    const recording = await this.getRecording(analysis.recordingId);
+    if (!recording) {
+      throw new Error(`Recording ${analysis.recordingId} not found`);
+    }
+
+    const saved = await this.db.transaction(async (tx) => {
+      const [row] = await tx
+        .insert(analyses)
+        .values({
+          recordingId: recording.id,
+          duration: analysis.duration,
+          sampleRate: analysis.sampleRate,
+          options: analysis.data.options,
+          wavMetadata: analysis.data.wavMetadata,
+        })
+        .returning();
+
+      for (let verseIndex = 0; verseIndex < analysis.data.verses.length; verseIndex++) {
+        const verse = analysis.data.verses[verseIndex];
+        const [verseRow] = await tx
+          .insert(verses)
+          .values({
+            analysisId: row.id,
+            verseIndex,
+            name: verse.name,
+            start: verse.start,
+            end: verse.end,
+            edges: verse.edges,
+            edgeWeights: verse.edgeWeights ?? null,
+            syllables: verse.syllables ?? [],
+          })
+          .returning({ id: verses.id });
+
+        for (let i = 0; i < verse.points.length; i += POINT_INSERT_BATCH) {
+          const batch = verse.points.slice(i, i + POINT_INSERT_BATCH).map((point, j) => {
+            const { x, y, z, size, time, color, mfccs, ...extras } = point;
+            return {
+              verseId: verseRow.id,
+              pointIndex: i + j,
+              x, y, z, size, time, color, mfccs, extras,
+            };
+          });
+          await tx.insert(points).values(batch);
+        }
+      }
+
+      if (analysis.spectrogram) {
+        await tx.insert(spectrograms).values({ analysisId: row.id, spectrogram: analysis.spectrogram });
+      }
+      if (analysis.waveform) {
+        await tx.insert(waveforms).values({ analysisId: row.id, peaks: analysis.waveform });
+      }
+
+      return row;
+    });
+
+    return {
+      id: saved.id,
+      recordingId: recording.id,
+      filename: recording.filename,
+      originalName: recording.originalName,
+      duration: analysis.duration,
+      sampleRate: analysis.sampleRate,
+      data: withIds(analysis.data, saved.id, recording.id),
+      createdAt: saved.createdAt,
+    };
+  }
+
+  async getAudioAnalysis(id: string): Promise<AudioAnalysis | undefined> {
+    const [row] = await this.db
+      .select({ analysis: analyses, recording: recordings })
+      .from(analyses)
+      .innerJoin(recordings, eq(analyses.recordingId, recordings.id))
+      .where(eq(analyses.id, id));
+    if (!row) return undefined;
+
+    const verseRows = await this.db
+      .select()
+      .from(verses)
+      .where(eq(verses.analysisId, id))
+      .orderBy(asc(verses.verseIndex));
+
+    const pointRows = verseRows.length > 0
+      ? await this.db
+          .select()
+          .from(points)
+          .where(inArray(points.verseId, verseRows.map((v) => v.id)))
+          .orderBy(asc(points.verseId), asc(points.pointIndex))
+      : [];
+
+    const pointsByVerse = new Map<number, VisualizationPoint[]>();
+    for (const { id: _id, verseId, pointIndex: _pointIndex, extras, ...core } of pointRows) {
+      const list = pointsByVerse.get(verseId) ?? [];
+      list.push({ ...(extras as Partial<VisualizationPoint>), ...core });
+      pointsByVerse.set(verseId, list);
+    }
+
+    const loadedVerses: Verse[] = verseRows.map((v) => ({
+      id: v.verseIndex,
+      name: v.name,
+      start: v.start,
+      end: v.end,
+      points: pointsByVerse.get(v.id) ?? [],
+      edges: v.edges,
+      edgeWeights: v.edgeWeights ?? undefined,
+      syllables: v.syllables,
+    }));
+
+    return {
+      id: row.analysis.id,
+      recordingId: row.recording.id,
+      filename: row.recording.filename,
+      originalName: row.recording.originalName,
+      duration: row.analysis.duration,
+      sampleRate: row.analysis.sampleRate,
+      data: {
+        analysisId: row.analysis.id,
+        recordingId: row.recording.id,
+        audioUrl: `/uploads/${playbackFilename(row.recording.filename)}`,
+        duration: row.analysis.duration,
+        sampleRate: row.analysis.sampleRate,
+        verses: loadedVerses,
+        options: row.analysis.options ?? undefined,
+        wavMetadata: row.analysis.wavMetadata ?? undefined,
+      },
+      createdAt: row.analysis.createdAt,
+    };
+  }
+
+  async getSpectrogram(analysisId: string): Promise<Spectrogram | undefined> {
+    const [row] = await this.db
+      .select({ spectrogram: spectrograms.spectrogram })
+      .from(spectrograms)
+      .where(eq(spectrograms.analysisId, analysisId));
+    return row?.spectrogram;
+  }
+
+  async getWaveform(analysisId: string): Promise<WaveformPeaks | undefined> {
+    const [row] = await this.db
+      .select({ peaks: waveforms.peaks })
+      .from(waveforms)
+      .where(eq(waveforms.analysisId, analysisId));
+    return row?.peaks;
+  }
+
+  async listAudioAnalyses(): Promise<AnalysisSummary[]> {
+    return this.summarize();
+  }
+
+  async listRecordingAnalyses(recordingId: string): Promise<AnalysisSummary[]> {
+    return this.summarize(recordingId);
+  }
+
+  async deleteAudioAnalysis(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(analyses)
+      .where(eq(analyses.id, id))
+      .returning({ id: analyses.id });
+    return deleted.length > 0;
+  }
+
+  private async summarize(recordingId?: string): Promise<AnalysisSummary[]> {
+    const rows = await this.db
+      .select({
+        id: analyses.id,
+        recordingId: analyses.recordingId,
+        filename: recordings.filename,
+        originalName: recordings.originalName,
+        duration: analyses.duration,
+        sampleRate: analyses.sampleRate,
+        options: analyses.options,
+        createdAt: analyses.createdAt,
+        verseCount: sql<number>`(select count(*) from ${verses} where ${verses.analysisId} = ${analyses.id})::int`,
+        pointCount: sql<number>`(select count(*) from ${points} inner join ${verses} on ${points.verseId} = ${verses.id} where ${verses.analysisId} = ${analyses.id})::int`,
+      })
+      .from(analyses)
+      .innerJoin(recordings, eq(analyses.recordingId, recordings.id))
+      .where(recordingId ? eq(analyses.recordingId, recordingId) : undefined)
+      .orderBy(desc(analyses.createdAt));
+
+    return rows.map((row) => ({
+      ...row,
+      options: row.options ?? undefined,
+      createdAt: row.createdAt.toISOString(),
+    }));
+  }
+}
+
+// STORAGE_BACKEND=postgres uses DATABASE_URL; in-memory storage is the default
+function createStorage(): IStorage {
+  const backend = process.env.STORAGE_BACKEND ?? "memory";
+
+  if (backend === "postgres") {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("STORAGE_BACKEND=postgres requires DATABASE_URL to be set");
+    }
+    return new PgStorage(process.env.DATABASE_URL);
+  }
+
+  if (backend !== "memory") {
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}". Use "memory" or "postgres".`);
+  }
+
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
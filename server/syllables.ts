@@ -0,0 +1,317 @@
+import type { AnalysisOptions, Syllable } from "@shared/schema";
+import type { StageContext } from "./embeddings";
+
+// One phrase's frames, read through accessors so column-stored features
+// don't have to be copied out into objects
+export interface SyllableFrames {
+  length: number;
+  t(i: number): number;
+  amplitude(i: number): number;
+  beatStrength(i: number): number;
+  mfccs(i: number): ArrayLike<number>;
+}
+
+interface SyllableSpan {
+  start: number;
+  end: number;
+  from: number;
+  to: number;
+}
+
+// A beat this strong on a rising envelope starts a new syllable even without a dip
+const ONSET_SPLIT_STRENGTH = 0.6;
+
+// MFCC 0 tracks loudness, so trajectories use the timbre coefficients after it
+const TRAJECTORY_COEFFICIENTS = 12;
+// Trajectories are averaged down to this many steps to bound the DTW cost
+const TRAJECTORY_MAX_LENGTH = 24;
+// Sakoe-Chiba band as a fraction of the longer trajectory
+const DTW_BAND = 0.25;
+
+// Pairwise DTW is quadratic in the syllable count; beyond this the medoids are
+// found on an evenly spaced subset and the rest join their nearest medoid
+const CLUSTER_SAMPLE_LIMIT = 500;
+const MAX_AUTO_TYPES = 12;
+// Below this mean silhouette no split has real structure (Kaufman & Rousseeuw),
+// so every syllable gets the same type, as in a bout of one repeated syllable
+const MIN_TYPE_SILHOUETTE = 0.25;
+const MAX_KMEDOIDS_ITERATIONS = 50;
+
+// Split one phrase into syllables: runs of frames above a fraction of the
+// phrase's peak RMS, broken at gaps in the frame sequence and at strong onsets
+function segmentVerse(frames: SyllableFrames, frameDuration: number, options: AnalysisOptions): SyllableSpan[] {
+  const spans: SyllableSpan[] = [];
+  if (frames.length === 0) return spans;
+
+  let peak = 0;
+  for (let i = 0; i < frames.length; i++) peak = Math.max(peak, frames.amplitude(i));
+  const threshold = peak * options.syllableThreshold;
+  let from = -1;
+
+  const close = (to: number) => {
+    const start = frames.t(from);
+    const end = frames.t(to) + frameDuration;
+    if (end - start >= options.minSyllableDuration) {
+      spans.push({ start, end, from, to });
+    }
+    from = -1;
+  };
+
+  for (let i = 0; i < frames.length; i++) {
+    const amplitude = frames.amplitude(i);
+    const above = amplitude >= threshold;
+
+    if (from >= 0) {
+      const gap = frames.t(i) - frames.t(i - 1) > frameDuration * 1.5;
+      const onset = frames.beatStrength(i) >= ONSET_SPLIT_STRENGTH
+        && amplitude > frames.amplitude(i - 1)
+        && frames.t(i) - frames.t(from) >= options.minSyllableDuration;
+      if (!above || gap || onset) close(i - 1);
+    }
+    if (above && from < 0) from = i;
+  }
+  if (from >= 0) close(frames.length - 1);
+
+  return spans;
+}
+
+// Timbre trajectory of a syllable, averaged down to at most TRAJECTORY_MAX_LENGTH steps
+function trajectoryOf(frames: SyllableFrames, span: SyllableSpan): number[][] {
+  const length = span.to - span.from + 1;
+  const steps = Math.min(length, TRAJECTORY_MAX_LENGTH);
+  const trajectory: number[][] = [];
+
+  for (let s = 0; s < steps; s++) {
+    const lo = span.from + Math.floor((s * length) / steps);
+    const hi = span.from + Math.floor(((s + 1) * length) / steps);
+    const step = new Array(TRAJECTORY_COEFFICIENTS).fill(0);
+    for (let f = lo; f < hi; f++) {
+      const mfccs = frames.mfccs(f);
+      for (let c = 0; c < TRAJECTORY_COEFFICIENTS; c++) {
+        step[c] += (mfccs[c + 1] ?? 0) / (hi - lo);
+      }
+    }
+    trajectory.push(step);
+  }
+  return trajectory;
+}
+
+// z-score every coefficient across all syllables so no coefficient dominates the distance
+function standardize(trajectories: number[][][]): void {
+  const mean = new Array(TRAJECTORY_COEFFICIENTS).fill(0);
+  const variance = new Array(TRAJECTORY_COEFFICIENTS).fill(0);
+  let count = 0;
+
+  for (const trajectory of trajectories) {
+    for (const step of trajectory) {
+      count++;
+      for (let c = 0; c < TRAJECTORY_COEFFICIENTS; c++) mean[c] += step[c];
+    }
+  }
+  if (count === 0) return;
+  for (let c = 0; c < TRAJECTORY_COEFFICIENTS; c++) mean[c] /= count;
+
+  for (const trajectory of trajectories) {
+    for (const step of trajectory) {
+      for (let c = 0; c < TRAJECTORY_COEFFICIENTS; c++) variance[c] += (step[c] - mean[c]) ** 2;
+    }
+  }
+  const std = variance.map((v) => Math.sqrt(v / count) || 1);
+
+  for (const trajectory of trajectories) {
+    for (const step of trajectory) {
+      for (let c = 0; c < TRAJECTORY_COEFFICIENTS; c++) step[c] = (step[c] - mean[c]) / std[c];
+    }
+  }
+}
+
+// Banded dynamic time warping, normalised by the combined length so long and
+// short syllables compare on the same scale
+function dtwDistance(a: number[][], b: number[][]): number {
+  const n = a.length;
+  const m = b.length;
+  const band = Math.max(Math.abs(n - m), Math.ceil(DTW_BAND * Math.max(n, m)));
+  let prev = new Float64Array(m + 1).fill(Infinity);
+  let curr = new Float64Array(m + 1).fill(Infinity);
+  prev[0] = 0;
+
+  for (let i = 1; i <= n; i++) {
+    curr.fill(Infinity);
+    const lo = Math.max(1, i - band);
+    const hi = Math.min(m, i + band);
+    for (let j = lo; j <= hi; j++) {
+      let cost = 0;
+      for (let c = 0; c < TRAJECTORY_COEFFICIENTS; c++) {
+        const diff = a[i - 1][c] - b[j - 1][c];
+        cost += diff * diff;
+      }
+      curr[j] = Math.sqrt(cost) + Math.min(prev[j], curr[j - 1], prev[j - 1]);
+    }
+    [prev, curr] = [curr, prev];
+  }
+  return prev[m] / (n + m);
+}
+
+// PAM-style k-medoids: greedy BUILD initialisation, then alternate assignment
+// and medoid update until the medoids stop moving
+function kMedoids(distances: Float64Array, n: number, k: number): { medoids: number[]; labels: Int32Array } {
+  const medoids: number[] = [];
+  const nearest = new Float64Array(n).fill(Infinity);
+
+  while (medoids.length < k) {
+    let best = -1;
+    let bestCost = Infinity;
+    for (let candidate = 0; candidate < n; candidate++) {
+      if (medoids.includes(candidate)) continue;
+      let cost = 0;
+      for (let i = 0; i < n; i++) cost += Math.min(nearest[i], distances[i * n + candidate]);
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = candidate;
+      }
+    }
+    medoids.push(best);
+    for (let i = 0; i < n; i++) nearest[i] = Math.min(nearest[i], distances[i * n + best]);
+  }
+
+  const labels = new Int32Array(n);
+  for (let iter = 0; iter < MAX_KMEDOIDS_ITERATIONS; iter++) {
+    for (let i = 0; i < n; i++) {
+      let bestLabel = 0;
+      for (let c = 1; c < k; c++) {
+        if (distances[i * n + medoids[c]] < distances[i * n + medoids[bestLabel]]) bestLabel = c;
+      }
+      labels[i] = bestLabel;
+    }
+
+    let changed = false;
+    for (let c = 0; c < k; c++) {
+      let bestMedoid = medoids[c];
+      let bestCost = Infinity;
+      for (let candidate = 0; candidate < n; candidate++) {
+        if (labels[candidate] !== c) continue;
+        let cost = 0;
+        for (let i = 0; i < n; i++) {
+          if (labels[i] === c) cost += distances[i * n + candidate];
+        }
+        if (cost < bestCost) {
+          bestCost = cost;
+          bestMedoid = candidate;
+        }
+      }
+      if (bestMedoid !== medoids[c]) {
+        medoids[c] = bestMedoid;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  return { medoids, labels };
+}
+
+function meanSilhouette(distances: Float64Array, n: number, k: number, labels: Int32Array): number {
+  const sums = new Float64Array(k);
+  const sizes = new Int32Array(k);
+  for (let i = 0; i < n; i++) sizes[labels[i]]++;
+
+  let total = 0;
+  for (let i = 0; i < n; i++) {
+    sums.fill(0);
+    for (let j = 0; j < n; j++) {
+      if (j !== i) sums[labels[j]] += distances[i * n + j];
+    }
+    const own = labels[i];
+    if (sizes[own] <= 1) continue;
+    const a = sums[own] / (sizes[own] - 1);
+    let b = Infinity;
+    for (let c = 0; c < k; c++) {
+      if (c !== own && sizes[c] > 0) b = Math.min(b, sums[c] / sizes[c]);
+    }
+    const denom = Math.max(a, b);
+    if (Number.isFinite(b) && denom > 0) total += (b - a) / denom;
+  }
+  return total / n;
+}
+
+// Segment every phrase into syllables and label each with a syllable type.
+// Types are numbered in order of first appearance, so type 0 is heard first.
+export async function detectSyllables(
+  verseFrames: SyllableFrames[],
+  frameDuration: number,
+  options: AnalysisOptions,
+  context: StageContext
+): Promise<Syllable[][]> {
+  const spans = verseFrames.map((frames) => segmentVerse(frames, frameDuration, options));
+  const all = spans.flatMap((verseSpans, v) => verseSpans.map((span) => ({ verse: v, span })));
+  if (all.length === 0) return spans.map(() => []);
+
+  const trajectories = all.map(({ verse, span }) => trajectoryOf(verseFrames[verse], span));
+  standardize(trajectories);
+
+  // Medoids come from an evenly spaced subset when there are many syllables
+  const step = Math.ceil(all.length / CLUSTER_SAMPLE_LIMIT);
+  const sample: number[] = [];
+  for (let i = 0; i < all.length; i += step) sample.push(i);
+  const n = sample.length;
+
+  const distances = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const d = dtwDistance(trajectories[sample[i]], trajectories[sample[j]]);
+      distances[i * n + j] = d;
+      distances[j * n + i] = d;
+    }
+    if (i % 25 === 0) {
+      context.report(0.7 * (1 - ((n - i) / n) ** 2));
+      await context.checkpoint();
+    }
+  }
+
+  let medoids = [0];
+  if (options.syllableTypes > 0) {
+    medoids = kMedoids(distances, n, Math.min(options.syllableTypes, n)).medoids;
+  } else if (n >= 3) {
+    // Pick the type count with the best mean silhouette, or a single type if none is convincing
+    medoids = kMedoids(distances, n, 1).medoids;
+    let bestScore = MIN_TYPE_SILHOUETTE;
+    for (let k = 2; k <= Math.min(MAX_AUTO_TYPES, n - 1); k++) {
+      const result = kMedoids(distances, n, k);
+      const score = meanSilhouette(distances, n, k, result.labels);
+      if (score > bestScore) {
+        bestScore = score;
+        medoids = result.medoids;
+      }
+      context.report(0.7 + 0.25 * (k / Math.min(MAX_AUTO_TYPES, n - 1)));
+      await context.checkpoint();
+    }
+  }
+
+  // Every syllable, sampled or not, takes the type of its nearest medoid
+  const medoidTrajectories = medoids.map((m) => trajectories[sample[m]]);
+  const rawTypes = trajectories.map((trajectory) => {
+    let best = 0;
+    let bestDistance = Infinity;
+    medoidTrajectories.forEach((medoid, c) => {
+      const d = dtwDistance(trajectory, medoid);
+      if (d < bestDistance) {
+        bestDistance = d;
+        best = c;
+      }
+    });
+    return best;
+  });
+
+  const order = new Map<number, number>();
+  for (const type of rawTypes) {
+    if (!order.has(type)) order.set(type, order.size);
+  }
+
+  const result: Syllable[][] = spans.map(() => []);
+  all.forEach(({ verse, span }, i) => {
+    result[verse].push({ start: span.start, end: span.end, type: order.get(rawTypes[i])! });
+  });
+
+  context.report(1);
+  return result;
+}
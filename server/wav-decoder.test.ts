@@ -0,0 +1,341 @@
+import { test, describe, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { readWavHeader, readWavWindows, streamWavChannels, wavMetadata, type WavChannel, type WavInfo } from "./wav-decoder";
+
+// Round trips synthetic WAV files through the decoder: every sample width,
+// the extensible header, multichannel selection and BWF/iXML metadata
+
+interface SyntheticWav {
+  // One array of samples in ±1 per channel, all the same length
+  channels: number[][];
+  sampleRate?: number;
+  bitsPerSample: 8 | 16 | 24 | 32 | 64;
+  float?: boolean;
+  extensible?: { validBitsPerSample: number; channelMask: number };
+  bext?: Buffer;
+  // Placed after the data chunk, as some recorders do
+  ixml?: string;
+  rf64?: boolean;
+}
+
+function chunk(id: string, body: Buffer, size = body.length): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, "ascii");
+  header.writeUInt32LE(size, 4);
+  return Buffer.concat([header, body, Buffer.alloc(body.length & 1)]);
+}
+
+function encodeSample(buffer: Buffer, offset: number, value: number, wav: SyntheticWav): void {
+  if (wav.float) {
+    if (wav.bitsPerSample === 64) buffer.writeDoubleLE(value, offset);
+    else buffer.writeFloatLE(value, offset);
+    return;
+  }
+  const clamp = (max: number) => Math.max(-max, Math.min(max - 1, Math.round(value * max)));
+  switch (wav.bitsPerSample) {
+    case 8:
+      buffer[offset] = clamp(128) + 128;
+      break;
+    case 16:
+      buffer.writeInt16LE(clamp(32768), offset);
+      break;
+    case 24:
+      buffer.writeIntLE(clamp(8388608), offset, 3);
+      break;
+    default:
+      buffer.writeInt32LE(clamp(2147483648), offset);
+  }
+}
+
+function encodeWav(wav: SyntheticWav): Buffer {
+  const channelCount = wav.channels.length;
+  const frames = wav.channels[0].length;
+  const bytesPerSample = wav.bitsPerSample / 8;
+  const blockAlign = bytesPerSample * channelCount;
+  const sampleRate = wav.sampleRate ?? 48000;
+
+  const fmt = Buffer.alloc(wav.extensible ? 40 : 16);
+  fmt.writeUInt16LE(wav.extensible ? 0xfffe : wav.float ? 3 : 1, 0);
+  fmt.writeUInt16LE(channelCount, 2);
+  fmt.writeUInt32LE(sampleRate, 4);
+  fmt.writeUInt32LE(sampleRate * blockAlign, 8);
+  fmt.writeUInt16LE(blockAlign, 12);
+  fmt.writeUInt16LE(wav.bitsPerSample, 14);
+  if (wav.extensible) {
+    fmt.writeUInt16LE(22, 16);
+    fmt.writeUInt16LE(wav.extensible.validBitsPerSample, 18);
+    fmt.writeUInt32LE(wav.extensible.channelMask, 20);
+    fmt.writeUInt16LE(wav.float ? 3 : 1, 24);
+    Buffer.from("000000001000800000aa00389b71", "hex").copy(fmt, 26);
+  }
+
+  const data = Buffer.alloc(frames * blockAlign);
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      encodeSample(data, i * blockAlign + c * bytesPerSample, wav.channels[c][i], wav);
+    }
+  }
+
+  const chunks: Buffer[] = [];
+  if (wav.rf64) {
+    const ds64 = Buffer.alloc(28);
+    ds64.writeUInt32LE(data.length, 8);
+    chunks.push(chunk("ds64", ds64));
+  }
+  chunks.push(chunk("fmt ", fmt));
+  if (wav.bext) chunks.push(chunk("bext", wav.bext));
+  chunks.push(chunk("data", data, wav.rf64 ? 0xffffffff : data.length));
+  if (wav.ixml) chunks.push(chunk("iXML", Buffer.from(wav.ixml, "utf8")));
+
+  const body = Buffer.concat(chunks);
+  const head = Buffer.alloc(12);
+  head.write(wav.rf64 ? "RF64" : "RIFF", 0, "ascii");
+  head.writeUInt32LE(wav.rf64 ? 0xffffffff : body.length + 4, 4);
+  head.write("WAVE", 8, "ascii");
+  return Buffer.concat([head, body]);
+}
+
+function bextChunk(): Buffer {
+  const codingHistory = "A=PCM,F=48000,W=24,M=stereo,T=field recorder\r\n";
+  const buffer = Buffer.alloc(602 + codingHistory.length);
+  buffer.write("Dawn chorus, north meadow", 0, "latin1");
+  buffer.write("FieldRec", 256, "latin1");
+  buffer.write("REF-0042", 288, "latin1");
+  buffer.write("2026-05-01", 320, "latin1");
+  buffer.write("04:55:00", 330, "latin1");
+  // 48000 × 86400 × 2 samples since midnight: past 32 bits
+  const timeReference = 8294400000;
+  buffer.writeUInt32LE(timeReference % 0x100000000, 338);
+  buffer.writeUInt32LE(Math.floor(timeReference / 0x100000000), 342);
+  buffer.writeUInt16LE(1, 346);
+  buffer.write(codingHistory, 602, "latin1");
+  return buffer;
+}
+
+// A distinct, deterministic signal per channel
+function signal(frames: number, channel: number): number[] {
+  return Array.from({ length: frames }, (_, i) => 0.8 * Math.sin((i + 1) * 0.05 * (channel + 1)) * (channel % 2 ? -1 : 1));
+}
+
+let directory: string;
+let fileIndex = 0;
+
+function writeWav(wav: SyntheticWav): { filePath: string; info: WavInfo } {
+  const filePath = path.join(directory, `synthetic-${fileIndex++}.wav`);
+  fs.writeFileSync(filePath, encodeWav(wav));
+  const info = readWavHeader(filePath);
+  assert.ok(info, "readWavHeader should recognise the file");
+  return { filePath, info };
+}
+
+// Decodes in deliberately small, uneven chunks to cross chunk boundaries
+async function decodeAll(filePath: string, info: WavInfo, channels: WavChannel[]): Promise<Float32Array[]> {
+  const parts: Float32Array[][] = channels.map(() => []);
+  for await (const chunkSignals of streamWavChannels(filePath, info, channels, 37)) {
+    chunkSignals.forEach((samples, c) => parts[c].push(samples));
+  }
+  return parts.map((list) => {
+    const joined = new Float32Array(list.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of list) {
+      joined.set(part, offset);
+      offset += part.length;
+    }
+    return joined;
+  });
+}
+
+function assertClose(actual: ArrayLike<number>, expected: number[], tolerance: number, label: string): void {
+  assert.equal(actual.length, expected.length, `${label}: length`);
+  for (let i = 0; i < expected.length; i++) {
+    if (Math.abs(actual[i] - expected[i]) > tolerance) {
+      assert.fail(`${label}: sample ${i} is ${actual[i]}, expected ${expected[i]} ± ${tolerance}`);
+    }
+  }
+}
+
+before(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), "wav-decoder-test-"));
+});
+
+after(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe("sample formats", () => {
+  const frames = 500;
+  const cases: { name: string; wav: Omit<SyntheticWav, "channels">; tolerance: number }[] = [
+    { name: "8-bit unsigned int", wav: { bitsPerSample: 8 }, tolerance: 1 / 128 },
+    { name: "16-bit int", wav: { bitsPerSample: 16 }, tolerance: 1 / 32768 },
+    { name: "24-bit int", wav: { bitsPerSample: 24 }, tolerance: 1 / 8388608 },
+    { name: "32-bit int", wav: { bitsPerSample: 32 }, tolerance: 1e-7 },
+    { name: "32-bit float", wav: { bitsPerSample: 32, float: true }, tolerance: 1e-7 },
+    { name: "64-bit float", wav: { bitsPerSample: 64, float: true }, tolerance: 1e-7 },
+  ];
+
+  for (const { name, wav, tolerance } of cases) {
+    test(name, async () => {
+      const channels = [signal(frames, 0), signal(frames, 1)];
+      const { filePath, info } = writeWav({ ...wav, channels });
+
+      assert.equal(info.sampleRate, 48000);
+      assert.equal(info.channels, 2);
+      assert.equal(info.bitsPerSample, wav.bitsPerSample);
+      assert.equal(info.sampleFormat, wav.float ? "float" : "int");
+      assert.equal(info.frameCount, frames);
+
+      const [left, right, mix] = await decodeAll(filePath, info, [0, 1, "mix"]);
+      assertClose(left, channels[0], tolerance, "left");
+      assertClose(right, channels[1], tolerance, "right");
+      assertClose(mix, channels[0].map((v, i) => (v + channels[1][i]) / 2), tolerance, "mix");
+    });
+  }
+});
+
+describe("extensible header", () => {
+  test("20 valid bits in 24-bit containers", async () => {
+    const channels = [signal(300, 0), signal(300, 1)];
+    const { filePath, info } = writeWav({
+      channels,
+      bitsPerSample: 24,
+      extensible: { validBitsPerSample: 20, channelMask: 0x3 },
+    });
+
+    assert.equal(info.sampleFormat, "int");
+    assert.equal(info.bitsPerSample, 24);
+    assert.equal(info.validBitsPerSample, 20);
+    assert.equal(info.channelMask, 0x3);
+    assert.equal(wavMetadata(info).bitsPerSample, 20);
+
+    const [left, right] = await decodeAll(filePath, info, [0, 1]);
+    assertClose(left, channels[0], 1 / 8388608, "left");
+    assertClose(right, channels[1], 1 / 8388608, "right");
+  });
+
+  test("32-bit float sub-format", async () => {
+    const channels = [signal(300, 0)];
+    const { filePath, info } = writeWav({
+      channels,
+      bitsPerSample: 32,
+      float: true,
+      extensible: { validBitsPerSample: 32, channelMask: 0x4 },
+    });
+
+    assert.equal(info.sampleFormat, "float");
+    const [mono] = await decodeAll(filePath, info, ["mix"]);
+    assertClose(mono, channels[0], 1e-7, "mono");
+  });
+
+  test("unknown sub-format is left to ffmpeg", () => {
+    const wav = encodeWav({ channels: [signal(10, 0)], bitsPerSample: 16, extensible: { validBitsPerSample: 16, channelMask: 0 } });
+    // Corrupt the GUID tail of the 40-byte fmt chunk, which starts at byte 20
+    wav[20 + 26] ^= 0xff;
+    const filePath = path.join(directory, "unknown-subformat.wav");
+    fs.writeFileSync(filePath, wav);
+    assert.equal(readWavHeader(filePath)?.sampleFormat, null);
+  });
+});
+
+describe("multichannel", () => {
+  test("selects each of six channels and mixes them", async () => {
+    const channels = Array.from({ length: 6 }, (_, c) => signal(400, c));
+    const { filePath, info } = writeWav({ channels, bitsPerSample: 24, extensible: { validBitsPerSample: 24, channelMask: 0x3f } });
+
+    assert.equal(info.channels, 6);
+    assert.equal(info.blockAlign, 18);
+
+    const decoded = await decodeAll(filePath, info, [0, 1, 2, 3, 4, 5, "mix"]);
+    for (let c = 0; c < 6; c++) assertClose(decoded[c], channels[c], 1 / 8388608, `channel ${c + 1}`);
+    const mix = channels[0].map((_, i) => channels.reduce((sum, channel) => sum + channel[i], 0) / 6);
+    assertClose(decoded[6], mix, 1e-6, "mix");
+  });
+
+  test("reads windows of selected channels", async () => {
+    const channels = Array.from({ length: 4 }, (_, c) => signal(400, c));
+    const { filePath, info } = writeWav({ channels, bitsPerSample: 16 });
+
+    const windows = await readWavWindows(filePath, info, [{ start: 10, length: 20 }, { start: 390, length: 20 }], [1, 3]);
+    assertClose(windows[0][0], channels[1].slice(10, 30), 1 / 32768, "window 1, channel 2");
+    assertClose(windows[0][1], channels[3].slice(10, 30), 1 / 32768, "window 1, channel 4");
+    // Runs past the end of the data come back short
+    assertClose(windows[1][0], channels[1].slice(390), 1 / 32768, "window 2, channel 2");
+  });
+
+  test("rejects a channel the recording doesn't have", async () => {
+    const { filePath, info } = writeWav({ channels: [signal(50, 0), signal(50, 1)], bitsPerSample: 16 });
+    await assert.rejects(decodeAll(filePath, info, [2]), /Channel 3 was requested, but the recording has 2 channels/);
+  });
+});
+
+describe("metadata and containers", () => {
+  test("BWF bext and an iXML chunk after the data", async () => {
+    const ixml = "<BWFXML><PROJECT>Meadow</PROJECT></BWFXML>";
+    const channels = [signal(200, 0), signal(200, 1)];
+    const { filePath, info } = writeWav({ channels, bitsPerSample: 24, bext: bextChunk(), ixml });
+
+    const { bext } = wavMetadata(info);
+    assert.deepEqual(bext, {
+      description: "Dawn chorus, north meadow",
+      originator: "FieldRec",
+      originatorReference: "REF-0042",
+      originationDate: "2026-05-01",
+      originationTime: "04:55:00",
+      timeReference: 8294400000,
+      version: 1,
+      codingHistory: "A=PCM,F=48000,W=24,M=stereo,T=field recorder",
+    });
+    assert.equal(info.ixml, ixml);
+
+    // The metadata chunks must not leak into the samples
+    const [left, right] = await decodeAll(filePath, info, [0, 1]);
+    assertClose(left, channels[0], 1 / 8388608, "left");
+    assertClose(right, channels[1], 1 / 8388608, "right");
+  });
+
+  test("RF64 takes the data size from ds64", async () => {
+    const channels = [signal(250, 0)];
+    const { filePath, info } = writeWav({ channels, bitsPerSample: 32, float: true, rf64: true });
+
+    assert.equal(info.frameCount, 250);
+    const [mono] = await decodeAll(filePath, info, [0]);
+    assertClose(mono, channels[0], 1e-7, "mono");
+  });
+
+  test("a data size of 0 from an interrupted recording reads to the end of the file", async () => {
+    const wav = encodeWav({ channels: [signal(120, 0)], bitsPerSample: 16 });
+    // Header (12) + fmt chunk (8 + 16) + data chunk id
+    wav.writeUInt32LE(0, 12 + 24 + 4);
+    const filePath = path.join(directory, "interrupted.wav");
+    fs.writeFileSync(filePath, wav);
+
+    const info = readWavHeader(filePath);
+    assert.equal(info?.frameCount, 120);
+  });
+
+  test("audio after a data size of 0 or past the end isn't read as chunks", () => {
+    const frames = 120;
+    for (const declared of [0, 1_000_000]) {
+      const wav = encodeWav({ channels: [new Array(frames).fill(0)], bitsPerSample: 16 });
+      wav.writeUInt32LE(declared, 12 + 24 + 4);
+      // Sample bytes that happen to look like a six-channel 8 kHz fmt chunk
+      const fake = chunk("fmt ", encodeWav({ channels: new Array(6).fill([0]), sampleRate: 8000, bitsPerSample: 16 }).subarray(20, 36));
+      fake.copy(wav, 12 + 24 + 8);
+      const filePath = path.join(directory, `streamed-${declared}.wav`);
+      fs.writeFileSync(filePath, wav);
+
+      const info = readWavHeader(filePath);
+      assert.equal(info?.channels, 1, `channels (declared ${declared})`);
+      assert.equal(info?.sampleRate, 48000, `sample rate (declared ${declared})`);
+      assert.equal(info?.frameCount, frames, `frames (declared ${declared})`);
+    }
+  });
+
+  test("files that aren't WAV return null", () => {
+    const filePath = path.join(directory, "not-a-wav.wav");
+    fs.writeFileSync(filePath, Buffer.from("ID3\u0004 this is an mp3"));
+    assert.equal(readWavHeader(filePath), null);
+  });
+});
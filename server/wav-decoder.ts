@@ -0,0 +1,314 @@
+import fs from "fs";
+import type { BroadcastExtension, WavMetadata } from "@shared/schema";
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+// Extensible sub-format GUIDs are the format code followed by this fixed tail
+const KSDATAFORMAT_TAIL = "000000001000800000aa00389b71";
+// RF64 puts this in 32-bit size fields and the real size in its ds64 chunk
+const RF64_SIZE_PLACEHOLDER = 0xffffffff;
+// Extensible fmt chunks are 40 bytes; anything past that is ignored
+const MAX_FORMAT_CHUNK = 64;
+// bext coding histories and iXML documents are a few KB; cap what is read
+const MAX_METADATA_CHUNK = 1024 * 1024;
+// Sample frames decoded per read: a few MB at most, whatever the file length
+const STREAM_CHUNK_FRAMES = 65536;
+
+export interface WavInfo {
+  sampleRate: number;
+  channels: number;
+  // Container width; 20-bit audio in 24-bit slots reports 24
+  bitsPerSample: number;
+  // Significant bits, from the extensible header; equals bitsPerSample otherwise
+  validBitsPerSample: number;
+  // Undecodable encodings (ADPCM, A-law, ...) are null and need ffmpeg
+  sampleFormat: "int" | "float" | null;
+  // Bytes per sample frame across all channels
+  blockAlign: number;
+  channelMask?: number;
+  dataOffset: number;
+  // Clamped to the bytes actually present, in whole frames
+  dataLength: number;
+  frameCount: number;
+  bext?: BroadcastExtension;
+  ixml?: string;
+}
+
+function readUint64LE(buffer: Buffer, offset: number): number {
+  return buffer.readUInt32LE(offset) + buffer.readUInt32LE(offset + 4) * 0x100000000;
+}
+
+// Fixed-width text fields are NUL-padded
+function readText(buffer: Buffer, start: number, end: number): string {
+  const text = buffer.toString("latin1", start, Math.min(end, buffer.length));
+  const nul = text.indexOf("\0");
+  return (nul < 0 ? text : text.slice(0, nul)).trim();
+}
+
+function parseFormatChunk(buffer: Buffer, offset: number, size: number) {
+  let formatCode = buffer.readUInt16LE(offset);
+  const channels = buffer.readUInt16LE(offset + 2);
+  const sampleRate = buffer.readUInt32LE(offset + 4);
+  const blockAlign = buffer.readUInt16LE(offset + 12);
+  const bitsPerSample = buffer.readUInt16LE(offset + 14);
+  let validBitsPerSample = bitsPerSample;
+  let channelMask: number | undefined;
+
+  if (formatCode === WAVE_FORMAT_EXTENSIBLE && size >= 40) {
+    validBitsPerSample = buffer.readUInt16LE(offset + 18) || bitsPerSample;
+    channelMask = buffer.readUInt32LE(offset + 20);
+    const tail = buffer.toString("hex", offset + 26, offset + 40);
+    formatCode = tail === KSDATAFORMAT_TAIL ? buffer.readUInt16LE(offset + 24) : 0;
+  }
+
+  let sampleFormat: WavInfo["sampleFormat"] = null;
+  if (formatCode === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(bitsPerSample)) {
+    sampleFormat = "int";
+  } else if (formatCode === WAVE_FORMAT_IEEE_FLOAT && (bitsPerSample === 32 || bitsPerSample === 64)) {
+    sampleFormat = "float";
+  }
+  // Some writers leave blockAlign at 0; the frame size follows from the rest
+  const frameBytes = (bitsPerSample / 8) * channels;
+  return {
+    sampleRate,
+    channels,
+    bitsPerSample,
+    validBitsPerSample,
+    sampleFormat,
+    blockAlign: blockAlign >= frameBytes ? blockAlign : frameBytes,
+    channelMask,
+  };
+}
+
+function parseBroadcastExtension(buffer: Buffer, offset: number, size: number): BroadcastExtension {
+  return {
+    description: readText(buffer, offset, offset + 256),
+    originator: readText(buffer, offset + 256, offset + 288),
+    originatorReference: readText(buffer, offset + 288, offset + 320),
+    originationDate: readText(buffer, offset + 320, offset + 330),
+    originationTime: readText(buffer, offset + 330, offset + 338),
+    timeReference: readUint64LE(buffer, offset + 338),
+    version: buffer.readUInt16LE(offset + 346),
+    // UMID and loudness fields (v1/v2) sit between here and the coding history
+    codingHistory: readText(buffer, offset + 602, offset + size),
+  };
+}
+
+// Reads `length` bytes at `offset`; fewer at the end of the file
+type ByteSource = (offset: number, length: number) => Buffer;
+
+// Walks the RIFF/RF64 chunk list, reading only chunk headers and the small
+// metadata chunks. Returns null when the file isn't a WAV file at all; a WAV
+// with no usable fmt/data pair throws.
+function parseWav(read: ByteSource, size: number): WavInfo | null {
+  const head = read(0, 12);
+  if (head.length < 12) return null;
+  const riff = head.toString("ascii", 0, 4);
+  if ((riff !== "RIFF" && riff !== "RF64") || head.toString("ascii", 8, 12) !== "WAVE") {
+    return null;
+  }
+
+  let format: ReturnType<typeof parseFormatChunk> | undefined;
+  let rf64DataSize: number | undefined;
+  let dataOffset = -1;
+  let dataSize = 0;
+  let bext: BroadcastExtension | undefined;
+  let ixml: string | undefined;
+
+  let offset = 12;
+  while (offset + 8 <= size) {
+    const header = read(offset, 8);
+    const chunkId = header.toString("ascii", 0, 4);
+    let chunkSize = header.readUInt32LE(4);
+    const body = offset + 8;
+
+    if (chunkId === "ds64" && chunkSize >= 16) {
+      const ds64 = read(body, 16);
+      if (ds64.length === 16) rf64DataSize = readUint64LE(ds64, 8);
+    } else if (chunkId === "fmt " && chunkSize >= 16) {
+      const fmt = read(body, Math.min(chunkSize, MAX_FORMAT_CHUNK));
+      if (fmt.length >= 16) format = parseFormatChunk(fmt, 0, fmt.length);
+    } else if (chunkId === "data") {
+      if (chunkSize === RF64_SIZE_PLACEHOLDER && rf64DataSize !== undefined) {
+        chunkSize = rf64DataSize;
+      }
+      dataOffset = body;
+      dataSize = chunkSize;
+      // A size of 0 or one running past the end of the file means the audio
+      // runs to the end, so there are no chunk headers after it to read
+      if (chunkSize === 0 || chunkSize > size - body) break;
+    } else if (chunkId === "bext" && chunkSize >= 348) {
+      const chunk = read(body, Math.min(chunkSize, MAX_METADATA_CHUNK));
+      if (chunk.length >= 348) bext = parseBroadcastExtension(chunk, 0, chunk.length);
+    } else if (chunkId === "iXML") {
+      const chunk = read(body, Math.min(chunkSize, MAX_METADATA_CHUNK));
+      ixml = readText(chunk, 0, chunk.length);
+    }
+
+    // Chunks are word-aligned; odd sizes are followed by a pad byte
+    offset = body + chunkSize + (chunkSize & 1);
+  }
+
+  if (!format) {
+    throw new Error("The WAV file has no format chunk.");
+  }
+  if (dataOffset < 0) {
+    throw new Error("The WAV file has no audio data.");
+  }
+  if (format.channels === 0 || format.bitsPerSample === 0) {
+    throw new Error("The WAV file's format chunk is invalid.");
+  }
+
+  // Recorders that were cut off leave the size at 0 or past the end of the file
+  const available = size - dataOffset;
+  const declared = dataSize === 0 || dataSize > available ? available : dataSize;
+  const frameCount = Math.floor(declared / format.blockAlign);
+
+  return {
+    ...format,
+    dataOffset,
+    dataLength: frameCount * format.blockAlign,
+    frameCount,
+    bext,
+    ixml,
+  };
+}
+
+export function readWavHeader(filePath: string): WavInfo | null {
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const size = fs.fstatSync(fd).size;
+    const read: ByteSource = (offset, length) => {
+      const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - offset)));
+      fs.readSync(fd, buffer, 0, buffer.length, offset);
+      return buffer;
+    };
+    return parseWav(read, size);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+export function wavMetadata(info: WavInfo): WavMetadata {
+  return {
+    channels: info.channels,
+    bitsPerSample: info.validBitsPerSample,
+    sampleFormat: info.sampleFormat ?? "int",
+    channelMask: info.channelMask,
+    bext: info.bext,
+    ixml: info.ixml,
+  };
+}
+
+// A channel index, or "mix" for the mean of all channels
+export type WavChannel = number | "mix";
+
+type SampleReader = (buffer: Buffer, offset: number) => number;
+
+function sampleReader(info: WavInfo): SampleReader {
+  if (info.sampleFormat === "float") {
+    return info.bitsPerSample === 64
+      ? (buffer, offset) => buffer.readDoubleLE(offset)
+      : (buffer, offset) => buffer.readFloatLE(offset);
+  }
+  switch (info.bitsPerSample) {
+    case 8:
+      // 8-bit WAV is the one unsigned width
+      return (buffer, offset) => (buffer[offset] - 128) / 128;
+    case 16:
+      return (buffer, offset) => buffer.readInt16LE(offset) / 32768;
+    case 24:
+      return (buffer, offset) => buffer.readIntLE(offset, 3) / 8388608;
+    default:
+      return (buffer, offset) => buffer.readInt32LE(offset) / 2147483648;
+  }
+}
+
+// Decodes whole sample frames from `data`, which starts on a frame boundary,
+// to mono: one channel, or the mean of all of them for "mix". Samples are
+// scaled to ±1 by the container width, so padded low bits don't change levels.
+function decodeWavFrames(
+  data: Buffer,
+  info: WavInfo,
+  channel: WavChannel
+): Float32Array {
+  if (!info.sampleFormat) {
+    throw new Error("Unsupported WAV encoding.");
+  }
+  if (channel !== "mix" && channel >= info.channels) {
+    throw new Error(
+      `Channel ${channel + 1} was requested, but the recording has ${info.channels} channel${info.channels === 1 ? "" : "s"}.`
+    );
+  }
+
+  const frames = Math.floor(data.length / info.blockAlign);
+  const samples = new Float32Array(frames);
+  const read = sampleReader(info);
+  const bytesPerSample = info.bitsPerSample / 8;
+
+  if (channel === "mix" && info.channels > 1) {
+    const scale = 1 / info.channels;
+    for (let i = 0; i < frames; i++) {
+      const frameOffset = i * info.blockAlign;
+      let sum = 0;
+      for (let c = 0; c < info.channels; c++) {
+        sum += read(data, frameOffset + c * bytesPerSample);
+      }
+      samples[i] = sum * scale;
+    }
+  } else {
+    const channelOffset = channel === "mix" ? 0 : channel * bytesPerSample;
+    for (let i = 0; i < frames; i++) {
+      samples[i] = read(data, i * info.blockAlign + channelOffset);
+    }
+  }
+  return samples;
+}
+
+// Decodes the data chunk a fixed number of sample frames at a time, yielding
+// one mono signal per requested channel, so memory stays flat however long the file
+export async function* streamWavChannels(
+  filePath: string,
+  info: WavInfo,
+  channels: WavChannel[],
+  chunkFrames: number = STREAM_CHUNK_FRAMES
+): AsyncGenerator<Float32Array[]> {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(chunkFrames * info.blockAlign);
+    for (let frame = 0; frame < info.frameCount; frame += chunkFrames) {
+      const length = Math.min(chunkFrames, info.frameCount - frame) * info.blockAlign;
+      const { bytesRead } = await handle.read(buffer, 0, length, info.dataOffset + frame * info.blockAlign);
+      const data = buffer.subarray(0, bytesRead - (bytesRead % info.blockAlign));
+      if (data.length === 0) return;
+      yield channels.map((channel) => decodeWavFrames(data, info, channel));
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+// Decodes short runs of sample frames, such as the neighbourhood of a few
+// analysis frames, without reading the rest of the file. Each run yields one
+// signal per requested channel; runs past the end of the data come back short.
+export async function readWavWindows(
+  filePath: string,
+  info: WavInfo,
+  windows: { start: number; length: number }[],
+  channels: WavChannel[]
+): Promise<Float32Array[][]> {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const decoded: Float32Array[][] = [];
+    for (const { start, length } of windows) {
+      const frames = Math.max(0, Math.min(length, info.frameCount - start));
+      const buffer = Buffer.alloc(frames * info.blockAlign);
+      await handle.read(buffer, 0, buffer.length, info.dataOffset + start * info.blockAlign);
+      decoded.push(channels.map((channel) => decodeWavFrames(buffer, info, channel)));
+    }
+    return decoded;
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,101 @@
+import type { WaveformLevel, WaveformPeaks } from "@shared/schema";
+
+// Finest level; each further level merges LEVEL_FACTOR peaks of the previous one
+const BASE_SAMPLES_PER_PEAK = 256;
+const LEVEL_FACTOR = 4;
+// Stop adding levels once one is this small; any timeline is wider than that
+const MIN_LEVEL_PEAKS = 512;
+
+function encodeLevel(samplesPerPeak: number, mins: Int8Array, maxs: Int8Array): WaveformLevel {
+  const pairs = new Int8Array(mins.length * 2);
+  for (let i = 0; i < mins.length; i++) {
+    pairs[i * 2] = mins[i];
+    pairs[i * 2 + 1] = maxs[i];
+  }
+  return {
+    samplesPerPeak,
+    data: Buffer.from(pairs.buffer, pairs.byteOffset, pairs.byteLength).toString("base64"),
+  };
+}
+
+// Min/max pairs at several zoom levels, normalized to the recording's peak so
+// quiet recordings still fill the overview. Samples are pushed a chunk at a
+// time; only the finest level is kept, as floats, until the peak is known.
+export class WaveformBuilder {
+  private mins: Float32Array;
+  private maxs: Float32Array;
+  private length = 0;
+  private peak = 0;
+
+  constructor(private readonly sampleRate: number, expectedLength: number) {
+    const count = Math.max(1, Math.ceil(expectedLength / BASE_SAMPLES_PER_PEAK));
+    this.mins = new Float32Array(count);
+    this.maxs = new Float32Array(count);
+  }
+
+  push(samples: Float32Array): void {
+    const needed = Math.ceil((this.length + samples.length) / BASE_SAMPLES_PER_PEAK);
+    if (needed > this.mins.length) this.grow(needed);
+
+    for (let i = 0; i < samples.length; i++) {
+      const value = samples[i];
+      const p = Math.floor((this.length + i) / BASE_SAMPLES_PER_PEAK);
+      if (value < this.mins[p]) this.mins[p] = value;
+      if (value > this.maxs[p]) this.maxs[p] = value;
+      const magnitude = Math.abs(value);
+      if (magnitude > this.peak) this.peak = magnitude;
+    }
+    this.length += samples.length;
+  }
+
+  finish(): WaveformPeaks {
+    const scale = this.peak > 0 ? 127 / this.peak : 0;
+    let count = Math.max(1, Math.ceil(this.length / BASE_SAMPLES_PER_PEAK));
+    let mins = new Int8Array(count);
+    let maxs = new Int8Array(count);
+    for (let p = 0; p < count; p++) {
+      mins[p] = Math.round(this.mins[p] * scale);
+      maxs[p] = Math.round(this.maxs[p] * scale);
+    }
+
+    const levels: WaveformLevel[] = [encodeLevel(BASE_SAMPLES_PER_PEAK, mins, maxs)];
+    let samplesPerPeak = BASE_SAMPLES_PER_PEAK;
+    while (count > MIN_LEVEL_PEAKS) {
+      const nextCount = Math.ceil(count / LEVEL_FACTOR);
+      const nextMins = new Int8Array(nextCount);
+      const nextMaxs = new Int8Array(nextCount);
+      for (let p = 0; p < nextCount; p++) {
+        let lo = 0;
+        let hi = 0;
+        const end = Math.min(count, (p + 1) * LEVEL_FACTOR);
+        for (let i = p * LEVEL_FACTOR; i < end; i++) {
+          if (mins[i] < lo) lo = mins[i];
+          if (maxs[i] > hi) hi = maxs[i];
+        }
+        nextMins[p] = lo;
+        nextMaxs[p] = hi;
+      }
+      count = nextCount;
+      mins = nextMins;
+      maxs = nextMaxs;
+      samplesPerPeak *= LEVEL_FACTOR;
+      levels.push(encodeLevel(samplesPerPeak, mins, maxs));
+    }
+
+    return {
+      sampleRate: this.sampleRate,
+      length: this.length,
+      peak: this.peak,
+      levels,
+    };
+  }
+
+  private grow(count: number): void {
+    const mins = new Float32Array(Math.max(count, this.mins.length * 2));
+    const maxs = new Float32Array(mins.length);
+    mins.set(this.mins);
+    maxs.set(this.maxs);
+    this.mins = mins;
+    this.maxs = maxs;
+  }
+}
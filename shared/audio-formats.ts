@@ -0,0 +1,116 @@
+// Upload formats, shared by upload validation, the analyzer's ffmpeg stage and
+// the /uploads Content-Type. Adding a format here is all it takes to accept it.
+
+export interface AudioFormat {
+  label: string;
+  // Lower-case, with the dot; the first is canonical
+  extensions: string[];
+  // MIME types browsers report for the format; the first is served as Content-Type
+  mimeTypes: string[];
+  // WAV is read directly; everything else is transcoded by ffmpeg
+  native?: boolean;
+  // Video container: ffmpeg analyzes its first audio stream, and files
+  // without one are refused
+  video?: boolean;
+  // Browsers can't play it back, so an AAC copy is made for the player
+  needsPlaybackCopy?: boolean;
+}
+
+export const AUDIO_FORMATS: AudioFormat[] = [
+  {
+    label: "WAV",
+    extensions: [".wav", ".wave"],
+    mimeTypes: ["audio/wav", "audio/x-wav", "audio/wave", "audio/vnd.wave"],
+    native: true,
+  },
+  { label: "MP3", extensions: [".mp3"], mimeTypes: ["audio/mpeg", "audio/mp3"] },
+  { label: "M4A", extensions: [".m4a"], mimeTypes: ["audio/mp4", "audio/x-m4a", "audio/m4a"] },
+  { label: "AAC", extensions: [".aac"], mimeTypes: ["audio/aac", "audio/x-aac"] },
+  { label: "FLAC", extensions: [".flac"], mimeTypes: ["audio/flac", "audio/x-flac"] },
+  // MediaRecorder's native containers (Opus), used by in-browser recording
+  { label: "Ogg", extensions: [".ogg", ".oga", ".opus"], mimeTypes: ["audio/ogg", "audio/opus", "application/ogg"] },
+  { label: "WebM", extensions: [".webm"], mimeTypes: ["audio/webm", "video/webm"] },
+  {
+    label: "AIFF",
+    extensions: [".aiff", ".aif", ".aifc"],
+    mimeTypes: ["audio/aiff", "audio/x-aiff"],
+    needsPlaybackCopy: true,
+  },
+  { label: "MP4", extensions: [".mp4", ".m4v"], mimeTypes: ["video/mp4", "video/x-m4v"], video: true },
+  {
+    label: "MOV",
+    extensions: [".mov"],
+    mimeTypes: ["video/quicktime"],
+    video: true,
+    needsPlaybackCopy: true,
+  },
+  {
+    label: "MKV",
+    extensions: [".mkv"],
+    mimeTypes: ["video/x-matroska", "audio/x-matroska"],
+    video: true,
+    needsPlaybackCopy: true,
+  },
+  {
+    label: "AVI",
+    extensions: [".avi"],
+    mimeTypes: ["video/x-msvideo", "video/avi"],
+    video: true,
+    needsPlaybackCopy: true,
+  },
+];
+
+// Analysis streams from disk, so an hour-long 48 kHz 24-bit stereo recording
+// (about 1 GB) fits with room to spare
+export const MAX_UPLOAD_BYTES = 2 * 1024 * 1024 * 1024;
+export const MAX_UPLOAD_DURATION = 2 * 60 * 60;
+
+// Rate ffmpeg transcodes uploads to, and that live mode analyzes at, so a
+// frame covers the same time and mel span in both
+export const TRANSCODE_SAMPLE_RATE = 22050;
+
+export const ACCEPTED_EXTENSIONS = AUDIO_FORMATS.flatMap((format) => format.extensions);
+export const ACCEPTED_MIME_TYPES = AUDIO_FORMATS.flatMap((format) => format.mimeTypes);
+
+// "WAV, MP3, …, AVI" for error messages and the upload card
+export const SUPPORTED_FORMATS_LABEL = AUDIO_FORMATS.map((format) => format.label).join(", ");
+export const UNSUPPORTED_FORMAT_MESSAGE = `Unsupported file format. Supported formats: ${SUPPORTED_FORMATS_LABEL}.`;
+
+// Playback copies are AAC in MP4, which every browser plays
+const PLAYBACK_COPY_SUFFIX = ".playback.m4a";
+
+function extensionOf(filename: string): string {
+  const dot = filename.lastIndexOf(".");
+  return dot < 0 ? "" : filename.slice(dot).toLowerCase();
+}
+
+export function formatForFilename(filename: string): AudioFormat | undefined {
+  const ext = extensionOf(filename);
+  return AUDIO_FORMATS.find((format) => format.extensions.includes(ext));
+}
+
+export function formatForMimeType(mimeType: string): AudioFormat | undefined {
+  // Recorder blobs carry codec parameters, e.g. "audio/webm;codecs=opus"
+  const base = mimeType.split(";")[0].trim().toLowerCase();
+  return AUDIO_FORMATS.find((format) => format.mimeTypes.includes(base));
+}
+
+// The name's extension decides when it is a known one; otherwise the reported
+// MIME type, so "rec.dat" sent as audio/wav is still accepted as WAV
+export function formatForUpload(filename: string, mimeType: string): AudioFormat | undefined {
+  return formatForFilename(filename) ?? formatForMimeType(mimeType);
+}
+
+export function isAcceptedUpload(filename: string, mimeType: string): boolean {
+  return !!formatForUpload(filename, mimeType);
+}
+
+export function contentTypeFor(filename: string): string {
+  if (filename.endsWith(PLAYBACK_COPY_SUFFIX)) return "audio/mp4";
+  return formatForFilename(filename)?.mimeTypes[0] ?? "application/octet-stream";
+}
+
+// File the player loads for an upload: the upload itself, or its playback copy
+export function playbackFilename(filename: string): string {
+  return formatForFilename(filename)?.needsPlaybackCopy ? `${filename}${PLAYBACK_COPY_SUFFIX}` : filename;
+}
@@ -0,0 +1,213 @@
+// Frame-level DSP shared by the offline analyzer and the live AudioWorklet, so
+// both produce the same MFCCs for the same audio
+
+export function computeRMS(samples: Float32Array, start: number, length: number): number {
+  let sum = 0;
+  const end = Math.min(start + length, samples.length);
+  for (let i = start; i < end; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / (end - start));
+}
+
+// Precomputed lookup tables (lazily initialized per frame size)
+let _cachedFrameSize = 0;
+let _hannWindow: Float32Array;
+let _fftReal: Float32Array;
+let _fftImag: Float32Array;
+let _fftMagnitudes: Float32Array;
+
+function ensureFFTBuffers(frameSize: number): void {
+  if (_cachedFrameSize === frameSize) return;
+  _cachedFrameSize = frameSize;
+  _hannWindow = new Float32Array(frameSize);
+  for (let i = 0; i < frameSize; i++) {
+    _hannWindow[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (frameSize - 1)));
+  }
+  _fftReal = new Float32Array(frameSize);
+  _fftImag = new Float32Array(frameSize);
+  _fftMagnitudes = new Float32Array(frameSize / 2);
+}
+
+export function computeFFT(samples: Float32Array, start: number, frameSize: number): Float32Array {
+  ensureFFTBuffers(frameSize);
+  const n = frameSize;
+  const real = _fftReal;
+  const imag = _fftImag;
+
+  // Copy windowed input using precomputed Hann window
+  for (let i = 0; i < n; i++) {
+    const idx = start + i;
+    real[i] = (idx < samples.length ? samples[idx] : 0) * _hannWindow[i];
+    imag[i] = 0;
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    while (j & bit) {
+      j ^= bit;
+      bit >>= 1;
+    }
+    j ^= bit;
+    if (i < j) {
+      let tmp = real[i]; real[i] = real[j]; real[j] = tmp;
+      tmp = imag[i]; imag[i] = imag[j]; imag[j] = tmp;
+    }
+  }
+
+  // Butterfly stages
+  for (let len = 2; len <= n; len *= 2) {
+    const halfLen = len / 2;
+    const angle = (-2 * Math.PI) / len;
+    const wReal = Math.cos(angle);
+    const wImag = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curReal = 1;
+      let curImag = 0;
+      for (let j = 0; j < halfLen; j++) {
+        const idx = i + j + halfLen;
+        const tReal = curReal * real[idx] - curImag * imag[idx];
+        const tImag = curReal * imag[idx] + curImag * real[idx];
+        real[idx] = real[i + j] - tReal;
+        imag[idx] = imag[i + j] - tImag;
+        real[i + j] += tReal;
+        imag[i + j] += tImag;
+        const newCurReal = curReal * wReal - curImag * wImag;
+        curImag = curReal * wImag + curImag * wReal;
+        curReal = newCurReal;
+      }
+    }
+  }
+
+  // Compute magnitude spectrum (first half only) — reuse buffer
+  const magnitudes = _fftMagnitudes;
+  for (let k = 0; k < n / 2; k++) {
+    magnitudes[k] = Math.sqrt(real[k] * real[k] + imag[k] * imag[k]);
+  }
+  // Return a COPY since the caller may store the result
+  return Float32Array.from(magnitudes);
+}
+
+// Mel scale conversion functions
+export function hzToMel(hz: number): number {
+  return 2595 * Math.log10(1 + hz / 700);
+}
+
+export function melToHz(mel: number): number {
+  return 700 * (Math.pow(10, mel / 2595) - 1);
+}
+
+// Create Mel filterbank
+export function createMelFilterbank(
+  numFilters: number,
+  fftSize: number,
+  sampleRate: number,
+  lowFreq: number = 0,
+  highFreq?: number
+): number[][] {
+  highFreq = highFreq || sampleRate / 2;
+
+  const lowMel = hzToMel(lowFreq);
+  const highMel = hzToMel(highFreq);
+  const melPoints = Array.from(
+    { length: numFilters + 2 },
+    (_, i) => lowMel + (i * (highMel - lowMel)) / (numFilters + 1)
+  );
+
+  const hzPoints = melPoints.map(melToHz);
+  const binPoints = hzPoints.map(hz => Math.floor((fftSize + 1) * hz / sampleRate));
+
+  const filterbank: number[][] = [];
+  for (let i = 1; i <= numFilters; i++) {
+    const filter = new Array(Math.floor(fftSize / 2) + 1).fill(0);
+
+    const left = binPoints[i - 1];
+    const center = binPoints[i];
+    const right = binPoints[i + 1];
+
+    for (let j = left; j < center; j++) {
+      filter[j] = (j - left) / (center - left);
+    }
+    for (let j = center; j < right; j++) {
+      filter[j] = (right - j) / (right - center);
+    }
+
+    filterbank.push(filter);
+  }
+
+  return filterbank;
+}
+
+// Precomputed DCT cosine table (lazily initialized)
+let _dctTable: Float64Array | null = null;
+let _dctN = 0;
+let _dctK = 0;
+
+function ensureDCTTable(N: number, numCoefficients: number): void {
+  if (_dctN === N && _dctK === numCoefficients) return;
+  _dctN = N;
+  _dctK = numCoefficients;
+  _dctTable = new Float64Array(numCoefficients * N);
+  for (let k = 0; k < numCoefficients; k++) {
+    for (let n = 0; n < N; n++) {
+      _dctTable[k * N + n] = Math.cos((Math.PI * k * (n + 0.5)) / N);
+    }
+  }
+}
+
+// Discrete Cosine Transform with precomputed cosine table
+export function dct(input: number[], numCoefficients: number): number[] {
+  const N = input.length;
+  ensureDCTTable(N, numCoefficients);
+  const table = _dctTable!;
+  const output: number[] = new Array(numCoefficients);
+
+  for (let k = 0; k < numCoefficients; k++) {
+    let sum = 0;
+    const offset = k * N;
+    for (let n = 0; n < N; n++) {
+      sum += input[n] * table[offset + n];
+    }
+    output[k] = sum;
+  }
+
+  return output;
+}
+
+// Extract MFCCs from a pre-computed FFT magnitude spectrum using a cached filterbank
+export function extractMFCCsFromFFT(
+  fft: Float32Array,
+  filterbank: number[][],
+  numMFCCs: number = 40
+): number[] {
+  // Apply filterbank to power spectrum
+  const melEnergies: number[] = [];
+  for (const filter of filterbank) {
+    let energy = 0;
+    for (let i = 0; i < fft.length; i++) {
+      energy += (fft[i] * fft[i]) * filter[i];
+    }
+    melEnergies.push(Math.log(energy + 1e-10));
+  }
+
+  // Apply DCT to get MFCCs
+  const mfccs = dct(melEnergies, numMFCCs);
+
+  return mfccs;
+}
+
+// Calculate dominant frequency from FFT
+export function calculateDominantFrequency(fft: Float32Array, sampleRate: number, fftSize: number): number {
+  let maxMag = 0;
+  let maxBin = 0;
+
+  for (let i = 1; i < fft.length; i++) {
+    if (fft[i] > maxMag) {
+      maxMag = fft[i];
+      maxBin = i;
+    }
+  }
+
+  return (maxBin * sampleRate) / fftSize;
+}
@@ -0,0 +1,120 @@
+import { Matrix, EigenvalueDecomposition } from "ml-matrix";
+
+export interface IncrementalPCAOptions {
+  // Per-sample decay of the accumulated statistics; 1 weighs all samples equally,
+  // below 1 the basis follows recent input (effective memory ≈ 1 / (1 - forgetting))
+  forgetting?: number;
+}
+
+const COMPONENTS = 3;
+
+// Top-3 principal components from a running mean and scatter matrix, so vectors
+// can be fed one at a time without keeping them around
+export class IncrementalPCA {
+  readonly dim: number;
+  private readonly forgetting: number;
+  private weight = 0;
+  private samples = 0;
+  private readonly mean: Float64Array;
+  private readonly scatter: Float64Array;
+  private readonly delta: Float64Array;
+  private fittedMean: Float64Array | null = null;
+  private components: Float64Array[] | null = null;
+  private eigenvalues: number[] = [];
+
+  constructor(dim: number, options: IncrementalPCAOptions = {}) {
+    this.dim = dim;
+    this.forgetting = options.forgetting ?? 1;
+    this.mean = new Float64Array(dim);
+    this.scatter = new Float64Array(dim * dim);
+    this.delta = new Float64Array(dim);
+  }
+
+  get count(): number {
+    return this.samples;
+  }
+
+  get isFitted(): boolean {
+    return this.components !== null;
+  }
+
+  // Variance along each fitted component, largest first
+  get variances(): number[] {
+    return this.eigenvalues;
+  }
+
+  // Weighted Welford update: S ← λS + (x − μ_old)(x − μ_new)ᵀ
+  update(vector: ArrayLike<number>): void {
+    const { dim, mean, scatter, delta, forgetting } = this;
+    this.weight = this.weight * forgetting + 1;
+    this.samples++;
+    for (let d = 0; d < dim; d++) {
+      delta[d] = (vector[d] ?? 0) - mean[d];
+      mean[d] += delta[d] / this.weight;
+    }
+    for (let r = 0; r < dim; r++) {
+      const after = (vector[r] ?? 0) - mean[r];
+      const row = r * dim;
+      for (let c = 0; c < dim; c++) {
+        scatter[row + c] = scatter[row + c] * forgetting + after * delta[c];
+      }
+    }
+  }
+
+  // Re-solves the basis from the current statistics. Component signs are kept
+  // consistent with the previous fit so projections don't mirror between refits.
+  // Returns false while there is too little data or the covariance is degenerate.
+  fit(): boolean {
+    const { dim } = this;
+    if (this.samples < 2 || dim < COMPONENTS) return false;
+
+    try {
+      const covariance = new Matrix(dim, dim);
+      for (let r = 0; r < dim; r++) {
+        for (let c = 0; c < dim; c++) {
+          // Symmetrize: the two update factors make the accumulated matrix only nearly so
+          covariance.set(r, c, (this.scatter[r * dim + c] + this.scatter[c * dim + r]) / (2 * this.weight));
+        }
+      }
+      const evd = new EigenvalueDecomposition(covariance, { assumeSymmetric: true });
+      const eigenvectors = evd.eigenvectorMatrix;
+      const sorted = evd.realEigenvalues
+        .map((val, idx) => ({ val, idx }))
+        .sort((a, b) => b.val - a.val);
+      if (!(sorted[0].val > 0)) return false;
+
+      const components = sorted.slice(0, COMPONENTS).map(({ idx }, k) => {
+        const pc = new Float64Array(dim);
+        for (let r = 0; r < dim; r++) pc[r] = eigenvectors.get(r, idx);
+        const previous = this.components?.[k];
+        if (previous) {
+          let dot = 0;
+          for (let r = 0; r < dim; r++) dot += pc[r] * previous[r];
+          if (dot < 0) for (let r = 0; r < dim; r++) pc[r] = -pc[r];
+        }
+        return pc;
+      });
+
+      this.components = components;
+      this.eigenvalues = sorted.slice(0, COMPONENTS).map(({ val }) => Math.max(0, val));
+      this.fittedMean = Float64Array.from(this.mean);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Coordinates of a vector on the fitted basis, or null before the first fit
+  project(vector: ArrayLike<number>): [number, number, number] | null {
+    const { components, fittedMean, dim } = this;
+    if (!components || !fittedMean) return null;
+    const out: [number, number, number] = [0, 0, 0];
+    for (let d = 0; d < dim; d++) {
+      const centered = (vector[d] ?? 0) - fittedMean[d];
+      out[0] += centered * components[0][d];
+      out[1] += centered * components[1][d];
+      out[2] += centered * components[2][d];
+    }
+    return out;
+  }
+}
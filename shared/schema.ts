@@ -1,3 +1,17 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  varchar,
+  text,
+  integer,
+  serial,
+  doublePrecision,
+  real,
+  jsonb,
+  timestamp,
+  index,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export const audioFrameSchema = z.object({
@@ -10,6 +24,18 @@ export const audioFrameSchema = z.object({
   }).optional(),
   frequency: z.number().optional(),
   amplitude: z.number().optional(),
+  pitch: z.number().optional(),
+  pitchConfidence: z.number().optional(),
+  centroid: z.number().optional(),
+  bandwidth: z.number().optional(),
+  flux: z.number().optional(),
+  flatness: z.number().optional(),
+  onsetStrength: z.number().optional(),
+  bandEnergies: z.object({
+    low: z.number(),
+    mid: z.number(),
+    high: z.number(),
+  }).optional(),
 });
 
 export const visualizationPointSchema = z.object({
@@ -21,6 +47,12 @@ export const visualizationPointSchema = z.object({
   time: z.number(),
   mfccs: z.array(z.number()),
   frequency: z.number().optional(),
+  pitch: z.number().optional(),
+  pitchConfidence: z.number().optional(),
+  centroid: z.number().optional(),
+  bandwidth: z.number().optional(),
+  flux: z.number().optional(),
+  flatness: z.number().optional(),
   beatStrength: z.number().optional(),
   complexity: z.number().optional(),
   band: z.enum(['low', 'mid', 'high']).optional(),
@@ -28,6 +60,19 @@ export const visualizationPointSchema = z.object({
   onsetLow: z.number().optional(),
   onsetMid: z.number().optional(),
   onsetHigh: z.number().optional(),
+  syllableType: z.number().optional(),
+  // Set when channels are analyzed separately; each channel is its own cloud
+  channel: z.number().optional(),
+  // dB relative to the loudest channel in the same frame (0 for the loudest)
+  levelDifference: z.number().optional(),
+  // Seconds this channel hears the frame after the loudest one; negative is earlier
+  timeDifference: z.number().optional(),
+});
+
+export const syllableSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+  type: z.number(),
 });
 
 export const verseSchema = z.object({
@@ -37,13 +82,160 @@ export const verseSchema = z.object({
   end: z.number(),
   points: z.array(visualizationPointSchema),
   edges: z.array(z.tuple([z.number(), z.number()])),
+  // Parallel to edges, in (0, 1], higher for shorter edges; absent on older analyses
+  edgeWeights: z.array(z.number()).optional(),
+  syllables: z.array(syllableSchema).optional(),
+});
+
+const isPowerOfTwo = (n: number) => n > 0 && (n & (n - 1)) === 0;
+
+export const embeddingMethodSchema = z.enum(["pca", "umap", "tsne"]);
+
+// Parameters that a method does not use are still recorded so a version can be reproduced
+export const embeddingOptionsSchema = z.object({
+  method: embeddingMethodSchema.default("pca"),
+  seed: z.number().int().min(0).max(2 ** 31 - 1).default(42),
+  iterations: z.number().int().min(50).max(5000).default(500),
+  perplexity: z.number().min(2).max(100).default(30),
+  umapNeighbors: z.number().int().min(2).max(200).default(15),
+  minDist: z.number().min(0).max(1).default(0.1),
+});
+
+export const networkModeSchema = z.enum(["knn", "mutual", "radius"]);
+
+// How each verse's points are linked: to their k nearest neighbours, only to
+// neighbours that pick them back, or to everything within a radius in
+// embedding units (clouds span about ±5)
+export const networkOptionsSchema = z.object({
+  mode: networkModeSchema.default("knn"),
+  radius: z.number().min(0.01).max(10).default(0.5),
+});
+
+// Which channel of a multichannel recording is analyzed; "mix" averages them all
+// and "split" analyzes each one into its own cloud in a shared embedding
+export const analysisChannelSchema = z.union([z.enum(["mix", "split"]), z.number().int().min(0).max(63)]);
+
+export const analysisOptionsSchema = z.object({
+  frameSize: z.number().int().min(128).max(8192)
+    .refine(isPowerOfTwo, { message: "Frame size must be a power of two" })
+    .default(512),
+  hopSize: z.number().int().min(16).max(8192).default(256),
+  melFilters: z.number().int().min(8).max(128).default(40),
+  mfccCount: z.number().int().min(3).max(128).default(40),
+  pointsPerVerse: z.number().int().min(10).max(20000).default(400),
+  neighbors: z.number().int().min(1).max(20).default(3),
+  silenceThreshold: z.number().min(0).max(1).default(0.1),
+  minSilenceDuration: z.number().min(0).max(10).default(0.2),
+  minVerseDuration: z.number().min(0).max(30).default(0.3),
+  syllableThreshold: z.number().min(0).max(1).default(0.3),
+  minSyllableDuration: z.number().min(0).max(2).default(0.03),
+  // 0 picks the number of syllable types automatically
+  syllableTypes: z.number().int().min(0).max(32).default(0),
+  embedding: embeddingOptionsSchema.default({}),
+  network: networkOptionsSchema.default({}),
+  channel: analysisChannelSchema.default("mix"),
+}).superRefine((options, ctx) => {
+  // The DCT yields at most one coefficient per mel band
+  if (options.mfccCount > options.melFilters) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["mfccCount"],
+      message: `MFCCs cannot exceed the number of mel filters (${options.melFilters})`,
+    });
+  }
+  // A hop longer than the frame would skip the audio between frames
+  if (options.hopSize > options.frameSize) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["hopSize"],
+      message: `Hop size cannot exceed the frame size (${options.frameSize})`,
+    });
+  }
+});
+
+export const defaultAnalysisOptions = analysisOptionsSchema.parse({});
+
+// Broadcast WAV `bext` chunk (EBU Tech 3285), as written by field recorders
+export const broadcastExtensionSchema = z.object({
+  description: z.string(),
+  originator: z.string(),
+  originatorReference: z.string(),
+  // "yyyy-mm-dd" and "hh:mm:ss" as recorded; not validated
+  originationDate: z.string(),
+  originationTime: z.string(),
+  // Sample count since midnight of the first sample
+  timeReference: z.number(),
+  version: z.number(),
+  codingHistory: z.string(),
+});
+
+// Header of a WAV upload as stored in the file, before channel selection
+export const wavMetadataSchema = z.object({
+  channels: z.number(),
+  bitsPerSample: z.number(),
+  sampleFormat: z.enum(["int", "float"]),
+  // WAVE_FORMAT_EXTENSIBLE speaker mask, when the file has one
+  channelMask: z.number().optional(),
+  bext: broadcastExtensionSchema.optional(),
+  // Raw iXML document
+  ixml: z.string().optional(),
 });
 
 export const visualizationDataSchema = z.object({
+  analysisId: z.string().optional(),
+  recordingId: z.string().optional(),
   audioUrl: z.string(),
   duration: z.number(),
   sampleRate: z.number(),
   verses: z.array(verseSchema),
+  options: analysisOptionsSchema.optional(),
+  wavMetadata: wavMetadataSchema.optional(),
+});
+
+// Quantized STFT magnitudes for the timeline strip, served separately from the
+// visualization data so the 3D view doesn't wait on it
+export const spectrogramSchema = z.object({
+  columns: z.number(),
+  rows: z.number(),
+  // Seconds per column; column 0 starts at t = 0
+  columnDuration: z.number(),
+  // Rows are log-spaced between these frequencies, row 0 lowest
+  minHz: z.number(),
+  maxHz: z.number(),
+  // Byte 0 maps to minDb and 255 to maxDb
+  minDb: z.number(),
+  maxDb: z.number(),
+  // Base64 of columns * rows bytes, column-major
+  data: z.string(),
+});
+
+export const waveformLevelSchema = z.object({
+  samplesPerPeak: z.number(),
+  // Base64 of interleaved [min, max] int8 pairs; ±127 is the recording's peak
+  data: z.string(),
+});
+
+// Min/max overview of the decoded PCM, finest level first
+export const waveformPeaksSchema = z.object({
+  sampleRate: z.number(),
+  // Total samples in the decoded audio
+  length: z.number(),
+  // Absolute sample value that 127 stands for
+  peak: z.number(),
+  levels: z.array(waveformLevelSchema),
+});
+
+export const analysisSummarySchema = z.object({
+  id: z.string(),
+  recordingId: z.string(),
+  filename: z.string(),
+  originalName: z.string(),
+  duration: z.number(),
+  sampleRate: z.number(),
+  verseCount: z.number(),
+  pointCount: z.number(),
+  options: analysisOptionsSchema.optional(),
+  createdAt: z.string(),
 });
 
 export const audioUploadResponseSchema = z.object({
@@ -54,18 +246,151 @@ export const audioUploadResponseSchema = z.object({
 
 export const visualStyleSchema = z.enum(["network", "galaxy", "ribbons"]);
 
+export const colorModeSchema = z.enum(["frequency", "syllable", "channel"]);
+
+export const analysisStageSchema = z.enum([
+  "queued",
+  "transcode",
+  "frames",
+  "segmentation",
+  "embedding",
+  "syllables",
+  "knn",
+]);
+
+export const analysisJobStatusSchema = z.enum([
+  "pending",
+  "running",
+  "completed",
+  "failed",
+  "cancelled",
+]);
+
+export const analysisJobSchema = z.object({
+  id: z.string(),
+  status: analysisJobStatusSchema,
+  stage: analysisStageSchema,
+  progress: z.number(),
+  error: z.string().optional(),
+  // Set once completed; the result itself is loaded from /api/analyses/:id so
+  // progress updates stay small
+  analysisId: z.string().optional(),
+});
+
+export const analyzeJobResponseSchema = z.object({
+  success: z.boolean(),
+  jobId: z.string().optional(),
+  error: z.string().optional(),
+});
+
 export type AudioFrame = z.infer<typeof audioFrameSchema>;
 export type VisualizationPoint = z.infer<typeof visualizationPointSchema>;
+export type Syllable = z.infer<typeof syllableSchema>;
 export type Verse = z.infer<typeof verseSchema>;
 export type VisualizationData = z.infer<typeof visualizationDataSchema>;
+export type Spectrogram = z.infer<typeof spectrogramSchema>;
+export type WaveformLevel = z.infer<typeof waveformLevelSchema>;
+export type WaveformPeaks = z.infer<typeof waveformPeaksSchema>;
+export type EmbeddingMethod = z.infer<typeof embeddingMethodSchema>;
+export type EmbeddingOptions = z.infer<typeof embeddingOptionsSchema>;
+export type NetworkMode = z.infer<typeof networkModeSchema>;
+export type NetworkOptions = z.infer<typeof networkOptionsSchema>;
+export type AnalysisChannel = z.infer<typeof analysisChannelSchema>;
+export type BroadcastExtension = z.infer<typeof broadcastExtensionSchema>;
+export type WavMetadata = z.infer<typeof wavMetadataSchema>;
+export type AnalysisOptions = z.infer<typeof analysisOptionsSchema>;
+export type AnalysisOptionsInput = z.input<typeof analysisOptionsSchema>;
+export type AnalysisSummary = z.infer<typeof analysisSummarySchema>;
 export type AudioUploadResponse = z.infer<typeof audioUploadResponseSchema>;
 export type VisualStyle = z.infer<typeof visualStyleSchema>;
+export type ColorMode = z.infer<typeof colorModeSchema>;
+export type AnalysisStage = z.infer<typeof analysisStageSchema>;
+export type AnalysisJobStatus = z.infer<typeof analysisJobStatusSchema>;
+export type AnalysisJob = z.infer<typeof analysisJobSchema>;
+export type AnalyzeJobResponse = z.infer<typeof analyzeJobResponseSchema>;
 
 export interface VisualizationSettings {
   visualStyle: VisualStyle;
+  colorMode: ColorMode;
   autoRotate: boolean;
   loopPlayback: boolean;
+  playbackRate: number;
+  // false plays slowed audio as time expansion: pitch drops with speed
+  preservePitch: boolean;
   showDebug: boolean;
   isFullscreen: boolean;
   progressiveReveal: boolean;
+  showSpectrogram: boolean;
 }
+
+export const recordings = pgTable("recordings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  filename: text("filename").notNull(),
+  originalName: text("original_name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const analyses = pgTable("analyses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  recordingId: varchar("recording_id").notNull().references(() => recordings.id, { onDelete: "cascade" }),
+  duration: doublePrecision("duration").notNull(),
+  sampleRate: integer("sample_rate").notNull(),
+  options: jsonb("options").$type<AnalysisOptions>(),
+  wavMetadata: jsonb("wav_metadata").$type<WavMetadata>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("analyses_recording_id_idx").on(table.recordingId),
+]);
+
+export const verses = pgTable("verses", {
+  id: serial("id").primaryKey(),
+  analysisId: varchar("analysis_id").notNull().references(() => analyses.id, { onDelete: "cascade" }),
+  verseIndex: integer("verse_index").notNull(),
+  name: text("name").notNull(),
+  start: doublePrecision("start").notNull(),
+  end: doublePrecision("end").notNull(),
+  edges: jsonb("edges").$type<[number, number][]>().notNull(),
+  edgeWeights: jsonb("edge_weights").$type<number[]>(),
+  syllables: jsonb("syllables").$type<Syllable[]>().notNull().default([]),
+}, (table) => [
+  index("verses_analysis_id_idx").on(table.analysisId),
+]);
+
+export const spectrograms = pgTable("spectrograms", {
+  analysisId: varchar("analysis_id").primaryKey().references(() => analyses.id, { onDelete: "cascade" }),
+  spectrogram: jsonb("spectrogram").$type<Spectrogram>().notNull(),
+});
+
+export const waveforms = pgTable("waveforms", {
+  analysisId: varchar("analysis_id").primaryKey().references(() => analyses.id, { onDelete: "cascade" }),
+  peaks: jsonb("peaks").$type<WaveformPeaks>().notNull(),
+});
+
+// Core point fields get their own columns; the optional per-frame descriptors
+// live in `extras` so new point attributes don't need a migration
+export const points = pgTable("points", {
+  id: serial("id").primaryKey(),
+  verseId: integer("verse_id").notNull().references(() => verses.id, { onDelete: "cascade" }),
+  pointIndex: integer("point_index").notNull(),
+  x: doublePrecision("x").notNull(),
+  y: doublePrecision("y").notNull(),
+  z: doublePrecision("z").notNull(),
+  size: doublePrecision("size").notNull(),
+  time: doublePrecision("time").notNull(),
+  color: jsonb("color").$type<[number, number, number]>().notNull(),
+  mfccs: real("mfccs").array().notNull(),
+  extras: jsonb("extras").$type<Record<string, unknown>>().notNull().default({}),
+}, (table) => [
+  index("points_verse_id_idx").on(table.verseId),
+]);
+
+export const insertRecordingSchema = createInsertSchema(recordings).pick({
+  filename: true,
+  originalName: true,
+});
+
+export type InsertRecording = z.infer<typeof insertRecordingSchema>;
+export type Recording = typeof recordings.$inferSelect;
+export type AnalysisRow = typeof analyses.$inferSelect;
+export type VerseRow = typeof verses.$inferSelect;
+export type PointRow = typeof points.$inferSelect;